@@ -1,8 +1,13 @@
 import type { NextConfig } from "next";
 
+// One id per build, shared by Next.js and the service worker's shell cache name.
+// Kept in the environment so build workers that reload this config see the same value
+process.env.NEXT_PUBLIC_BUILD_ID ??= Date.now().toString(36);
+
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  generateBuildId: () => process.env.NEXT_PUBLIC_BUILD_ID ?? null,
 };
 
 export default nextConfig;
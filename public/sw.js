@@ -0,0 +1,234 @@
+/**
+ * NutriScan Service Worker
+ * Precaches the app shell, the ONNX Runtime binaries and the model, so scans
+ * work offline after first launch.
+ *
+ * Registered as /sw.js?build=<build id>&model=<MODEL_PATH>&modelCache=<cache name>&modelManifest=<path>:
+ * a new build or MODEL_PATH changes the script URL, which installs a new worker whose
+ * activation deletes every cache it does not own, including the previous build's
+ * shell cache (named after its build id). The model cache is versioned
+ * by the hash in the model manifest, so a retrained model at the same path gets
+ * a new cache; the inference worker downloads it on its next launch.
+ */
+
+const params = new URL(self.location.href).searchParams;
+const BUILD_ID = params.get("build") || "dev";
+const MODEL_PATH = params.get("model") || "/models/best.onnx";
+const MODEL_CACHE = params.get("modelCache") || `nutriscan-model-${MODEL_PATH}`;
+const MODEL_MANIFEST_PATH = params.get("modelManifest") || "/models/manifest.json";
+
+const CACHE_PREFIX = "nutriscan-";
+const MODEL_CACHE_PREFIX = "nutriscan-model-";
+const SHELL_CACHE_PREFIX = "nutriscan-shell-";
+const SHELL_CACHE = `${SHELL_CACHE_PREFIX}${BUILD_ID}`;
+const ORT_CACHE_PREFIX = "nutriscan-ort-";
+const ORT_ASSETS_PATH = "/onnxruntime-wasm/";
+
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/favicon.ico", "/icon.svg"];
+
+/**
+ * Cache name for the ORT binaries, versioned by the asset manifest
+ */
+async function getOrtCacheName() {
+  const response = await fetch(`${ORT_ASSETS_PATH}manifest.json`, { cache: "no-cache" });
+  const manifest = await response.json();
+  return { name: `${ORT_CACHE_PREFIX}${manifest.version}`, manifest };
+}
+
+/**
+ * Cache name for the model, versioned by its hash in the model manifest
+ * Offline, the manifest comes from the cache; null when no manifest lists the model
+ */
+async function getModelCacheName() {
+  let response = null;
+  try {
+    response = await fetch(MODEL_MANIFEST_PATH, { cache: "no-cache" });
+    if (!response.ok) response = null;
+  } catch {
+    response = (await caches.match(MODEL_MANIFEST_PATH)) || null;
+  }
+  if (!response) return null;
+
+  const manifest = await response.clone().json();
+  const entry = manifest.files?.[MODEL_PATH.split("/").pop()];
+  return entry ? { name: `${MODEL_CACHE}@${entry.sha256}`, manifest: response } : null;
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll(SHELL_URLS);
+
+      try {
+        const { name, manifest } = await getOrtCacheName();
+        const ort = await caches.open(name);
+        // Only the wasm variant the runtime loads; the others are never requested
+        const files = manifest.loaded ?? Object.keys(manifest.files);
+        await ort.addAll([
+          `${ORT_ASSETS_PATH}manifest.json`,
+          ...files.map((file) => `${ORT_ASSETS_PATH}${file}`),
+        ]);
+      } catch (error) {
+        // The app still works online; the worker reports missing assets itself
+        console.warn("[SW] Failed to precache ONNX Runtime assets:", error);
+      }
+
+      try {
+        const model = await getModelCacheName();
+        if (model) {
+          const cache = await caches.open(model.name);
+          await cache.put(MODEL_MANIFEST_PATH, model.manifest);
+          // The inference worker may have stored it already
+          if (!(await cache.match(MODEL_PATH))) await cache.add(MODEL_PATH);
+        }
+      } catch (error) {
+        // Not fatal: the inference worker downloads and caches the model itself
+        console.warn("[SW] Failed to precache the model:", error);
+      }
+
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      let ortCache = null;
+      try {
+        ortCache = (await getOrtCacheName()).name;
+      } catch {
+        // Offline activation: keep existing ORT caches
+      }
+      let modelCache = null;
+      try {
+        modelCache = (await getModelCacheName())?.name ?? null;
+      } catch {
+        // Unreadable manifest: keep existing model caches
+      }
+
+      const isStale = (name) => {
+        // Shell caches of previous builds
+        if (name.startsWith(SHELL_CACHE_PREFIX)) return name !== SHELL_CACHE;
+        if (name.startsWith(ORT_CACHE_PREFIX)) return ortCache !== null && name !== ortCache;
+        if (name.startsWith(MODEL_CACHE_PREFIX)) return modelCache !== null && name !== modelCache;
+        return name.startsWith(CACHE_PREFIX);
+      };
+      const names = await caches.keys();
+      await Promise.all(names.filter(isStale).map((name) => caches.delete(name)));
+
+      await self.clients.claim();
+    })()
+  );
+});
+
+/**
+ * Cache-first lookup across all NutriScan caches, filling `cacheName` on miss
+ */
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * Network-first for pages, falling back to the cached shell when offline
+ */
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(request)) || (await caches.match("/"));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * ORT assets: the manifest stays fresh when online (it drives the version check),
+ * binaries come from the precache. HEAD probes from the version check are
+ * answered from cached headers so the check also passes offline.
+ */
+async function ortAsset(request) {
+  const url = new URL(request.url);
+  const cached = await caches.match(url.href);
+
+  if (request.method === "HEAD") {
+    if (cached) return new Response(null, { status: cached.status, headers: cached.headers });
+    return fetch(request);
+  }
+
+  if (url.pathname.endsWith(".json")) {
+    try {
+      return await fetch(request);
+    } catch (error) {
+      if (cached) return cached;
+      throw error;
+    }
+  }
+
+  return cached || fetch(request);
+}
+
+/**
+ * Model: from the cache of the current model version, otherwise the network.
+ * Caches of older versions are never served, so a retrained model is picked up
+ */
+async function modelAsset(request) {
+  const model = await getModelCacheName().catch(() => null);
+  const cached = model ? await (await caches.open(model.name)).match(request) : null;
+  return cached || fetch(request);
+}
+
+/**
+ * Model manifest: fresh when online, cached otherwise (it versions the model cache)
+ */
+async function modelManifest(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cached = await caches.match(MODEL_MANIFEST_PATH);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith(ORT_ASSETS_PATH)) {
+    if (request.method === "GET" || request.method === "HEAD") {
+      event.respondWith(ortAsset(request));
+    }
+    return;
+  }
+
+  if (request.method !== "GET") return;
+
+  if (url.pathname === MODEL_PATH) {
+    // On a miss the inference worker streams the download (for progress) and fills
+    // the model cache itself; caching here too would hold the response until fully downloaded
+    event.respondWith(modelAsset(request));
+  } else if (url.pathname === MODEL_MANIFEST_PATH) {
+    event.respondWith(modelManifest(request));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    // Hashed build assets never change for a given URL
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,188 @@
+/**
+ * Benchmark the masks of a typical scan (5 detections on a 640x480 image):
+ * - encoding: plain number[] vs bit-packed masks, memory footprint and the cost
+ *   of posting them the way the worker does (structured clone vs zero-copy transfer)
+ * - generation: the former full-frame mask (every prototype cell through the
+ *   sigmoid, whole image upsampled) vs the app's box-cropped generateMask
+ *
+ * Usage: pnpm bench:masks
+ */
+
+import { MessageChannel } from "node:worker_threads";
+import { createServer } from "vitest/node";
+
+// Load the app's modules from source, resolved like the tests (vitest.config.ts aliases)
+const vite = await createServer({
+  configFile: "vitest.config.ts",
+  server: { middlewareMode: true, hmr: false },
+  appType: "custom",
+  logLevel: "error",
+});
+const { packMask, getMaskTransferables, createPackedMask, setMaskPixel } = await vite.ssrLoadModule(
+  "/src/lib/inference/maskEncoding.ts"
+);
+const { processDetections } = await vite.ssrLoadModule("/src/lib/inference/postprocessing.ts");
+const { INFERENCE_CONFIG } = await vite.ssrLoadModule("/src/lib/constants.ts");
+await vite.close();
+
+const WIDTH = 640;
+const HEIGHT = 480;
+const DETECTIONS = 5;
+const ITERATIONS = 20;
+
+/** Synthetic food blob: an ellipse per detection */
+function buildBinaryMask(index) {
+  const values = new Array(WIDTH * HEIGHT);
+  const cx = (WIDTH / (DETECTIONS + 1)) * (index + 1);
+  const cy = HEIGHT / 2;
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const dx = (x - cx) / 60;
+      const dy = (y - cy) / 120;
+      values[y * WIDTH + x] = dx * dx + dy * dy <= 1 ? 1 : 0;
+    }
+  }
+  return values;
+}
+
+/** JS heap plus ArrayBuffer backing stores (which live outside the heap) */
+function memoryUsed() {
+  global.gc?.();
+  const { heapUsed, arrayBuffers } = process.memoryUsage();
+  return heapUsed + arrayBuffers;
+}
+
+function formatBytes(bytes) {
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+/** Post a payload through a MessageChannel and wait until it is received */
+function roundTrip(payload, transfer) {
+  return new Promise((resolve) => {
+    const { port1, port2 } = new MessageChannel();
+    port2.once("message", () => {
+      port1.close();
+      port2.close();
+      resolve();
+    });
+    port1.postMessage(payload, transfer);
+  });
+}
+
+async function measure(label, build, getTransfer) {
+  const before = memoryUsed();
+  const kept = build();
+  const footprint = memoryUsed() - before;
+
+  let total = 0;
+  for (let i = 0; i < ITERATIONS; i++) {
+    const masks = build();
+    const start = performance.now();
+    await roundTrip(masks, getTransfer(masks));
+    total += performance.now() - start;
+  }
+
+  console.log(
+    `${label.padEnd(10)} memory ${formatBytes(footprint).padStart(9)}   post ${(total / ITERATIONS).toFixed(2).padStart(7)} ms`
+  );
+  return kept;
+}
+
+const binary = Array.from({ length: DETECTIONS }, (_, i) => buildBinaryMask(i));
+
+console.log(`${DETECTIONS} masks of ${WIDTH}x${HEIGHT}, ${ITERATIONS} iterations`);
+if (!global.gc) console.log("(run with --expose-gc for accurate memory numbers)");
+
+await measure(
+  "number[]",
+  () => binary.map((values) => values.slice()),
+  () => []
+);
+await measure(
+  "packed",
+  () => binary.map((values) => packMask(values, WIDTH, HEIGHT)),
+  (masks) => getMaskTransferables(masks)
+);
+
+// ============================================================================
+// Mask generation
+// ============================================================================
+
+const INPUT_SIZE = 640;
+const NUM_PROTOS = 32;
+const PROTO_SIZE = 160;
+const PLANE_SIZE = PROTO_SIZE * PROTO_SIZE;
+const LETTERBOX = {
+  scale: 1,
+  padX: 0,
+  padY: (INPUT_SIZE - HEIGHT) / 2,
+  resizedWidth: WIDTH,
+  resizedHeight: HEIGHT,
+  originalWidth: WIDTH,
+  originalHeight: HEIGHT,
+  inputSize: INPUT_SIZE,
+};
+
+/** Deterministic values in [-1, 1) */
+function seededValues(count, seed) {
+  const values = new Float32Array(count);
+  let state = seed;
+  for (let i = 0; i < count; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    values[i] = state / 2 ** 31 - 1;
+  }
+  return values;
+}
+
+/** Former generateMask: 32 x 25,600 products and a sigmoid per cell, then the whole image */
+function fullFrameMask(coeffs, protos) {
+  const probabilities = new Float32Array(PLANE_SIZE);
+  for (let i = 0; i < PLANE_SIZE; i++) {
+    let sum = 0;
+    for (let c = 0; c < NUM_PROTOS; c++) sum += coeffs[c] * protos[c * PLANE_SIZE + i];
+    probabilities[i] = 1 / (1 + Math.exp(-sum));
+  }
+
+  const mask = createPackedMask(WIDTH, HEIGHT);
+  const scale = PROTO_SIZE / INPUT_SIZE;
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const cell = Math.floor((y + LETTERBOX.padY) * scale) * PROTO_SIZE + Math.floor((x + LETTERBOX.padX) * scale);
+      if (probabilities[cell] >= INFERENCE_CONFIG.MASK_THRESHOLD) {
+        setMaskPixel(mask, y * WIDTH + x);
+        mask.pixelCount++;
+      }
+    }
+  }
+  return mask;
+}
+
+// Boxes the size of the blobs above (120x240 px), spread along the image
+const protos = seededValues(NUM_PROTOS * PLANE_SIZE, 1);
+const detections = Array.from({ length: DETECTIONS }, (_, i) => ({
+  classId: i,
+  confidence: 0.9,
+  box: {
+    x: (WIDTH / (DETECTIONS + 1)) * (i + 1) / INPUT_SIZE,
+    y: 0.5,
+    width: 120 / INPUT_SIZE,
+    height: 240 / INPUT_SIZE,
+  },
+  maskCoeffs: seededValues(NUM_PROTOS, i + 2),
+}));
+
+async function time(label, run) {
+  await run(); // Warm-up
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) await run();
+  const perScan = (performance.now() - start) / ITERATIONS;
+  console.log(`${label.padEnd(10)} ${perScan.toFixed(2).padStart(7)} ms per scan`);
+  return perScan;
+}
+
+console.log(`\nMask generation: ${DETECTIONS} detections, ${NUM_PROTOS}x${PROTO_SIZE}x${PROTO_SIZE} prototypes`);
+const fullFrame = await time("full-frame", () => detections.map((d) => fullFrameMask(d.maskCoeffs, protos)));
+const cropped = await time("crop", () =>
+  processDetections(detections, protos, [1, NUM_PROTOS, PROTO_SIZE, PROTO_SIZE], LETTERBOX, 0.01)
+);
+console.log(`crop is ${(fullFrame / cropped).toFixed(1)}x faster`);
@@ -0,0 +1,46 @@
+/**
+ * Copy ONNX Runtime Web runtime files (ort-wasm-* binaries and their loaders)
+ * into public/onnxruntime-wasm
+ * so the app can serve them itself (offline, proxies, kiosks).
+ * Writes a manifest.json recording the runtime version, file sizes and the
+ * files the app's runtime build actually loads (`loaded`): the inference worker
+ * checks those before loading the runtime, and the service worker precaches only them.
+ */
+
+import { copyFileSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+
+const require = createRequire(import.meta.url);
+// package.json is not in the package's "exports", so locate dist/ through a public entry
+const sourceDir = path.dirname(require.resolve("onnxruntime-web/all"));
+const { version } = JSON.parse(readFileSync(path.join(sourceDir, "..", "package.json"), "utf8"));
+
+const targetDir = path.join(process.cwd(), "public", "onnxruntime-wasm");
+
+mkdirSync(targetDir, { recursive: true });
+
+const files = {};
+for (const name of readdirSync(sourceDir)) {
+  // Only what ort.env.wasm.wasmPaths serves; the ort.*.mjs bundles are imported by the app
+  if (!name.startsWith("ort-wasm-") || !/\.(wasm|mjs)$/.test(name)) continue;
+
+  copyFileSync(path.join(sourceDir, name), path.join(targetDir, name));
+  files[name] = statSync(path.join(targetDir, name)).size;
+}
+
+// The worker imports onnxruntime-web/all, whose bundle names the one wasm variant it loads
+const bundle = readFileSync(path.join(sourceDir, "ort.all.bundle.min.mjs"), "utf8");
+const loaded = [...new Set(bundle.match(/ort-wasm-[\w.-]+?\.(?:wasm|mjs)/g))].filter((name) => name in files).sort();
+if (!loaded.some((name) => name.endsWith(".wasm"))) {
+  throw new Error(`[ort-assets] No wasm binary referenced by ort.all.bundle.min.mjs in ${sourceDir}`);
+}
+
+writeFileSync(
+  path.join(targetDir, "manifest.json"),
+  `${JSON.stringify({ version, files, loaded }, null, 2)}\n`
+);
+
+console.log(
+  `[ort-assets] Copied ${Object.keys(files).length} files for onnxruntime-web ${version} (loaded: ${loaded.join(", ")})`
+);
@@ -0,0 +1,344 @@
+/**
+ * Import per-100g nutrient values from the ANSES Ciqual food composition table
+ * into src/lib/inference/ciqualFoods.json, which the food database overlays on
+ * its hand-typed entries together with their provenance.
+ *
+ * Each model class is mapped to one or more Ciqual foods in scripts/ciqual-mapping.json,
+ * by `code` (alim_code) or by exact `name` (alim_nom_fr), with an optional `weight`
+ * when several foods are averaged. Unresolved names are reported with the closest
+ * Ciqual foods and their codes, and nothing is written. After a successful import,
+ * entries matched by name are rewritten as `code` entries so later releases
+ * cannot silently match a renamed food.
+ *
+ * Usage:
+ *   pnpm ciqual:import --table <export.csv | folder of XML files> --version "Ciqual 2020" --date 2020-07-07
+ * Options: --mapping <file> (default scripts/ciqual-mapping.json), --out <file>
+ *
+ * Accepted exports: the CSV table (any of ; , or tab separators, decimal commas)
+ * or the XML release (alim_*.xml, const_*.xml and compo_*.xml in one folder).
+ */
+
+import { readFileSync, readdirSync, statSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+const { values: args } = parseArgs({
+  options: {
+    table: { type: "string" },
+    version: { type: "string" },
+    date: { type: "string" },
+    mapping: { type: "string", default: path.join("scripts", "ciqual-mapping.json") },
+    out: { type: "string", default: path.join("src", "lib", "inference", "ciqualFoods.json") },
+  },
+});
+
+if (!args.table || !args.version || !args.date) {
+  console.error(
+    'Usage: pnpm ciqual:import --table <export.csv | xml folder> --version "Ciqual 2020" --date 2020-07-07'
+  );
+  process.exit(1);
+}
+if (!/^\d{4}-\d{2}-\d{2}$/.test(args.date)) {
+  console.error(`--date must be an ISO date (YYYY-MM-DD), got "${args.date}"`);
+  process.exit(1);
+}
+
+// Ciqual constituent names (const_nom_fr / CSV headers), normalized, matched on their start.
+// Energy uses the EU regulation 1169/2011 factors, as on food labels
+const CONSTITUENTS = {
+  calories: /^energie, reglement ue n° 1169\/2011 \(kcal\/100 ?g\)/,
+  protein: /^proteines, n x facteur de jones \(g\/100 ?g\)/,
+  carbs: /^glucides \(g\/100 ?g\)/,
+  fat: /^lipides \(g\/100 ?g\)/,
+  fiber: /^fibres alimentaires \(g\/100 ?g\)/,
+  sugars: /^sucres \(g\/100 ?g\)/,
+  saturatedFat: /^ag satures \(g\/100 ?g\)/,
+  salt: /^sel chlorure de sodium \(g\/100 ?g\)/,
+  iron: /^fer \(mg\/100 ?g\)/,
+  calcium: /^calcium \(mg\/100 ?g\)/,
+  vitaminC: /^vitamine c \(mg\/100 ?g\)/,
+};
+// Required by FoodInfo; the others may stay unknown (null)
+const CORE_NUTRIENTS = ["calories", "protein", "carbs", "fat", "fiber"];
+
+/** Ciqual exports are UTF-8 or Windows-1252 depending on the release */
+function readText(file) {
+  const buffer = readFileSync(file);
+  const utf8 = buffer.toString("utf8");
+  return utf8.includes("\uFFFD") ? buffer.toString("latin1") : utf8;
+}
+
+function normalizeName(name) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/œ/g, "oe")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Ciqual value to number
+ * "-" or empty: unknown; "traces": 0; "< x": x / 2 (midpoint of the range below the limit)
+ */
+function parseValue(raw) {
+  const text = (raw ?? "").trim().toLowerCase();
+  if (text === "" || text === "-") return null;
+  if (text === "traces") return 0;
+  const below = text.startsWith("<");
+  const number = Number.parseFloat(text.replace("<", "").trim().replace(",", "."));
+  if (!Number.isFinite(number)) return null;
+  return below ? number / 2 : number;
+}
+
+// ============================================================================
+// Table readers: both return Map<alim_code, { code, name, values: { nutrient: number | null } }>
+// ============================================================================
+
+function parseCsv(text) {
+  const firstLine = text.slice(0, text.indexOf("\n"));
+  const separator = [";", "\t", ","].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows = [];
+  let row = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function readCsvTable(file) {
+  const [header, ...rows] = parseCsv(readText(file));
+  const columns = header.map((name) => normalizeName(name));
+  const codeColumn = columns.indexOf("alim_code");
+  const nameColumn = columns.indexOf("alim_nom_fr");
+  if (codeColumn < 0 || nameColumn < 0) {
+    throw new Error(`${file}: alim_code and alim_nom_fr columns are required`);
+  }
+
+  const nutrientColumns = {};
+  for (const [nutrient, pattern] of Object.entries(CONSTITUENTS)) {
+    nutrientColumns[nutrient] = columns.findIndex((column) => pattern.test(column));
+    if (nutrientColumns[nutrient] < 0) throw new Error(`${file}: no column for ${nutrient}`);
+  }
+
+  const foods = new Map();
+  for (const cells of rows) {
+    const code = cells[codeColumn]?.trim();
+    if (!code) continue;
+    const values = {};
+    for (const [nutrient, column] of Object.entries(nutrientColumns)) {
+      values[nutrient] = parseValue(cells[column]);
+    }
+    foods.set(code, { code, name: cells[nameColumn].trim(), values });
+  }
+  return foods;
+}
+
+/** Child elements of each <tag> record, as { childName: text } with lower-case names */
+function readXmlRecords(text, tag) {
+  const records = [];
+  const recordPattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi");
+  const fieldPattern = /<(\w+)>([\s\S]*?)<\/\1>/g;
+  for (const [, body] of text.matchAll(recordPattern)) {
+    const record = {};
+    for (const [, name, value] of body.matchAll(fieldPattern)) {
+      record[name.toLowerCase()] = value
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&")
+        .trim();
+    }
+    records.push(record);
+  }
+  return records;
+}
+
+function readXmlTable(folder) {
+  const files = readdirSync(folder);
+  // alim_grp_*.xml (food groups) shares the alim_ prefix
+  const find = (prefix) => {
+    const name = files.find((file) => {
+      const lower = file.toLowerCase();
+      return lower.startsWith(prefix) && !lower.startsWith("alim_grp") && lower.endsWith(".xml");
+    });
+    if (!name) throw new Error(`${folder}: no ${prefix}*.xml file`);
+    return path.join(folder, name);
+  };
+
+  const constituents = new Map();
+  for (const record of readXmlRecords(readText(find("const_")), "CONST")) {
+    const name = normalizeName(record.const_nom_fr ?? "");
+    const nutrient = Object.keys(CONSTITUENTS).find((key) => CONSTITUENTS[key].test(name));
+    if (nutrient) constituents.set(record.const_code, nutrient);
+  }
+  for (const nutrient of Object.keys(CONSTITUENTS)) {
+    if (![...constituents.values()].includes(nutrient)) {
+      throw new Error(`${folder}: no constituent for ${nutrient}`);
+    }
+  }
+
+  const foods = new Map();
+  for (const record of readXmlRecords(readText(find("alim_")), "ALIM")) {
+    const values = Object.fromEntries(Object.keys(CONSTITUENTS).map((key) => [key, null]));
+    foods.set(record.alim_code, { code: record.alim_code, name: record.alim_nom_fr, values });
+  }
+  for (const record of readXmlRecords(readText(find("compo_")), "COMPO")) {
+    const nutrient = constituents.get(record.const_code);
+    const food = foods.get(record.alim_code);
+    if (nutrient && food) food.values[nutrient] = parseValue(record.teneur);
+  }
+  return foods;
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/** Closest Ciqual foods to a name, by shared words */
+function suggest(foods, name) {
+  const words = new Set(normalizeName(name).split(/[^a-z0-9]+/).filter(Boolean));
+  return [...foods.values()]
+    .map((food) => ({
+      food,
+      score: normalizeName(food.name)
+        .split(/[^a-z0-9]+/)
+        .filter((word) => words.has(word)).length,
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5)
+    .map(({ food }) => `${food.code} ${food.name}`);
+}
+
+/**
+ * Weighted mean of the mapped foods, per nutrient
+ * Foods without a value for a nutrient are left out of its mean; a nutrient no
+ * mapped food has stays null
+ */
+function averageValues(entries) {
+  const per100g = {};
+  for (const nutrient of Object.keys(CONSTITUENTS)) {
+    const known = entries.filter(({ food }) => food.values[nutrient] !== null);
+    const weight = known.reduce((sum, entry) => sum + entry.weight, 0);
+    per100g[nutrient] =
+      known.length === 0
+        ? null
+        : Number(
+            (known.reduce((sum, { food, weight: w }) => sum + food.values[nutrient] * w, 0) / weight).toFixed(3)
+          );
+  }
+  return per100g;
+}
+
+/** JSON on one line with spaces inside braces, as in scripts/ciqual-mapping.json */
+function formatInline(value) {
+  if (Array.isArray(value)) return `[${value.map(formatInline).join(", ")}]`;
+  if (value !== null && typeof value === "object") {
+    const fields = Object.entries(value).map(([key, field]) => `${JSON.stringify(key)}: ${formatInline(field)}`);
+    return `{ ${fields.join(", ")} }`;
+  }
+  return JSON.stringify(value);
+}
+
+const tablePath = args.table;
+const foods = statSync(tablePath).isDirectory() ? readXmlTable(tablePath) : readCsvTable(tablePath);
+const byName = new Map([...foods.values()].map((food) => [normalizeName(food.name), food]));
+const mapping = JSON.parse(readFileSync(args.mapping, "utf8"));
+
+const errors = [];
+const output = {};
+let pinnedByName = 0;
+for (const [classId, { label, foods: mapped }] of Object.entries(mapping)) {
+  const entries = [];
+  for (const [index, { code, name, weight = 1 }] of mapped.entries()) {
+    const food = code !== undefined ? foods.get(String(code)) : byName.get(normalizeName(name ?? ""));
+    if (!food) {
+      const candidates = suggest(foods, name ?? "");
+      errors.push(
+        `${classId} (${label}): no Ciqual food ${code !== undefined ? `with code ${code}` : `named "${name}"`}` +
+          (candidates.length > 0 ? `\n    closest: ${candidates.join("\n             ")}` : "")
+      );
+      continue;
+    }
+    entries.push({ food, weight });
+    if (code === undefined) {
+      // Keep the name next to the code so the mapping stays readable
+      mapped[index] = { code: food.code, name: food.name, ...(weight !== 1 && { weight }) };
+      pinnedByName++;
+    }
+  }
+  if (entries.length === 0) continue;
+
+  const per100g = averageValues(entries);
+  const missingCore = CORE_NUTRIENTS.filter((nutrient) => per100g[nutrient] === null);
+  if (missingCore.length > 0) {
+    errors.push(`${classId} (${label}): no value for ${missingCore.join(", ")}; map another food`);
+    continue;
+  }
+
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  output[classId] = {
+    per100g,
+    foods: entries.map(({ food, weight }) => ({
+      code: food.code,
+      name: food.name,
+      share: Number((weight / totalWeight).toFixed(3)),
+    })),
+  };
+}
+
+if (errors.length > 0) {
+  console.error(`Ciqual import failed, ${args.out} was not written:\n  ${errors.join("\n  ")}`);
+  process.exit(1);
+}
+
+const result = {
+  version: args.version,
+  date: args.date,
+  importedAt: new Date().toISOString().slice(0, 10),
+  foods: output,
+};
+writeFileSync(args.out, `${JSON.stringify(result, null, 2)}\n`);
+console.log(`Imported ${Object.keys(output).length} classes from ${foods.size} Ciqual foods into ${args.out}`);
+
+if (pinnedByName > 0) {
+  // One class per line, like the hand-written file
+  const lines = Object.entries(mapping).map(
+    ([classId, entry]) => `  ${JSON.stringify(classId)}: ${formatInline(entry)}`
+  );
+  writeFileSync(args.mapping, `{\n${lines.join(",\n")}\n}\n`);
+  console.log(`Replaced ${pinnedByName} food names with their alim_code in ${args.mapping}`);
+}
@@ -0,0 +1,128 @@
+import { execFileSync } from 'node:child_process';
+import { copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+// Four made-up foods with Ciqual's column names, value notations and encodings:
+// table.csv is Windows-1252 with ";" separators, xml/ is a UTF-8 XML release
+const FIXTURES = path.join(__dirname, 'fixtures', 'ciqual');
+const SCRIPT = path.join(__dirname, 'import-ciqual.mjs');
+
+let workDir: string;
+let mappingPath: string;
+let outPath: string;
+
+/**
+ * Run the importer on a fixture table
+ * @returns Exit status and console output
+ */
+function runImport(table: string): { status: number; output: string } {
+  try {
+    const args = ['--table', path.join(FIXTURES, table), '--version', 'Ciqual test', '--date', '2020-07-07'];
+    const output = execFileSync(process.execPath, [SCRIPT, ...args, '--mapping', mappingPath, '--out', outPath], {
+      encoding: 'utf8',
+      stdio: 'pipe',
+    });
+    return { status: 0, output };
+  } catch (error) {
+    const { status, stderr } = error as { status: number; stderr: string };
+    return { status, output: stderr };
+  }
+}
+
+function readOutput() {
+  return JSON.parse(readFileSync(outPath, 'utf8'));
+}
+
+beforeEach(() => {
+  workDir = mkdtempSync(path.join(tmpdir(), 'ciqual-'));
+  mappingPath = path.join(workDir, 'mapping.json');
+  outPath = path.join(workDir, 'ciqualFoods.json');
+  copyFileSync(path.join(FIXTURES, 'mapping.json'), mappingPath);
+});
+
+afterEach(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('import-ciqual', () => {
+  it('reads a CSV export with decimal commas, traces and "< x" values', () => {
+    expect(runImport('table.csv').status).toBe(0);
+    const { version, date, foods } = readOutput();
+
+    expect(version).toBe('Ciqual test');
+    expect(date).toBe('2020-07-07');
+    expect(foods['0']).toEqual({
+      per100g: {
+        calories: 130, // kcal, not the kJ column next to it
+        protein: 2.7,
+        carbs: 28.2,
+        fat: 0.3,
+        fiber: 0.4,
+        sugars: 0, // "traces"
+        saturatedFat: 0.05, // "< 0,1": half the limit
+        salt: 0.01,
+        iron: 0.2,
+        calcium: 10,
+        vitaminC: null, // "-"
+      },
+      foods: [{ code: '1001', name: 'Riz blanc, cuit', share: 1 }],
+    });
+  });
+
+  it('averages several foods by weight, skipping the ones without a value', () => {
+    runImport('table.csv');
+    const chicken = readOutput().foods['3'];
+
+    expect(chicken.per100g).toMatchObject({
+      calories: 165, // (150 * 3 + 210) / 4
+      protein: 29,
+      fat: 5.25,
+      saturatedFat: 1.625,
+      vitaminC: 1.6, // only the roast chicken has a value
+    });
+    expect(chicken.foods).toEqual([
+      { code: '1002', name: 'Poulet, filet, cuit', share: 0.75 },
+      { code: '1003', name: 'Poulet, rôti', share: 0.25 },
+    ]);
+  });
+
+  it('reads the XML release like the CSV export', () => {
+    runImport('table.csv');
+    const fromCsv = readOutput().foods;
+    copyFileSync(path.join(FIXTURES, 'mapping.json'), mappingPath);
+
+    expect(runImport('xml').status).toBe(0);
+    expect(readOutput().foods).toEqual(fromCsv);
+  });
+
+  it('replaces mapped names with their alim_code', () => {
+    const { output } = runImport('table.csv');
+
+    expect(output).toContain('Replaced 2 food names');
+    expect(JSON.parse(readFileSync(mappingPath, 'utf8'))).toEqual({
+      '0': { label: 'rice', foods: [{ code: 1001 }] },
+      '3': {
+        label: 'chicken',
+        foods: [
+          { code: '1002', name: 'Poulet, filet, cuit', weight: 3 },
+          { code: '1003', name: 'Poulet, rôti' },
+        ],
+      },
+    });
+  });
+
+  it('writes nothing and suggests codes when a name is not in the table', () => {
+    const mapping = readFileSync(mappingPath, 'utf8').replace('Poulet, rôti', 'Poulet, grillé');
+    writeFileSync(mappingPath, mapping);
+
+    const { status, output } = runImport('table.csv');
+
+    expect(status).toBe(1);
+    expect(output).toContain('3 (chicken): no Ciqual food named "Poulet, grillé"');
+    expect(output).toContain('1002 Poulet, filet, cuit');
+    expect(existsSync(outPath)).toBe(false);
+    expect(readFileSync(mappingPath, 'utf8')).toBe(mapping);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Write public/models/manifest.json with the SHA-256 and size of each ONNX model,
+ * which versions the model cache: the service worker precaches the listed model
+ * and the inference worker downloads it again when its hash changes.
+ * Runs before `pnpm build`; run it by hand after swapping a model in development.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+const modelsDir = path.join(process.cwd(), "public", "models");
+
+if (!existsSync(modelsDir)) {
+  console.warn(`[model-manifest] ${modelsDir} does not exist, no manifest written`);
+  process.exit(0);
+}
+
+const files = {};
+for (const name of readdirSync(modelsDir)) {
+  if (!name.endsWith(".onnx")) continue;
+  const bytes = readFileSync(path.join(modelsDir, name));
+  files[name] = { sha256: createHash("sha256").update(bytes).digest("hex"), size: bytes.length };
+}
+
+writeFileSync(path.join(modelsDir, "manifest.json"), `${JSON.stringify({ files }, null, 2)}\n`);
+
+console.log(`[model-manifest] Hashed ${Object.keys(files).length} model(s) in ${modelsDir}`);
@@ -0,0 +1,68 @@
+/**
+ * Local stand-in for an Open Food Facts–compatible product API.
+ * Serves GET /api/v2/product/:code from the bundled dataset (src/lib/barcode/products.json)
+ * in the Open Food Facts v2 response shape, so the HTTP provider can be exercised offline:
+ *   pnpm stub:products
+ *   NEXT_PUBLIC_PRODUCT_API_URL=http://localhost:4010 pnpm dev
+ * PORT overrides the port (0 picks a free one, as the tests do); PRODUCTS points to
+ * another dataset with the same format.
+ */
+
+import { createServer } from "node:http";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+const port = Number(process.env.PORT ?? 4010);
+const datasetPath = process.env.PRODUCTS ?? path.join(process.cwd(), "src", "lib", "barcode", "products.json");
+const products = new Map(
+  JSON.parse(readFileSync(datasetPath, "utf8")).map((product) => [product.code, product])
+);
+
+function toGrams(milligrams) {
+  return milligrams === undefined ? undefined : milligrams / 1000;
+}
+
+function toOpenFoodFacts(product) {
+  return {
+    code: product.code,
+    product_name: product.name,
+    brands: product.brand ?? "",
+    product_quantity: product.quantityGrams,
+    serving_quantity: product.servingGrams,
+    nutriments: {
+      "energy-kcal_100g": product.per100g.calories,
+      proteins_100g: product.per100g.protein,
+      carbohydrates_100g: product.per100g.carbs,
+      fat_100g: product.per100g.fat,
+      fiber_100g: product.per100g.fiber,
+      // Open Food Facts lists minerals and vitamins in grams
+      sugars_100g: product.per100g.sugars,
+      "saturated-fat_100g": product.per100g.saturatedFat,
+      salt_100g: product.per100g.salt,
+      iron_100g: toGrams(product.per100g.iron),
+      calcium_100g: toGrams(product.per100g.calcium),
+      "vitamin-c_100g": toGrams(product.per100g.vitaminC),
+    },
+  };
+}
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url ?? "/", `http://localhost:${port}`);
+  const match = url.pathname.match(/^\/api\/v2\/product\/(\d+)$/);
+  const product = match ? products.get(match[1]) : undefined;
+
+  // The app runs on another origin
+  response.setHeader("Access-Control-Allow-Origin", "*");
+  response.setHeader("Content-Type", "application/json");
+
+  if (request.method !== "GET" || !product) {
+    response.statusCode = 404;
+    response.end(JSON.stringify({ code: match?.[1] ?? "", status: 0, status_verbose: "product not found" }));
+    return;
+  }
+  response.end(JSON.stringify({ code: product.code, status: 1, product: toOpenFoodFacts(product) }));
+});
+
+server.listen(port, () => {
+  console.log(`Product API stub: ${products.size} products on http://localhost:${server.address().port}`);
+});
@@ -1,6 +1,8 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Inter, Space_Grotesk } from "next/font/google";
 import "./globals.css";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
+import { DEFAULT_LOCALE } from "@/lib/i18n/locale";
 
 const inter = Inter({
   variable: "--font-inter",
@@ -25,11 +27,21 @@ export const metadata: Metadata = {
     description: "Scannez vos aliments et découvrez leurs informations nutritionnelles instantanément",
     type: "website",
     locale: "fr_FR",
+    alternateLocale: ["en_GB"],
   },
   robots: {
     index: true,
     follow: true,
   },
+  appleWebApp: {
+    capable: true,
+    title: "NutriScan",
+    statusBarStyle: "default",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#2baa6a",
 };
 
 export default function RootLayout({
@@ -38,11 +50,13 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="fr">
+    // useLocale updates lang once the saved or browser locale is known
+    <html lang={DEFAULT_LOCALE}>
       <body
         className={`${inter.variable} ${spaceGrotesk.variable} antialiased`}
       >
         {children}
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next";
+import { APP_NAME } from "@/lib/constants";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: `${APP_NAME} - Scanner nutritionnel`,
+    short_name: APP_NAME,
+    description: "Scannez vos aliments et découvrez leurs informations nutritionnelles instantanément",
+    start_url: "/",
+    display: "standalone",
+    orientation: "portrait",
+    background_color: "#f5f9f7",
+    theme_color: "#2baa6a",
+    lang: "fr",
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "maskable" },
+      { src: "/favicon.ico", sizes: "48x48", type: "image/x-icon" },
+    ],
+  };
+}
@@ -6,112 +6,316 @@ import CameraScanner from "@/components/CameraScanner";
 import ImageUploader from "@/components/ImageUploader";
 import NutritionResult from "@/components/NutritionResult";
 import ScanHistory from "@/components/ScanHistory";
+import ModelDownloadProgress from "@/components/ModelDownloadProgress";
+import DailyJournal from "@/components/DailyJournal";
+import SegmentationOverlay from "@/components/SegmentationOverlay";
+import InferenceErrorState from "@/components/InferenceErrorState";
+import BatchImportProgress from "@/components/BatchImportProgress";
+import BarcodeScanner from "@/components/BarcodeScanner";
+import CalibrationPanel, {
+  buildCalibrationRequest,
+  DEFAULT_CALIBRATION_SETTINGS,
+  type CalibrationSettings,
+} from "@/components/CalibrationPanel";
 import { getRandomNutrition, type NutritionData } from "@/lib/mockNutrition";
-import { MAX_HISTORY_ITEMS } from "@/lib/constants";
 import { useInference } from "@/hooks/useInference";
-import { Camera, Upload } from "lucide-react";
+import { useScanHistory } from "@/hooks/useScanHistory";
+import { useDailyJournal } from "@/hooks/useDailyJournal";
+import { useBatchImport } from "@/hooks/useBatchImport";
+import { useLocale } from "@/hooks/useLocale";
+import { createPackagedItem, mergeDetections } from "@/lib/nutritionItems";
+import type { PackagedProduct } from "@/lib/barcode/products";
+import {
+  computeTotals,
+  createThumbnail,
+  toStoredDetections,
+  type ScanRecord,
+} from "@/lib/scanStore";
+import type {
+  CalibrationLine,
+  Detection,
+  ImageSource,
+  InferenceMessageCode,
+  ScaleCalibration,
+} from "@/lib/inference/types";
+import { imageSourceToDataUrl, isTransferableImage } from "@/lib/imageSource";
+import { toInferenceError, type InferenceError } from "@/lib/inference/errors";
+import { DEMO_MODE } from "@/lib/constants";
+import { Camera, ScanBarcode, Upload } from "lucide-react";
 
 export default function Home() {
   const [isScanning, setIsScanning] = useState(false);
   const [currentResults, setCurrentResults] = useState<NutritionData[]>([]);
-  const [history, setHistory] = useState<NutritionData[]>([]);
-  const [activeTab, setActiveTab] = useState<'camera' | 'upload'>('camera');
+  const [currentScanId, setCurrentScanId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'camera' | 'upload' | 'barcode'>('camera');
+  const [calibrationSettings, setCalibrationSettings] = useState<CalibrationSettings>(
+    DEFAULT_CALIBRATION_SETTINGS
+  );
+  const [calibrationLine, setCalibrationLine] = useState<CalibrationLine | null>(null);
+  const [currentCalibration, setCurrentCalibration] = useState<ScaleCalibration | undefined>();
+  // Last scanned image with its detections, for the segmentation overlay
+  const [currentImage, setCurrentImage] = useState<{ src: string; mirrored: boolean } | null>(null);
+  const [currentDetections, setCurrentDetections] = useState<Detection[]>([]);
+  const [currentMessageCode, setCurrentMessageCode] = useState<InferenceMessageCode | undefined>();
+  const [selectedLabel, setSelectedLabel] = useState<string | null>(null);
+  const [scanError, setScanError] = useState<InferenceError | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  // Sample data shown on explicit request (demo mode only), never saved
+  const [isDemoResult, setIsDemoResult] = useState(false);
+
+  const { t } = useLocale();
 
   // Initialize inference worker
-  const { isReady, runInference } = useInference();
+  const {
+    isReady,
+    canScan,
+    health,
+    modelProgress,
+    error: engineError,
+    runInference,
+    inferFrame,
+    reinitialize,
+  } = useInference();
+
+  // Persistent scan history (IndexedDB)
+  const {
+    scans,
+    revision: historyRevision,
+    hasMore,
+    isLoading: isHistoryLoading,
+    error: historyError,
+    loadMore,
+    addScan,
+    updateScanItems,
+    removeScan,
+  } = useScanHistory();
+
+  // Today's totals against the user's targets
+  const journal = useDailyJournal(historyRevision);
+
+  // Multi-photo and folder import, on its own pool of workers
+  const batch = useBatchImport({ addScan });
+  const startBatch = batch.start;
+
+  const handleBatchUpload = useCallback((files: File[]) => {
+    // A drawn line belongs to one photo; references still apply to every photo
+    startBatch(files, buildCalibrationRequest(calibrationSettings, null));
+  }, [startBatch, calibrationSettings]);
+
+  /**
+   * Persist a scan as one meal and make it the current result
+   */
+  const recordScan = useCallback(
+    async (imageData: string | Blob | null, items: NutritionData[], partial: Partial<ScanRecord>) => {
+      const scan: ScanRecord = {
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        thumbnail: imageData ? await createThumbnail(imageData) : null,
+        detections: [],
+        items,
+        totals: computeTotals(items),
+        ...partial,
+      };
+      setCurrentScanId(scan.id);
+      await addScan(scan);
+    },
+    [addScan]
+  );
 
-  const handleScan = useCallback(async (imageData: string) => {
-    // Only proceed if worker is ready
-    if (!isReady) {
+  const handleScan = useCallback(async (image: ImageSource, previewSrc?: string) => {
+    // Only proceed if worker is ready, or restarting (the scan then waits for it)
+    if (!canScan) {
       console.warn('[App] Inference engine not ready yet');
+      if (isTransferableImage(image)) image.close();
       return;
     }
 
+    // Displayed and saved copy; encoded before the frame is transferred to the worker
+    const imageData =
+      previewSrc ?? (isTransferableImage(image) ? imageSourceToDataUrl(image) : image);
+
     setIsScanning(true);
+    setScanError(null);
+    setIsDemoResult(false);
 
     try {
       // Run real AI inference
-      const inferenceResult = await runInference(imageData);
-
-      // Merge detections of the same class
-      const merged = new Map<string, NutritionData>();
-      for (const d of inferenceResult.detections) {
-        const existing = merged.get(d.label);
-        if (existing) {
-          existing.calories += d.nutrition.calories;
-          existing.protein += d.nutrition.protein;
-          existing.carbs += d.nutrition.carbs;
-          existing.fat += d.nutrition.fat;
-          existing.fiber += d.nutrition.fiber;
-          existing.serving = `${Math.round(
-            parseFloat(existing.serving) + d.nutrition.weightGrams
-          )}g`;
-        } else {
-          merged.set(d.label, {
-            name: d.label,
-            calories: d.nutrition.calories,
-            protein: d.nutrition.protein,
-            carbs: d.nutrition.carbs,
-            fat: d.nutrition.fat,
-            fiber: d.nutrition.fiber,
-            serving: `${Math.round(d.nutrition.weightGrams)}g`,
-            icon: d.icon,
-          });
-        }
-      }
+      const inferenceResult = await runInference(
+        image,
+        buildCalibrationRequest(calibrationSettings, calibrationLine)
+      );
 
-      const results: NutritionData[] = Array.from(merged.values()).map((r) => ({
-        ...r,
-        calories: Math.round(r.calories),
-        protein: Math.round(r.protein),
-        carbs: Math.round(r.carbs),
-        fat: Math.round(r.fat),
-        fiber: Math.round(r.fiber),
-      }));
-
-      if (results.length === 0) {
-        results.push({
-          name: 'Non détecté',
-          calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0,
-          serving: '0g', icon: '❓',
-        });
-      }
+      // One row per detected food
+      const results = mergeDetections(inferenceResult.detections);
 
       setCurrentResults(results);
-      setHistory((prev) => [...results, ...prev].slice(0, MAX_HISTORY_ITEMS));
+      setCurrentCalibration(inferenceResult.calibration);
+      setCurrentImage(imageData ? { src: imageData, mirrored: activeTab === 'camera' } : null);
+      setCurrentDetections(inferenceResult.detections);
+      setCurrentMessageCode(inferenceResult.messageCode);
+      setSelectedLabel(null);
+
+      // Empty scans are not meals
+      if (imageData && inferenceResult.detections.length > 0) {
+        await recordScan(imageData, results, {
+          detections: toStoredDetections(inferenceResult.detections),
+          calibration: inferenceResult.calibration,
+        });
+      } else {
+        setCurrentScanId(null);
+      }
     } catch (error) {
+      const inferenceError = toInferenceError(error, 'INFERENCE_FAILED');
+      // A cancelled scan leaves the previous result in place
+      if (inferenceError.code === 'CANCELLED') return;
       console.error('[App] Inference failed:', error);
 
-      // Fallback to mock data on error
-      const fallbackResult = getRandomNutrition();
-      setCurrentResults([fallbackResult]);
-      setHistory((prev) => [fallbackResult, ...prev].slice(0, MAX_HISTORY_ITEMS));
+      // Nothing is logged on failure: the user retries or rescans
+      setScanError(inferenceError);
+      setCurrentResults([]);
+      setCurrentScanId(null);
+      setCurrentCalibration(undefined);
+      setCurrentImage(null);
+      setCurrentDetections([]);
+      setCurrentMessageCode(undefined);
     } finally {
       setIsScanning(false);
     }
-  }, [isReady, runInference]);
+  }, [canScan, runInference, calibrationSettings, calibrationLine, recordScan, activeTab]);
+
+  /**
+   * A packaged product read from its barcode: one row for one serving, saved as a meal
+   */
+  const handleProduct = useCallback(async (product: PackagedProduct, image: string | Blob | null) => {
+    const item = createPackagedItem(product);
+    setScanError(null);
+    setIsDemoResult(false);
+    setCurrentResults([item]);
+    setCurrentCalibration(undefined);
+    setCurrentImage(null);
+    setCurrentDetections([]);
+    setCurrentMessageCode(undefined);
+    setSelectedLabel(null);
+    await recordScan(image, [item], { barcode: product.code });
+  }, [recordScan]);
+
+  /**
+   * Apply a correction to the current result and keep the saved meal in sync
+   */
+  const commitResults = useCallback((next: NutritionData[]) => {
+    setCurrentResults(next);
+
+    if (currentScanId) {
+      if (next.length === 0) {
+        removeScan(currentScanId);
+        setCurrentScanId(null);
+      } else {
+        updateScanItems(currentScanId, next);
+      }
+    } else if (next.length > 0 && currentImage) {
+      // Foods added to an empty scan make it a meal
+      recordScan(currentImage.src, next, { calibration: currentCalibration });
+    }
+  }, [currentScanId, currentImage, currentCalibration, removeScan, updateScanItems, recordScan]);
 
   const handleRemoveItem = useCallback((index: number) => {
-    setCurrentResults((prev) => {
-      const next = prev.filter((_, i) => i !== index);
-      return next;
-    });
-  }, []);
+    const removed = currentResults[index];
+    setCurrentDetections((prev) => prev.filter((d) => d.label !== removed?.name));
+    commitResults(currentResults.filter((_, i) => i !== index));
+  }, [currentResults, commitResults]);
+
+  const handleUpdateItem = useCallback((index: number, item: NutritionData) => {
+    const previous = currentResults[index];
+
+    // Relabelled foods keep their segmented regions on the overlay
+    if (previous && item.classId !== undefined && previous.name !== item.name) {
+      const classId = item.classId;
+      setCurrentDetections((prev) =>
+        prev.map((d) =>
+          d.label === previous.name ? { ...d, classId, label: item.name, icon: item.icon } : d
+        )
+      );
+      setSelectedLabel(null);
+    }
+    commitResults(currentResults.map((existing, i) => (i === index ? item : existing)));
+  }, [currentResults, commitResults]);
+
+  const handleAddItem = useCallback((item: NutritionData) => {
+    commitResults([...currentResults, item]);
+  }, [currentResults, commitResults]);
 
   const handleDismiss = useCallback(() => {
     setCurrentResults([]);
+    setCurrentScanId(null);
+    setCurrentImage(null);
+    setCurrentDetections([]);
+    setCurrentMessageCode(undefined);
+    setSelectedLabel(null);
+    setIsDemoResult(false);
   }, []);
 
+  // Scan failures first; engine errors only matter while the model is not ready
+  const displayedError = scanError ?? (isReady ? null : engineError);
+
+  const handleRetry = useCallback(async () => {
+    // A bad image needs a new one, not a new engine
+    if (displayedError?.code === 'DECODE_FAILED') {
+      setScanError(null);
+      return;
+    }
+    // A crashed worker is already being restarted by the supervisor
+    if (displayedError?.code === 'WORKER_CRASHED' && health.status !== 'failed') {
+      setScanError(null);
+      return;
+    }
+
+    setIsRetrying(true);
+    try {
+      await reinitialize();
+      setScanError(null);
+    } catch {
+      // Reinitialization errors surface through engineError
+      setScanError(null);
+    } finally {
+      setIsRetrying(false);
+    }
+  }, [displayedError, health.status, reinitialize]);
+
+  const handleShowDemo = useCallback(() => {
+    handleDismiss();
+    setScanError(null);
+    setCurrentResults([getRandomNutrition()]);
+    setIsDemoResult(true);
+  }, [handleDismiss]);
+
   return (
     <div className="min-h-screen bg-[hsl(var(--color-background))] pb-10">
-      <AppHeader />
+      <AppHeader health={health} />
 
       <main className="space-y-6 pt-2">
+        {/* First-launch model download */}
+        {!isReady && modelProgress && <ModelDownloadProgress progress={modelProgress} />}
+
+        {displayedError && (
+          <InferenceErrorState
+            error={displayedError}
+            isRetrying={isRetrying}
+            onRetry={handleRetry}
+            onShowDemo={DEMO_MODE ? handleShowDemo : undefined}
+          />
+        )}
+
         {/* Tab Switcher */}
         <div className="mx-auto w-full max-w-md px-5">
           <div className="flex gap-2 rounded-2xl bg-[hsl(var(--color-muted))] p-1">
             <button
-              onClick={() => setActiveTab('camera')}
+              onClick={() => {
+                setActiveTab('camera');
+                // The drawn line needs a still image
+                if (calibrationSettings.kind === 'line') {
+                  setCalibrationSettings(DEFAULT_CALIBRATION_SETTINGS);
+                }
+              }}
               className={`flex flex-1 items-center justify-center gap-2 rounded-xl py-3 font-heading text-sm font-semibold transition-all ${
                 activeTab === 'camera'
                   ? 'bg-[hsl(var(--color-primary))] text-white shadow-md'
@@ -119,7 +323,7 @@ export default function Home() {
               }`}
             >
               <Camera className="h-4 w-4" />
-              Caméra
+              {t.tabs.camera}
             </button>
             <button
               onClick={() => setActiveTab('upload')}
@@ -130,23 +334,110 @@ export default function Home() {
               }`}
             >
               <Upload className="h-4 w-4" />
-              Importer
+              {t.tabs.upload}
+            </button>
+            <button
+              onClick={() => {
+                setActiveTab('barcode');
+                if (calibrationSettings.kind === 'line') {
+                  setCalibrationSettings(DEFAULT_CALIBRATION_SETTINGS);
+                }
+              }}
+              className={`flex flex-1 items-center justify-center gap-2 rounded-xl py-3 font-heading text-sm font-semibold transition-all ${
+                activeTab === 'barcode'
+                  ? 'bg-[hsl(var(--color-primary))] text-white shadow-md'
+                  : 'text-[hsl(var(--color-muted-foreground))] hover:text-[hsl(var(--color-foreground))]'
+              }`}
+            >
+              <ScanBarcode className="h-4 w-4" />
+              {t.tabs.barcode}
             </button>
           </div>
         </div>
 
         {/* Scanner/Uploader */}
-        {activeTab === 'camera' ? (
-          <CameraScanner onScan={handleScan} isScanning={isScanning} />
+        {activeTab === 'barcode' ? (
+          <BarcodeScanner onProduct={handleProduct} />
+        ) : activeTab === 'camera' ? (
+          <CameraScanner
+            onScan={handleScan}
+            isScanning={isScanning}
+            inferFrame={isReady ? inferFrame : undefined}
+          />
         ) : (
-          <ImageUploader onUpload={handleScan} isProcessing={isScanning} />
+          <ImageUploader
+            onUpload={handleScan}
+            onBatchUpload={handleBatchUpload}
+            isProcessing={isScanning || batch.isRunning}
+            drawLine={calibrationSettings.kind === 'line'}
+            calibrationLine={calibrationLine}
+            onCalibrationLineChange={setCalibrationLine}
+          />
         )}
 
-        {currentResults.length > 0 && (
-          <NutritionResult items={currentResults} onDismiss={handleDismiss} onRemoveItem={handleRemoveItem} />
+        {batch.items.length > 0 && (
+          <BatchImportProgress
+            items={batch.items}
+            isRunning={batch.isRunning}
+            workerCount={batch.workerCount}
+            error={batch.error}
+            onCancel={batch.cancel}
+            onDismiss={batch.clear}
+          />
         )}
 
-        <ScanHistory items={history} />
+        {/* Packages carry their own weight: no scale needed */}
+        {activeTab !== 'barcode' && (
+          <CalibrationPanel
+            value={calibrationSettings}
+            onChange={setCalibrationSettings}
+            allowLine={activeTab === 'upload'}
+          />
+        )}
+
+        {currentImage && currentDetections.length > 0 && (
+          <SegmentationOverlay
+            imageSrc={currentImage.src}
+            detections={currentDetections}
+            mirrored={currentImage.mirrored}
+            selectedLabel={selectedLabel}
+            onSelect={setSelectedLabel}
+          />
+        )}
+
+        {(currentResults.length > 0 || currentImage) && (
+          <NutritionResult
+            items={currentResults}
+            calibration={currentCalibration}
+            isDemo={isDemoResult}
+            messageCode={currentMessageCode}
+            selectedName={selectedLabel}
+            onSelectItem={setSelectedLabel}
+            onDismiss={handleDismiss}
+            onRemoveItem={handleRemoveItem}
+            onUpdateItem={handleUpdateItem}
+            onAddItem={handleAddItem}
+          />
+        )}
+
+        <DailyJournal
+          mealCount={journal.mealCount}
+          consumed={journal.consumed}
+          nutriScore={journal.nutriScore}
+          targets={journal.targets}
+          settings={journal.settings}
+          onSettingsChange={journal.updateSettings}
+        />
+
+        <ScanHistory
+          scans={scans}
+          hasMore={hasMore}
+          isLoading={isHistoryLoading}
+          error={historyError}
+          onLoadMore={loadMore}
+          onDelete={removeScan}
+          onUpdateItems={updateScanItems}
+        />
       </main>
     </div>
   );
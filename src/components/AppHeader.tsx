@@ -1,9 +1,25 @@
 "use client";
 
-import { ScanLine } from "lucide-react";
-import { APP_NAME, APP_DESCRIPTION } from "@/lib/constants";
+import { Languages, ScanLine } from "lucide-react";
+import { APP_NAME } from "@/lib/constants";
+import { useLocale } from "@/hooks/useLocale";
+import type { WorkerHealth, WorkerHealthStatus } from "@/lib/inference/types";
+
+interface AppHeaderProps {
+  /** Inference engine health, shown as a status badge */
+  health?: WorkerHealth;
+}
+
+const HEALTH_DOTS: Record<WorkerHealthStatus, string> = {
+  starting: "bg-amber-400 animate-pulse",
+  ready: "bg-emerald-500",
+  degraded: "bg-amber-500 animate-pulse",
+  failed: "bg-[hsl(var(--color-destructive))]",
+};
+
+const AppHeader = ({ health }: AppHeaderProps) => {
+  const { locale, setLocale, t } = useLocale();
 
-const AppHeader = () => {
   return (
     <header className="flex items-center justify-between px-5 py-4">
       <div className="flex items-center gap-2.5">
@@ -14,9 +30,35 @@ const AppHeader = () => {
           <h1 className="font-heading text-xl font-bold tracking-tight text-[hsl(var(--color-foreground))]">
             {APP_NAME}
           </h1>
-          <p className="text-xs text-[hsl(var(--color-muted-foreground))]">{APP_DESCRIPTION}</p>
+          <p className="text-xs text-[hsl(var(--color-muted-foreground))]">{t.app.description}</p>
         </div>
       </div>
+      <div className="flex items-center gap-2">
+        {health && (
+          <div
+            className="flex items-center gap-1.5 rounded-full bg-[hsl(var(--color-secondary))] px-2.5 py-1 text-xs font-medium text-[hsl(var(--color-muted-foreground))]"
+            role="status"
+            title={health.lastError ?? undefined}
+          >
+            <span className={`h-2 w-2 rounded-full ${HEALTH_DOTS[health.status]}`} />
+            {t.health.status[health.status]}
+            {health.restartCount > 0 && (
+              <span className="text-[10px]" aria-label={t.health.restarts(health.restartCount)}>
+                ↻{health.restartCount}
+              </span>
+            )}
+          </div>
+        )}
+        <button
+          onClick={() => setLocale(locale === "fr" ? "en" : "fr")}
+          className="flex items-center gap-1 rounded-full px-2 py-1 text-xs font-semibold uppercase text-[hsl(var(--color-muted-foreground))] transition-colors hover:bg-[hsl(var(--color-muted))] hover:text-[hsl(var(--color-foreground))]"
+          aria-label={t.language.switchTo}
+          title={t.language.label}
+        >
+          <Languages className="h-3.5 w-3.5" />
+          {locale}
+        </button>
+      </div>
     </header>
   );
 };
@@ -0,0 +1,227 @@
+"use client";
+
+import { Barcode, Camera, CameraOff, ImageUp, Loader2, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useCamera } from "@/hooks/useCamera";
+import { useBarcodeScan } from "@/hooks/useBarcodeScan";
+import { useLocale } from "@/hooks/useLocale";
+import { detectBarcode } from "@/lib/barcode/detector";
+import { normalizeBarcode } from "@/lib/barcode/ean";
+import { lookupProduct, type PackagedProduct } from "@/lib/barcode/products";
+import { BARCODE_CONFIG } from "@/lib/constants";
+import type { Messages } from "@/lib/i18n/messages";
+import { useCallback, useRef, useState } from "react";
+
+type BarcodeErrorCode = keyof Messages["barcode"]["errors"];
+
+type LookupState =
+  | { status: "idle" }
+  | { status: "searching"; code: string }
+  | { status: "error"; error: BarcodeErrorCode; code?: string };
+
+interface BarcodeScannerProps {
+  /** Resolved product, with the image the code was read from (saved as the thumbnail) */
+  onProduct: (product: PackagedProduct, image: string | Blob | null) => void;
+}
+
+const BarcodeScanner = ({ onProduct }: BarcodeScannerProps) => {
+  const { videoRef, isActive, error, startCamera, stopCamera, captureImage, captureFrame } =
+    useCamera();
+  const { t } = useLocale();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [lookup, setLookup] = useState<LookupState>({ status: "idle" });
+  const [manualCode, setManualCode] = useState("");
+
+  const resolve = useCallback(
+    async (code: string, image: string | Blob | null) => {
+      setLookup({ status: "searching", code });
+      try {
+        const product = await lookupProduct(code);
+        if (!product) {
+          setLookup({ status: "error", error: "notFound", code });
+          return;
+        }
+        setLookup({ status: "idle" });
+        onProduct(product, image);
+      } catch {
+        setLookup({ status: "error", error: "lookupFailed", code });
+      }
+    },
+    [onProduct]
+  );
+
+  // A confirmed code ends the camera session, so one package is recorded per scan
+  const handleDetected = useCallback(
+    (code: string) => {
+      const frame = captureFrame(BARCODE_CONFIG.FRAME_MAX_SIDE);
+      stopCamera();
+      resolve(code, frame);
+    },
+    [captureFrame, stopCamera, resolve]
+  );
+
+  useBarcodeScan({
+    enabled: isActive && lookup.status !== "searching",
+    captureImage,
+    onDetected: handleDetected,
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset input so the same file can be read again
+    event.target.value = "";
+    if (!file) return;
+
+    let code: string | null = null;
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+      code = await detectBarcode(bitmap);
+      bitmap.close();
+    } catch (err) {
+      console.warn("[BarcodeScanner] Could not decode the image:", err);
+    }
+    if (code) {
+      resolve(code, file);
+    } else {
+      setLookup({ status: "error", error: "unreadable" });
+    }
+  };
+
+  const handleManualSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const code = normalizeBarcode(manualCode);
+    if (code) {
+      resolve(code, null);
+    } else {
+      setLookup({ status: "error", error: "invalidCode" });
+    }
+  };
+
+  const isSearching = lookup.status === "searching";
+
+  return (
+    <div className="relative mx-auto w-full max-w-md px-5">
+      {/* Camera viewport */}
+      <div className="relative overflow-hidden rounded-3xl border-2 border-[hsl(var(--color-border))] bg-[hsl(var(--color-muted))]" style={{ aspectRatio: "4/3" }}>
+        {isActive ? (
+          <>
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className="h-full w-full object-cover"
+              style={{ transform: "scaleX(-1)" }}
+            />
+            <div className="pointer-events-none absolute left-3 top-3 rounded-full bg-black/50 px-3 py-1 text-xs font-medium text-white">
+              {t.barcode.aiming}
+            </div>
+            {/* Barcode frame */}
+            <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+              <div className="relative h-28 w-4/5 rounded-xl border-[3px] border-[hsl(var(--color-primary))]">
+                <div className="absolute left-2 right-2 top-1/2 h-0.5 bg-[hsl(var(--color-primary))] shadow-[0_0_8px_hsl(var(--scanner-glow))]" />
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="flex h-full flex-col items-center justify-center gap-4 p-8 text-center">
+            <div className="flex h-20 w-20 items-center justify-center rounded-full bg-[hsl(var(--color-secondary))]">
+              <Barcode className="h-10 w-10 text-[hsl(var(--color-muted-foreground))]" />
+            </div>
+            <div>
+              <p className="font-heading text-lg font-semibold text-[hsl(var(--color-foreground))]">
+                {t.barcode.enableTitle}
+              </p>
+              <p className="mt-1 text-sm text-[hsl(var(--color-muted-foreground))]">
+                {t.barcode.enableHint}
+              </p>
+            </div>
+            {error && (
+              <p className="rounded-lg bg-[hsl(var(--color-destructive))]/10 px-3 py-2 text-sm text-[hsl(var(--color-destructive))]">
+                {t.camera.errors[error]}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="mt-5 flex items-center justify-center gap-3">
+        {isActive ? (
+          <Button
+            onClick={stopCamera}
+            variant="outline"
+            size="lg"
+            className="w-full gap-2 rounded-2xl py-6 font-heading text-base font-semibold"
+          >
+            <CameraOff className="h-5 w-5" />
+            {t.barcode.stop}
+          </Button>
+        ) : (
+          <>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSearching}
+              variant="outline"
+              size="icon"
+              className="h-14 w-14 shrink-0 rounded-2xl"
+              aria-label={t.barcode.importImage}
+              title={t.barcode.importImage}
+            >
+              <ImageUp className="h-5 w-5" />
+            </Button>
+            <Button
+              onClick={startCamera}
+              disabled={isSearching}
+              size="lg"
+              className="flex-1 gap-2 rounded-2xl py-6 font-heading text-base font-semibold"
+            >
+              <Camera className="h-5 w-5" />
+              {t.barcode.enable}
+            </Button>
+          </>
+        )}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleFileChange}
+        className="hidden"
+        disabled={isSearching}
+      />
+
+      {/* Manual entry, for codes the camera cannot read */}
+      <form onSubmit={handleManualSubmit} className="mt-3 flex gap-2">
+        <input
+          value={manualCode}
+          onChange={(event) => setManualCode(event.target.value)}
+          inputMode="numeric"
+          autoComplete="off"
+          placeholder={t.barcode.manualPlaceholder}
+          aria-label={t.barcode.manualLabel}
+          className="min-w-0 flex-1 rounded-xl border bg-[hsl(var(--color-card))] px-3 py-2 text-sm text-[hsl(var(--color-foreground))]"
+        />
+        <Button type="submit" variant="outline" className="gap-2 rounded-xl" disabled={isSearching}>
+          <Search className="h-4 w-4" />
+          {t.barcode.search}
+        </Button>
+      </form>
+
+      {lookup.status === "searching" && (
+        <p className="mt-3 flex items-center gap-2 text-sm text-[hsl(var(--color-muted-foreground))]">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {t.barcode.searching(lookup.code)}
+        </p>
+      )}
+      {lookup.status === "error" && (
+        <p className="mt-3 rounded-lg bg-[hsl(var(--color-destructive))]/10 px-3 py-2 text-sm text-[hsl(var(--color-destructive))]">
+          {t.barcode.errors[lookup.error]}
+          {lookup.code && <span className="ml-1 font-mono">({lookup.code})</span>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BarcodeScanner;
@@ -0,0 +1,128 @@
+"use client";
+
+import { Check, Images, Loader2, Minus, X, AlertCircle, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useLocale } from "@/hooks/useLocale";
+import type { BatchItem, BatchItemStatus } from "@/hooks/useBatchImport";
+import type { InferenceErrorCode } from "@/lib/inference/types";
+
+interface BatchImportProgressProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  /** Workers in the pool (0 while starting) */
+  workerCount: number;
+  /** Pool-level error (no worker could start) */
+  error: InferenceErrorCode | null;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const StatusIcon = ({ status }: { status: BatchItemStatus }) => {
+  switch (status) {
+    case "queued":
+      return <Clock className="h-4 w-4 text-[hsl(var(--color-muted-foreground))]" />;
+    case "processing":
+      return <Loader2 className="h-4 w-4 animate-spin text-[hsl(var(--color-primary))]" />;
+    case "done":
+      return <Check className="h-4 w-4 text-[hsl(var(--color-primary))]" />;
+    case "failed":
+      return <AlertCircle className="h-4 w-4 text-[hsl(var(--color-destructive))]" />;
+    default:
+      return <Minus className="h-4 w-4 text-[hsl(var(--color-muted-foreground))]" />;
+  }
+};
+
+const CAPTURE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  day: "numeric",
+  month: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+const BatchImportProgress = ({
+  items,
+  isRunning,
+  workerCount,
+  error,
+  onCancel,
+  onDismiss,
+}: BatchImportProgressProps) => {
+  const { t, formatNumber, formatDate } = useLocale();
+  const finished = items.filter(
+    (item) => item.status !== "queued" && item.status !== "processing"
+  ).length;
+  const saved = items.filter((item) => item.status === "done").length;
+  const percentage = items.length > 0 ? (finished / items.length) * 100 : 0;
+
+  return (
+    <div className="mx-auto w-full max-w-md px-5">
+      <div className="rounded-2xl border bg-[hsl(var(--color-card))] p-4">
+        <div className="flex items-center gap-3">
+          <Images className="h-5 w-5 shrink-0 text-[hsl(var(--color-primary))]" />
+          <div className="flex-1">
+            <p className="text-sm font-semibold text-[hsl(var(--color-foreground))]">
+              {isRunning ? t.batch.running : t.batch.finished}
+            </p>
+            <p className="text-xs text-[hsl(var(--color-muted-foreground))]">
+              {t.batch.summary(finished, items.length, saved)}
+              {isRunning && workerCount > 0 ? ` — ${t.batch.parallel(workerCount)}` : ""}
+            </p>
+          </div>
+          {isRunning ? (
+            <Button variant="outline" size="sm" className="rounded-xl" onClick={onCancel}>
+              {t.batch.stop}
+            </Button>
+          ) : (
+            <button
+              onClick={onDismiss}
+              aria-label={t.batch.close}
+              className="flex h-8 w-8 items-center justify-center rounded-full text-[hsl(var(--color-muted-foreground))] hover:bg-[hsl(var(--color-muted))]"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+
+        <div className="mt-3 h-2 w-full overflow-hidden rounded-full bg-[hsl(var(--color-secondary))]">
+          <div
+            className="h-full rounded-full bg-[hsl(var(--color-primary))] transition-all duration-300"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+
+        {error && (
+          <p className="mt-3 text-xs text-[hsl(var(--color-destructive))]">
+            {t.batch.startFailed(t.errors[error].title)}
+          </p>
+        )}
+
+        <ul className="mt-3 max-h-60 space-y-1 overflow-y-auto">
+          {items.map((item) => (
+            <li
+              key={item.id}
+              className="flex items-center gap-2 rounded-lg px-2 py-1.5 text-xs"
+              title={item.error}
+            >
+              <StatusIcon status={item.status} />
+              <span className="flex-1 truncate text-[hsl(var(--color-foreground))]">
+                {item.fileName}
+              </span>
+              {item.capturedAt !== null && (
+                <span className="shrink-0 text-[hsl(var(--color-muted-foreground))]">
+                  {formatDate(item.capturedAt, CAPTURE_TIME_FORMAT)}
+                </span>
+              )}
+              <span className="w-24 shrink-0 text-right font-semibold text-[hsl(var(--color-foreground))]">
+                {item.status === "done" && item.calories !== undefined
+                  ? `${formatNumber(item.calories)} kcal`
+                  : t.batch.status[item.status]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default BatchImportProgress;
@@ -0,0 +1,117 @@
+"use client";
+
+import { Ruler } from "lucide-react";
+import type { CalibrationLine, CalibrationRequest } from "@/lib/inference/types";
+import { CALIBRATION_CONFIG } from "@/lib/constants";
+import { useLocale } from "@/hooks/useLocale";
+
+export type CalibrationKind = "none" | "credit_card" | "coin" | "plate" | "line";
+
+export interface CalibrationSettings {
+  kind: CalibrationKind;
+  /** Declared diameter (coin, plate) or line length, in cm */
+  sizeCm: number;
+}
+
+export const DEFAULT_CALIBRATION_SETTINGS: CalibrationSettings = {
+  kind: "none",
+  sizeCm: 0,
+};
+
+const OPTIONS: { kind: CalibrationKind; defaultSizeCm: number }[] = [
+  { kind: "none", defaultSizeCm: 0 },
+  { kind: "credit_card", defaultSizeCm: CALIBRATION_CONFIG.CREDIT_CARD_WIDTH_CM },
+  { kind: "coin", defaultSizeCm: CALIBRATION_CONFIG.DEFAULT_COIN_DIAMETER_CM },
+  { kind: "plate", defaultSizeCm: CALIBRATION_CONFIG.DEFAULT_PLATE_DIAMETER_CM },
+  { kind: "line", defaultSizeCm: 10 },
+];
+
+/**
+ * Build the worker calibration request from the panel settings
+ * @param settings - Current panel settings
+ * @param line - User-drawn line (only used in "line" mode)
+ * @returns Calibration request, or undefined to use the default scale
+ */
+export function buildCalibrationRequest(
+  settings: CalibrationSettings,
+  line: CalibrationLine | null
+): CalibrationRequest | undefined {
+  switch (settings.kind) {
+    case "credit_card":
+      return { mode: "reference", reference: { kind: "credit_card" } };
+    case "coin":
+    case "plate":
+      return {
+        mode: "reference",
+        reference: { kind: settings.kind, diameterCm: settings.sizeCm },
+      };
+    case "line":
+      return line ? { mode: "line", line, lengthCm: settings.sizeCm } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+interface CalibrationPanelProps {
+  value: CalibrationSettings;
+  onChange: (settings: CalibrationSettings) => void;
+  /** The drawn line needs a still image, so it is only offered for uploads */
+  allowLine: boolean;
+}
+
+const CalibrationPanel = ({ value, onChange, allowLine }: CalibrationPanelProps) => {
+  const { t } = useLocale();
+  const options = OPTIONS.filter((o) => allowLine || o.kind !== "line");
+  const showSize = value.kind === "coin" || value.kind === "plate" || value.kind === "line";
+
+  return (
+    <div className="mx-auto w-full max-w-md px-5">
+      <div className="rounded-2xl border bg-[hsl(var(--color-card))] p-3">
+        <div className="mb-2 flex items-center gap-2">
+          <Ruler className="h-4 w-4 text-[hsl(var(--color-muted-foreground))]" />
+          <p className="text-xs font-semibold uppercase tracking-wider text-[hsl(var(--color-muted-foreground))]">
+            {t.calibration.title}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {options.map((option) => (
+            <button
+              key={option.kind}
+              onClick={() => onChange({ kind: option.kind, sizeCm: option.defaultSizeCm })}
+              className={`rounded-full px-3 py-1 text-xs font-medium transition-all ${
+                value.kind === option.kind
+                  ? "bg-[hsl(var(--color-primary))] text-white"
+                  : "bg-[hsl(var(--color-muted))] text-[hsl(var(--color-muted-foreground))] hover:text-[hsl(var(--color-foreground))]"
+              }`}
+            >
+              {t.calibration.options[option.kind]}
+            </button>
+          ))}
+        </div>
+        {showSize && (
+          <label className="mt-3 flex items-center justify-between gap-3 text-sm text-[hsl(var(--color-foreground))]">
+            {value.kind === "line" ? t.calibration.lineLength : t.calibration.diameter}
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={value.sizeCm}
+                onChange={(e) => onChange({ ...value, sizeCm: parseFloat(e.target.value) || 0 })}
+                className="w-20 rounded-lg border bg-[hsl(var(--color-background))] px-2 py-1 text-right"
+              />
+              <span className="text-xs text-[hsl(var(--color-muted-foreground))]">cm</span>
+            </span>
+          </label>
+        )}
+        {value.kind === "line" && (
+          <p className="mt-2 text-xs text-[hsl(var(--color-muted-foreground))]">
+            {t.calibration.lineHint}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationPanel;
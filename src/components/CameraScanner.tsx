@@ -1,27 +1,51 @@
 "use client";
 
-import { Camera, CameraOff, ScanLine, Loader2 } from "lucide-react";
+import { Camera, CameraOff, ScanLine, Loader2, Radio } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import LiveDetectionOverlay from "@/components/LiveDetectionOverlay";
 import { useCamera } from "@/hooks/useCamera";
-import { useState } from "react";
+import { useLiveScan } from "@/hooks/useLiveScan";
+import { useLocale } from "@/hooks/useLocale";
+import { LIVE_SCAN_CONFIG, SCAN_DELAY_MS } from "@/lib/constants";
+import type { ImageSource, InferenceResult } from "@/lib/inference/types";
+import { useCallback, useState } from "react";
 
 interface CameraScannerProps {
-  onScan: (imageData: string) => void;
+  /** Full-resolution frame (ImageBitmap or VideoFrame, transferred to the worker) */
+  onScan: (image: ImageSource) => void;
   isScanning: boolean;
+  /** Live frame inference; live mode is offered only when provided (engine ready) */
+  inferFrame?: (imageData: ImageSource, signal?: AbortSignal) => Promise<InferenceResult>;
 }
 
-const CameraScanner = ({ onScan, isScanning }: CameraScannerProps) => {
-  const { videoRef, isActive, error, startCamera, stopCamera, captureFrame } = useCamera();
+const CameraScanner = ({ onScan, isScanning, inferFrame }: CameraScannerProps) => {
+  const { videoRef, isActive, error, startCamera, stopCamera, captureImage } = useCamera();
+  const { t } = useLocale();
   const [showOverlay, setShowOverlay] = useState(false);
+  const [isLive, setIsLive] = useState(false);
 
-  const handleScan = () => {
-    const frame = captureFrame();
+  const handleScan = useCallback(async () => {
+    const frame = await captureImage();
     if (frame) {
       setShowOverlay(true);
       onScan(frame);
-      setTimeout(() => setShowOverlay(false), 1500);
+      setTimeout(() => setShowOverlay(false), SCAN_DELAY_MS);
     }
-  };
+  }, [captureImage, onScan]);
+
+  // Live mode ends with the final capture, so one meal is recorded per plate
+  const handleStable = useCallback(() => {
+    setIsLive(false);
+    handleScan();
+  }, [handleScan]);
+
+  // Live mode: detections drawn over the video, final scan once they hold still
+  const live = useLiveScan({
+    enabled: isActive && isLive && !!inferFrame && !isScanning,
+    captureImage,
+    inferFrame: inferFrame ?? rejectFrame,
+    onStable: handleStable,
+  });
 
   return (
     <div className="relative mx-auto w-full max-w-md px-5">
@@ -37,6 +61,24 @@ const CameraScanner = ({ onScan, isScanning }: CameraScannerProps) => {
               className="h-full w-full object-cover"
               style={{ transform: 'scaleX(-1)' }}
             />
+            {isLive && <LiveDetectionOverlay videoRef={videoRef} detections={live.detections} mirrored />}
+            {/* Live status: stability progress towards the automatic capture */}
+            {isLive && inferFrame && (
+              <div className="pointer-events-none absolute left-3 top-3 flex items-center gap-2 rounded-full bg-black/50 px-3 py-1 text-xs font-medium text-white">
+                <span className="h-2 w-2 animate-pulse rounded-full bg-red-500" />
+                {t.camera.live}
+                <span className="flex gap-0.5" aria-label={t.camera.stability(live.stableFrames, LIVE_SCAN_CONFIG.STABLE_FRAMES)}>
+                  {Array.from({ length: LIVE_SCAN_CONFIG.STABLE_FRAMES }, (_, i) => (
+                    <span
+                      key={i}
+                      className={`h-1.5 w-3 rounded-full ${
+                        i < live.stableFrames ? "bg-[hsl(var(--color-primary))]" : "bg-white/30"
+                      }`}
+                    />
+                  ))}
+                </span>
+              </div>
+            )}
             {/* Scanner overlay */}
             <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
               <div className="relative h-48 w-48 sm:h-56 sm:w-56">
@@ -63,15 +105,15 @@ const CameraScanner = ({ onScan, isScanning }: CameraScannerProps) => {
             </div>
             <div>
               <p className="font-heading text-lg font-semibold text-[hsl(var(--color-foreground))]">
-                Activez la caméra
+                {t.camera.enableTitle}
               </p>
               <p className="mt-1 text-sm text-[hsl(var(--color-muted-foreground))]">
-                Pointez votre caméra vers un aliment pour scanner ses nutriments
+                {t.camera.enableHint}
               </p>
             </div>
             {error && (
               <p className="rounded-lg bg-[hsl(var(--color-destructive))]/10 px-3 py-2 text-sm text-[hsl(var(--color-destructive))]">
-                {error}
+                {t.camera.errors[error]}
               </p>
             )}
           </div>
@@ -87,7 +129,7 @@ const CameraScanner = ({ onScan, isScanning }: CameraScannerProps) => {
             className="w-full gap-2 rounded-2xl py-6 font-heading text-base font-semibold"
           >
             <Camera className="h-5 w-5" />
-            Activer la caméra
+            {t.camera.enable}
           </Button>
         ) : (
           <>
@@ -96,9 +138,23 @@ const CameraScanner = ({ onScan, isScanning }: CameraScannerProps) => {
               variant="outline"
               size="icon"
               className="h-14 w-14 shrink-0 rounded-2xl"
+              aria-label={t.camera.stop}
             >
               <CameraOff className="h-5 w-5" />
             </Button>
+            {inferFrame && (
+              <Button
+                onClick={() => setIsLive((value) => !value)}
+                variant={isLive ? "default" : "outline"}
+                size="icon"
+                className="h-14 w-14 shrink-0 rounded-2xl"
+                aria-pressed={isLive}
+                aria-label={isLive ? t.camera.liveStop : t.camera.liveStart}
+                title={isLive ? t.camera.liveStop : t.camera.liveStart}
+              >
+                <Radio className="h-5 w-5" />
+              </Button>
+            )}
             <Button
               onClick={handleScan}
               disabled={isScanning}
@@ -110,7 +166,7 @@ const CameraScanner = ({ onScan, isScanning }: CameraScannerProps) => {
               ) : (
                 <ScanLine className="h-5 w-5" />
               )}
-              {isScanning ? "Analyse..." : "Scanner"}
+              {isScanning ? t.camera.scanning : t.camera.scan}
             </Button>
           </>
         )}
@@ -119,4 +175,8 @@ const CameraScanner = ({ onScan, isScanning }: CameraScannerProps) => {
   );
 };
 
+function rejectFrame(): Promise<InferenceResult> {
+  return Promise.reject(new Error("Live inference unavailable"));
+}
+
 export default CameraScanner;
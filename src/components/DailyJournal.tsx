@@ -0,0 +1,292 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import NutrientBar from "@/components/NutrientBar";
+import NutriScoreBadge from "@/components/NutriScoreBadge";
+import { NotebookPen, Settings2 } from "lucide-react";
+import { useLocale } from "@/hooks/useLocale";
+import type { NutriScoreResult } from "@/lib/nutriScore";
+import type { ScanTotals } from "@/lib/scanStore";
+import {
+  ACTIVITY_FACTORS,
+  computeTargetsFromProfile,
+  resolveTargets,
+  type ActivityLevel,
+  type NutritionTargets,
+  type TargetSettings,
+  type UserProfile,
+} from "@/lib/nutritionTargets";
+
+interface DailyJournalProps {
+  mealCount: number;
+  consumed: ScanTotals;
+  /** Grade of the day's meals pooled together, null when nothing can be graded */
+  nutriScore: NutriScoreResult | null;
+  targets: NutritionTargets;
+  settings: TargetSettings;
+  onSettingsChange: (settings: TargetSettings) => void;
+}
+
+const DEFAULT_PROFILE: UserProfile = {
+  age: 30,
+  weightKg: 70,
+  heightCm: 170,
+  sex: "female",
+  activity: "moderate",
+};
+
+const TARGET_FIELDS: { key: keyof NutritionTargets; unit: string }[] = [
+  { key: "calories", unit: "kcal" },
+  { key: "protein", unit: "g" },
+  { key: "carbs", unit: "g" },
+  { key: "fat", unit: "g" },
+  { key: "fiber", unit: "g" },
+];
+
+const inputClass =
+  "w-20 rounded-lg border bg-[hsl(var(--color-background))] px-2 py-1 text-right text-sm";
+
+interface TargetSettingsFormProps {
+  settings: TargetSettings;
+  onSave: (settings: TargetSettings) => void;
+}
+
+const TargetSettingsForm = ({ settings, onSave }: TargetSettingsFormProps) => {
+  const [draft, setDraft] = useState<TargetSettings>(settings);
+  const { t, formatNumber } = useLocale();
+  const profile = draft.mode === "profile" ? draft.profile : DEFAULT_PROFILE;
+  const targets = resolveTargets(draft);
+
+  const setProfile = (patch: Partial<UserProfile>) =>
+    setDraft({ mode: "profile", profile: { ...profile, ...patch } });
+
+  return (
+    <div className="space-y-3 rounded-2xl bg-[hsl(var(--color-muted))] p-3">
+      <div className="flex gap-1.5">
+        {(["manual", "profile"] as const).map((mode) => (
+          <button
+            key={mode}
+            onClick={() =>
+              setDraft(
+                mode === "manual"
+                  ? { mode, targets }
+                  : { mode, profile }
+              )
+            }
+            className={`flex-1 rounded-full px-3 py-1 text-xs font-medium transition-all ${
+              draft.mode === mode
+                ? "bg-[hsl(var(--color-primary))] text-white"
+                : "bg-[hsl(var(--color-background))] text-[hsl(var(--color-muted-foreground))]"
+            }`}
+          >
+            {mode === "manual" ? t.journal.manualMode : t.journal.profileMode}
+          </button>
+        ))}
+      </div>
+
+      {draft.mode === "manual" ? (
+        TARGET_FIELDS.map((field) => (
+          <label key={field.key} className="flex items-center justify-between text-sm">
+            {t.nutrients[field.key]}
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                value={draft.targets[field.key]}
+                onChange={(e) =>
+                  setDraft({
+                    mode: "manual",
+                    targets: { ...draft.targets, [field.key]: parseFloat(e.target.value) || 0 },
+                  })
+                }
+                className={inputClass}
+              />
+              <span className="w-8 text-xs text-[hsl(var(--color-muted-foreground))]">{field.unit}</span>
+            </span>
+          </label>
+        ))
+      ) : (
+        <>
+          {(
+            [
+              ["age", t.journal.age, t.journal.ageUnit],
+              ["weightKg", t.journal.weight, "kg"],
+              ["heightCm", t.journal.height, "cm"],
+            ] as const
+          ).map(([key, label, unit]) => (
+            <label key={key} className="flex items-center justify-between text-sm">
+              {label}
+              <span className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  value={profile[key]}
+                  onChange={(e) => setProfile({ [key]: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+                <span className="w-8 text-xs text-[hsl(var(--color-muted-foreground))]">{unit}</span>
+              </span>
+            </label>
+          ))}
+          <label className="flex items-center justify-between text-sm">
+            {t.journal.sex}
+            <select
+              value={profile.sex}
+              onChange={(e) => setProfile({ sex: e.target.value as UserProfile["sex"] })}
+              className="rounded-lg border bg-[hsl(var(--color-background))] px-2 py-1 text-sm"
+            >
+              <option value="female">{t.journal.female}</option>
+              <option value="male">{t.journal.male}</option>
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-sm">
+            {t.journal.activity}
+            <select
+              value={profile.activity}
+              onChange={(e) => setProfile({ activity: e.target.value as ActivityLevel })}
+              className="rounded-lg border bg-[hsl(var(--color-background))] px-2 py-1 text-sm"
+            >
+              {(Object.keys(ACTIVITY_FACTORS) as ActivityLevel[]).map((level) => (
+                <option key={level} value={level}>
+                  {t.journal.activityLevels[level]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-[hsl(var(--color-muted-foreground))]">
+            {t.journal.estimated(formatNumber(computeTargetsFromProfile(profile).calories))}
+          </p>
+        </>
+      )}
+
+      <Button onClick={() => onSave(draft)} className="w-full rounded-xl">
+        {t.journal.save}
+      </Button>
+    </div>
+  );
+};
+
+const DailyJournal = ({
+  mealCount,
+  consumed,
+  nutriScore,
+  targets,
+  settings,
+  onSettingsChange,
+}: DailyJournalProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const { t, formatNumber } = useLocale();
+  const remaining = targets.calories - consumed.calories;
+
+  return (
+    <div className="mx-auto w-full max-w-md px-5">
+      <Card className="overflow-hidden border-2">
+        <CardContent className="space-y-4 p-5">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <NotebookPen className="h-4 w-4 text-[hsl(var(--color-muted-foreground))]" />
+              <h3 className="font-heading text-sm font-semibold uppercase tracking-wider text-[hsl(var(--color-muted-foreground))]">
+                {t.journal.title}
+              </h3>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 rounded-full"
+              onClick={() => setIsEditing((v) => !v)}
+              aria-label={t.journal.editTargets}
+            >
+              <Settings2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {isEditing && (
+            <TargetSettingsForm
+              settings={settings}
+              onSave={(next) => {
+                onSettingsChange(next);
+                setIsEditing(false);
+              }}
+            />
+          )}
+
+          <div className="flex items-end justify-between">
+            <div>
+              <p className="font-heading text-3xl font-bold text-[hsl(var(--color-foreground))]">
+                {formatNumber(consumed.calories)}
+                <span className="ml-1 text-sm font-medium text-[hsl(var(--color-muted-foreground))]">
+                  / {formatNumber(targets.calories)} kcal
+                </span>
+              </p>
+              <p className="text-xs text-[hsl(var(--color-muted-foreground))]">
+                {t.journal.mealsLogged(mealCount)}
+              </p>
+            </div>
+            <p
+              className={`text-sm font-semibold ${
+                remaining < 0
+                  ? "text-[hsl(var(--color-destructive))]"
+                  : "text-[hsl(var(--color-primary))]"
+              }`}
+            >
+              {remaining >= 0
+                ? t.journal.remaining(formatNumber(remaining))
+                : `+${formatNumber(-remaining)} kcal`}
+            </p>
+          </div>
+
+          <NutrientBar
+            label={t.nutrients.calories}
+            value={consumed.calories}
+            unit="kcal"
+            max={targets.calories}
+            colorClass="bg-[hsl(var(--color-accent))]"
+            isTarget
+          />
+          <NutrientBar
+            label={t.nutrients.protein}
+            value={consumed.protein}
+            unit="g"
+            max={targets.protein}
+            colorClass="bg-nutrient-protein"
+            isTarget
+          />
+          <NutrientBar
+            label={t.nutrients.carbs}
+            value={consumed.carbs}
+            unit="g"
+            max={targets.carbs}
+            colorClass="bg-nutrient-carbs"
+            isTarget
+          />
+          <NutrientBar
+            label={t.nutrients.fat}
+            value={consumed.fat}
+            unit="g"
+            max={targets.fat}
+            colorClass="bg-nutrient-fat"
+            isTarget
+          />
+          <NutrientBar
+            label={t.nutrients.fiber}
+            value={consumed.fiber}
+            unit="g"
+            max={targets.fiber}
+            colorClass="bg-nutrient-fiber"
+          />
+
+          {nutriScore && (
+            <div className="flex items-center justify-between border-t pt-4">
+              <p className="text-sm font-medium text-[hsl(var(--color-foreground))]">{t.nutriScore.day}</p>
+              <NutriScoreBadge grade={nutriScore.grade} isEstimate={nutriScore.isEstimate} size="sm" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DailyJournal;
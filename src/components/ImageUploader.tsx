@@ -1,32 +1,104 @@
 "use client";
 
-import { Upload, Loader2, Image as ImageIcon, ScanLine, X } from "lucide-react";
+import { Upload, Loader2, Image as ImageIcon, ScanLine, X, FolderOpen } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useLocale } from "@/hooks/useLocale";
+import type { CalibrationLine, ImageSource } from "@/lib/inference/types";
 
 interface ImageUploaderProps {
-  onUpload: (imageData: string) => void;
+  /** Decoded image (transferred to the worker), with the data URL shown in the preview */
+  onUpload: (image: ImageSource, previewSrc: string) => void;
+  /** Several photos or a folder selected at once (batch import); hides the folder button when absent */
+  onBatchUpload?: (files: File[]) => void;
   isProcessing: boolean;
+  /** Enable drawing a calibration line over the preview */
+  drawLine?: boolean;
+  calibrationLine?: CalibrationLine | null;
+  onCalibrationLineChange?: (line: CalibrationLine | null) => void;
 }
 
-const ImageUploader = ({ onUpload, isProcessing }: ImageUploaderProps) => {
+/**
+ * Convert a pointer position to normalized image coordinates,
+ * accounting for object-contain letterboxing of the preview
+ */
+function toImageCoords(
+  img: HTMLImageElement,
+  clientX: number,
+  clientY: number
+): { x: number; y: number } {
+  const rect = img.getBoundingClientRect();
+  const scale = Math.min(rect.width / img.naturalWidth, rect.height / img.naturalHeight);
+  const drawnW = img.naturalWidth * scale;
+  const drawnH = img.naturalHeight * scale;
+  const offsetX = (rect.width - drawnW) / 2;
+  const offsetY = (rect.height - drawnH) / 2;
+  return {
+    x: Math.min(Math.max((clientX - rect.left - offsetX) / drawnW, 0), 1),
+    y: Math.min(Math.max((clientY - rect.top - offsetY) / drawnH, 0), 1),
+  };
+}
+
+const MAX_FILE_SIZE_MB = 10;
+const MAX_FILE_SIZE = MAX_FILE_SIZE_MB * 1024 * 1024;
+
+const ImageUploader = ({
+  onUpload,
+  onBatchUpload,
+  isProcessing,
+  drawLine = false,
+  calibrationLine = null,
+  onCalibrationLineChange,
+}: ImageUploaderProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useLocale();
+  const imageRef = useRef<HTMLImageElement>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+
+  // webkitdirectory is not a typed React attribute
+  const canImportBatch = !!onBatchUpload;
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, [canImportBatch]);
+
+  const resetInputs = () => {
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (folderInputRef.current) folderInputRef.current.value = '';
+  };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const files = Array.from(event.target.files ?? []);
+
+    // Several photos (or a folder): imported in the background, without preview
+    if (onBatchUpload && (files.length > 1 || event.target === folderInputRef.current)) {
+      const images = files.filter(
+        (candidate) => candidate.type.startsWith('image/') && candidate.size <= MAX_FILE_SIZE
+      );
+      resetInputs();
+      if (images.length === 0) {
+        alert(t.uploader.noUsableImages(MAX_FILE_SIZE_MB));
+        return;
+      }
+      onBatchUpload(images);
+      return;
+    }
+
+    const file = files[0];
     if (!file) return;
 
     // Validate file type
     if (!file.type.startsWith('image/')) {
-      alert('Veuillez sélectionner un fichier image (JPEG, PNG, etc.)');
+      alert(t.uploader.invalidType);
       return;
     }
 
-    // Validate file size (max 10MB)
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
-      alert('Le fichier est trop volumineux. Taille maximale: 10 MB');
+    // Validate file size
+    if (file.size > MAX_FILE_SIZE) {
+      alert(t.uploader.tooLarge(MAX_FILE_SIZE_MB));
       return;
     }
 
@@ -36,30 +108,59 @@ const ImageUploader = ({ onUpload, isProcessing }: ImageUploaderProps) => {
       const imageData = e.target?.result as string;
       if (imageData) {
         setSelectedImage(imageData);
+        setSelectedFile(file);
+        onCalibrationLineChange?.(null);
       }
     };
     reader.readAsDataURL(file);
 
     // Reset input so same file can be uploaded again
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+    resetInputs();
   };
 
   const triggerFileUpload = () => {
     fileInputRef.current?.click();
   };
 
-  const handleAnalyze = () => {
-    if (selectedImage) {
-      onUpload(selectedImage);
+  const handleAnalyze = async () => {
+    if (!selectedImage) return;
+    // Decode here so the worker receives pixels, not a data URL to fetch and decode again
+    let image: ImageSource = selectedImage;
+    if (selectedFile) {
+      try {
+        image = await createImageBitmap(selectedFile, { imageOrientation: "from-image" });
+      } catch (error) {
+        console.warn("[ImageUploader] createImageBitmap failed, sending the data URL:", error);
+      }
     }
+    onUpload(image, selectedImage);
   };
 
   const handleClear = () => {
     setSelectedImage(null);
+    setSelectedFile(null);
+    onCalibrationLineChange?.(null);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!imageRef.current) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const p = toImageCoords(imageRef.current, event.clientX, event.clientY);
+    setIsDrawing(true);
+    onCalibrationLineChange?.({ x1: p.x, y1: p.y, x2: p.x, y2: p.y });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!isDrawing || !imageRef.current || !calibrationLine) return;
+    const p = toImageCoords(imageRef.current, event.clientX, event.clientY);
+    onCalibrationLineChange?.({ ...calibrationLine, x2: p.x, y2: p.y });
+  };
+
+  const handlePointerUp = () => {
+    setIsDrawing(false);
   };
 
+
   return (
     <div className="relative mx-auto w-full max-w-md px-5">
       {/* Hidden file input */}
@@ -67,10 +168,20 @@ const ImageUploader = ({ onUpload, isProcessing }: ImageUploaderProps) => {
         ref={fileInputRef}
         type="file"
         accept="image/*"
+        multiple={!!onBatchUpload}
         onChange={handleFileChange}
         className="hidden"
         disabled={isProcessing}
       />
+      {onBatchUpload && (
+        <input
+          ref={folderInputRef}
+          type="file"
+          onChange={handleFileChange}
+          className="hidden"
+          disabled={isProcessing}
+        />
+      )}
 
       {/* Upload area */}
       <div className={`relative overflow-hidden rounded-3xl border-2 border-dashed border-[hsl(var(--color-border))] bg-[hsl(var(--color-muted))] ${selectedImage ? '' : 'aspect-[3/4]'}`}>
@@ -78,17 +189,48 @@ const ImageUploader = ({ onUpload, isProcessing }: ImageUploaderProps) => {
           <>
             {/* Preview image */}
             <img
+              ref={imageRef}
               src={selectedImage}
-              alt="Preview"
+              alt={t.uploader.previewAlt}
               className="w-full object-contain"
               style={{ maxHeight: '70vh' }}
+              onLoad={(e) =>
+                setNaturalSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                })
+              }
             />
+            {/* Calibration line (viewBox + meet mirrors object-contain) */}
+            {drawLine && !isProcessing && naturalSize && (
+              <svg
+                viewBox={`0 0 ${naturalSize.width} ${naturalSize.height}`}
+                preserveAspectRatio="xMidYMid meet"
+                className="absolute inset-0 h-full w-full cursor-crosshair touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              >
+                {calibrationLine && (
+                  <line
+                    x1={calibrationLine.x1 * naturalSize.width}
+                    y1={calibrationLine.y1 * naturalSize.height}
+                    x2={calibrationLine.x2 * naturalSize.width}
+                    y2={calibrationLine.y2 * naturalSize.height}
+                    stroke="hsl(var(--color-accent))"
+                    strokeWidth={3}
+                    strokeLinecap="round"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+              </svg>
+            )}
             {/* Processing overlay */}
             {isProcessing && (
               <div className="absolute inset-0 flex items-center justify-center bg-black/50">
                 <div className="flex flex-col items-center gap-3 text-white">
                   <Loader2 className="h-12 w-12 animate-spin" />
-                  <p className="font-heading text-base font-semibold">Analyse en cours...</p>
+                  <p className="font-heading text-base font-semibold">{t.uploader.processing}</p>
                 </div>
               </div>
             )}
@@ -97,6 +239,7 @@ const ImageUploader = ({ onUpload, isProcessing }: ImageUploaderProps) => {
               <button
                 onClick={handleClear}
                 className="absolute right-4 top-4 flex h-10 w-10 items-center justify-center rounded-full bg-black/50 text-white transition-all hover:bg-black/70"
+                aria-label={t.uploader.clear}
               >
                 <X className="h-5 w-5" />
               </button>
@@ -109,10 +252,10 @@ const ImageUploader = ({ onUpload, isProcessing }: ImageUploaderProps) => {
             </div>
             <div>
               <p className="font-heading text-lg font-semibold text-[hsl(var(--color-foreground))]">
-                Importer une image
+                {t.uploader.title}
               </p>
               <p className="mt-1 text-sm text-[hsl(var(--color-muted-foreground))]">
-                Sélectionnez une photo d&apos;un aliment depuis votre appareil
+                {onBatchUpload ? t.uploader.hintMultiple : t.uploader.hint}
               </p>
             </div>
           </div>
@@ -143,19 +286,34 @@ const ImageUploader = ({ onUpload, isProcessing }: ImageUploaderProps) => {
               ) : (
                 <ScanLine className="h-5 w-5" />
               )}
-              {isProcessing ? "Analyse..." : "Analyser"}
+              {isProcessing ? t.uploader.analyzing : t.uploader.analyze}
             </Button>
           </>
         ) : (
-          <Button
-            onClick={triggerFileUpload}
-            disabled={isProcessing}
-            size="lg"
-            className="w-full gap-2 rounded-2xl py-6 font-heading text-base font-semibold"
-          >
-            <Upload className="h-5 w-5" />
-            Sélectionner une image
-          </Button>
+          <>
+            <Button
+              onClick={triggerFileUpload}
+              disabled={isProcessing}
+              size="lg"
+              className="flex-1 gap-2 rounded-2xl py-6 font-heading text-base font-semibold"
+            >
+              <Upload className="h-5 w-5" />
+              {onBatchUpload ? t.uploader.selectMany : t.uploader.selectOne}
+            </Button>
+            {onBatchUpload && (
+              <Button
+                onClick={() => folderInputRef.current?.click()}
+                disabled={isProcessing}
+                variant="outline"
+                size="icon"
+                className="h-14 w-14 shrink-0 rounded-2xl"
+                aria-label={t.uploader.importFolder}
+                title={t.uploader.importFolder}
+              >
+                <FolderOpen className="h-5 w-5" />
+              </Button>
+            )}
+          </>
         )}
       </div>
     </div>
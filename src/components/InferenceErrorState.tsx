@@ -0,0 +1,50 @@
+"use client";
+
+import { AlertTriangle, FlaskConical, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useLocale } from "@/hooks/useLocale";
+import type { InferenceError } from "@/lib/inference/errors";
+
+interface InferenceErrorStateProps {
+  error: InferenceError;
+  isRetrying: boolean;
+  onRetry: () => void;
+  /** Only passed when demo mode is enabled */
+  onShowDemo?: () => void;
+}
+
+const InferenceErrorState = ({ error, isRetrying, onRetry, onShowDemo }: InferenceErrorStateProps) => {
+  const { t } = useLocale();
+  const copy = t.errors[error.code];
+
+  return (
+    <div className="mx-auto w-full max-w-md px-5" role="alert">
+      <div className="rounded-2xl border-2 border-[hsl(var(--color-destructive))]/30 bg-[hsl(var(--color-destructive))]/5 p-4">
+        <div className="flex gap-3">
+          <AlertTriangle className="h-5 w-5 shrink-0 text-[hsl(var(--color-destructive))]" />
+          <div className="flex-1 space-y-1">
+            <p className="text-sm font-semibold text-[hsl(var(--color-foreground))]">{copy.title}</p>
+            <p className="text-xs text-[hsl(var(--color-muted-foreground))]">{copy.description}</p>
+            <p className="break-words font-mono text-[10px] text-[hsl(var(--color-muted-foreground))]">
+              {error.code} — {error.message}
+            </p>
+          </div>
+        </div>
+        <div className="mt-3 flex gap-2">
+          <Button onClick={onRetry} disabled={isRetrying} className="flex-1 rounded-xl">
+            {isRetrying ? <Loader2 className="animate-spin" /> : <RotateCcw />}
+            {copy.retry}
+          </Button>
+          {onShowDemo && (
+            <Button onClick={onShowDemo} variant="outline" className="rounded-xl">
+              <FlaskConical />
+              {t.showDemo}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InferenceErrorState;
@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useRef, type RefObject } from "react";
+import type { Detection } from "@/lib/inference/types";
+import { paintMask } from "@/lib/inference/maskEncoding";
+import { getClassColor } from "@/lib/classColors";
+import { useLocale } from "@/hooks/useLocale";
+
+interface LiveDetectionOverlayProps {
+  /** Video the detections were computed on (object-cover) */
+  videoRef: RefObject<HTMLVideoElement | null>;
+  detections: Detection[];
+  /** Mirror horizontally, to match the front-camera preview */
+  mirrored?: boolean;
+}
+
+const MASK_ALPHA = 0.35;
+
+const LiveDetectionOverlay = ({ videoRef, detections, mirrored = false }: LiveDetectionOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { foodName } = useLocale();
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+
+    // Draw at device resolution over the displayed video
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    if (detections.length === 0 || video.videoWidth === 0) return;
+
+    // object-cover: the frame is scaled to fill the element and centered
+    const scale = Math.max(width / video.videoWidth, height / video.videoHeight);
+    const frameW = video.videoWidth * scale;
+    const frameH = video.videoHeight * scale;
+    const offsetX = (width - frameW) / 2;
+    const offsetY = (height - frameH) / 2;
+
+    ctx.save();
+    if (mirrored) {
+      ctx.translate(width, 0);
+      ctx.scale(-1, 1);
+    }
+
+    // Masks, blended into one layer at the frame resolution
+    const { width: maskW, height: maskH } = detections[0].mask;
+    const layer = new ImageData(maskW, maskH);
+    for (const d of detections) {
+      const [r, g, b] = getClassColor(d.classId);
+      paintMask(d.mask, layer.data, [r, g, b, Math.round(MASK_ALPHA * 255)]);
+    }
+    const layerCanvas = new OffscreenCanvas(maskW, maskH);
+    layerCanvas.getContext("2d")?.putImageData(layer, 0, 0);
+    ctx.drawImage(layerCanvas, offsetX, offsetY, frameW, frameH);
+
+    // Box outlines
+    ctx.lineWidth = 2;
+    for (const d of detections) {
+      const [r, g, b] = getClassColor(d.classId);
+      ctx.strokeStyle = `rgb(${r}, ${g}, ${b})`;
+      ctx.strokeRect(
+        offsetX + (d.box.x - d.box.width / 2) * frameW,
+        offsetY + (d.box.y - d.box.height / 2) * frameH,
+        d.box.width * frameW,
+        d.box.height * frameH
+      );
+    }
+    ctx.restore();
+
+    // Labels are drawn unmirrored so the text stays readable
+    ctx.font = "600 12px sans-serif";
+    ctx.textBaseline = "top";
+    for (const d of detections) {
+      const [r, g, b] = getClassColor(d.classId);
+      const left = offsetX + (d.box.x - d.box.width / 2) * frameW;
+      const x = mirrored ? width - left - d.box.width * frameW : left;
+      const y = Math.max(0, offsetY + (d.box.y - d.box.height / 2) * frameH);
+      const text = `${d.icon} ${foodName(d.classId, d.label)}`;
+      const textWidth = ctx.measureText(text).width;
+      ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+      ctx.fillRect(x, y, textWidth + 8, 18);
+      ctx.fillStyle = "#fff";
+      ctx.fillText(text, x + 4, y + 3);
+    }
+  }, [videoRef, detections, mirrored, foodName]);
+
+  return <canvas ref={canvasRef} className="pointer-events-none absolute inset-0 h-full w-full" aria-hidden />;
+};
+
+export default LiveDetectionOverlay;
@@ -0,0 +1,52 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { useLocale } from "@/hooks/useLocale";
+import type { ModelDownloadProgress as Progress } from "@/lib/inference/types";
+
+interface ModelDownloadProgressProps {
+  progress: Progress;
+}
+
+const ModelDownloadProgress = ({ progress }: ModelDownloadProgressProps) => {
+  const { t, formatNumber } = useLocale();
+  const formatMegabytes = (bytes: number) => formatNumber(bytes / (1024 * 1024), 1);
+  const percentage = progress.total
+    ? Math.min((progress.loaded / progress.total) * 100, 100)
+    : null;
+
+  return (
+    <div className="mx-auto w-full max-w-md px-5">
+      <div className="rounded-2xl border bg-[hsl(var(--color-card))] p-4">
+        <div className="flex items-center gap-3">
+          <Download className="h-5 w-5 shrink-0 text-[hsl(var(--color-primary))]" />
+          <div className="flex-1">
+            <p className="text-sm font-semibold text-[hsl(var(--color-foreground))]">
+              {t.modelDownload.title}
+            </p>
+            <p className="text-xs text-[hsl(var(--color-muted-foreground))]">
+              {formatMegabytes(progress.loaded)}
+              {progress.total ? ` / ${formatMegabytes(progress.total)}` : ""}{" "}
+              {t.modelDownload.megabytes} — {t.modelDownload.offlineHint}
+            </p>
+          </div>
+          {percentage !== null && (
+            <span className="text-sm font-semibold text-[hsl(var(--color-foreground))]">
+              {Math.round(percentage)}%
+            </span>
+          )}
+        </div>
+        <div className="mt-3 h-2 w-full overflow-hidden rounded-full bg-[hsl(var(--color-secondary))]">
+          <div
+            className={`h-full rounded-full bg-[hsl(var(--color-primary))] transition-all duration-300 ${
+              percentage === null ? "w-1/3 animate-pulse" : ""
+            }`}
+            style={percentage !== null ? { width: `${percentage}%` } : undefined}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelDownloadProgress;
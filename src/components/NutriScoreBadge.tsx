@@ -0,0 +1,52 @@
+"use client";
+
+import { useLocale } from "@/hooks/useLocale";
+import type { NutriScoreGrade } from "@/lib/nutriScore";
+
+interface NutriScoreBadgeProps {
+  grade: NutriScoreGrade;
+  /** Computed with missing values: shown with a dashed outline */
+  isEstimate?: boolean;
+  size?: "sm" | "md";
+}
+
+const GRADES: NutriScoreGrade[] = ["A", "B", "C", "D", "E"];
+
+// Official Nutri-Score palette
+const GRADE_COLORS: Record<NutriScoreGrade, string> = {
+  A: "bg-[#038141]",
+  B: "bg-[#85bb2f]",
+  C: "bg-[#fecb02]",
+  D: "bg-[#ee8100]",
+  E: "bg-[#e63e11]",
+};
+
+const NutriScoreBadge = ({ grade, isEstimate = false, size = "md" }: NutriScoreBadgeProps) => {
+  const { t } = useLocale();
+  const cell = size === "sm" ? "h-5 w-4 text-[10px]" : "h-7 w-6 text-xs";
+  const active = size === "sm" ? "h-6 w-5 text-xs" : "h-9 w-8 text-base";
+
+  return (
+    <div
+      role="img"
+      aria-label={isEstimate ? `${t.nutriScore.label(grade)} — ${t.nutriScore.estimate}` : t.nutriScore.label(grade)}
+      title={isEstimate ? t.nutriScore.estimate : undefined}
+      className={`inline-flex items-center rounded-lg bg-white p-0.5 shadow-sm ${
+        isEstimate ? "outline-dashed outline-1 outline-[hsl(var(--color-muted-foreground))]" : ""
+      }`}
+    >
+      {GRADES.map((letter) => (
+        <span
+          key={letter}
+          className={`flex items-center justify-center font-heading font-bold text-white first:rounded-l-md last:rounded-r-md ${
+            GRADE_COLORS[letter]
+          } ${letter === grade ? `${active} rounded-md ring-2 ring-white` : `${cell} opacity-40`}`}
+        >
+          {letter}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default NutriScoreBadge;
@@ -1,31 +1,51 @@
 "use client";
 
+import { useLocale } from "@/hooks/useLocale";
+
 interface NutrientBarProps {
   label: string;
   value: number;
   unit: string;
   max: number;
   colorClass: string;
+  /** Treat `max` as a goal: exceeding it shows the over-target state */
+  isTarget?: boolean;
 }
 
-const NutrientBar = ({ label, value, unit, max, colorClass }: NutrientBarProps) => {
+const NutrientBar = ({ label, value, unit, max, colorClass, isTarget = false }: NutrientBarProps) => {
   const percentage = Math.min((value / max) * 100, 100);
+  const isOver = isTarget && value > max;
+  const { t, formatNumber } = useLocale();
 
   return (
     <div className="space-y-1.5">
       <div className="flex items-center justify-between">
         <span className="text-sm font-medium text-[hsl(var(--color-foreground))]">{label}</span>
-        <span className="text-sm font-semibold text-[hsl(var(--color-foreground))]">
-          {value}
+        <span
+          className={`text-sm font-semibold ${
+            isOver ? "text-[hsl(var(--color-destructive))]" : "text-[hsl(var(--color-foreground))]"
+          }`}
+        >
+          {formatNumber(value)}
+          {isTarget && (
+            <span className="text-xs font-normal text-[hsl(var(--color-muted-foreground))]"> / {formatNumber(max)}</span>
+          )}
           <span className="ml-0.5 text-xs text-[hsl(var(--color-muted-foreground))]">{unit}</span>
         </span>
       </div>
       <div className="h-2.5 w-full overflow-hidden rounded-full bg-[hsl(var(--color-secondary))]">
         <div
-          className={`h-full rounded-full transition-all duration-700 ease-out ${colorClass}`}
+          className={`h-full rounded-full transition-all duration-700 ease-out ${
+            isOver ? "bg-[hsl(var(--color-destructive))]" : colorClass
+          }`}
           style={{ width: `${percentage}%` }}
         />
       </div>
+      {isOver && (
+        <p className="text-xs font-medium text-[hsl(var(--color-destructive))]">
+          {t.nutrients.overTarget(`${formatNumber(value - max)} ${unit}`)}
+        </p>
+      )}
     </div>
   );
 };
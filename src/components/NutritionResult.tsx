@@ -1,24 +1,271 @@
 "use client";
 
+import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
-import { Flame, X } from "lucide-react";
+import { FlaskConical, Flame, Pencil, Plus, Ruler, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import NutrientBar from "@/components/NutrientBar";
+import NutriScoreBadge from "@/components/NutriScoreBadge";
+import { useLocale } from "@/hooks/useLocale";
+import type { Messages } from "@/lib/i18n/messages";
 import type { NutritionData } from "@/lib/mockNutrition";
+import type { InferenceMessageCode, ScaleCalibration } from "@/lib/inference/types";
+import { getFoodDatabase, getFoodInfo } from "@/lib/inference/foodDatabase";
+import {
+  createNutritionItem,
+  DETAILED_NUTRIENTS,
+  totalDetailedNutrient,
+} from "@/lib/nutritionItems";
+import { computeNutriScore, type NutriScoreComponentScore, type NutriScoreResult } from "@/lib/nutriScore";
 import { NUTRIENT_LIMITS } from "@/lib/constants";
 
 interface NutritionResultProps {
   items: NutritionData[];
+  calibration?: ScaleCalibration;
+  /** Sample data from demo mode, not a real scan */
+  isDemo?: boolean;
+  /** Worker hint shown when nothing was detected */
+  messageCode?: InferenceMessageCode;
+  /** Name of the item highlighted on the segmentation overlay */
+  selectedName?: string | null;
+  onSelectItem?: (name: string | null) => void;
   onDismiss: () => void;
   onRemoveItem: (index: number) => void;
+  onUpdateItem: (index: number, item: NutritionData) => void;
+  onAddItem: (item: NutritionData) => void;
 }
 
-const NutritionResult = ({ items, onDismiss, onRemoveItem }: NutritionResultProps) => {
+const MAX_PORTION_GRAMS = 1000;
+const DEFAULT_PORTION_GRAMS = 100;
+
+const FOODS = Object.values(getFoodDatabase());
+
+interface ItemEditorProps {
+  classId?: number;
+  weightGrams: number;
+  submitLabel: string;
+  onSubmit: (item: NutritionData) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Food picker and portion input; previews the recomputed calories
+ */
+const ItemEditor = ({ classId, weightGrams, submitLabel, onSubmit, onCancel }: ItemEditorProps) => {
+  const { locale, t, foodName, formatNumber } = useLocale();
+  const foodOptions = FOODS.map((food) => ({ ...food, name: foodName(food.id, food.name) })).sort(
+    (a, b) => a.name.localeCompare(b.name, locale)
+  );
+  const [draftClassId, setDraftClassId] = useState<number>(classId ?? foodOptions[0].id);
+  const [draftGrams, setDraftGrams] = useState(Math.round(weightGrams));
+  const preview = createNutritionItem(draftClassId, draftGrams);
+
+  return (
+    <div className="space-y-3 rounded-xl bg-[hsl(var(--color-muted))] p-3">
+      <label className="flex items-center justify-between gap-2 text-sm">
+        {t.editor.food}
+        <select
+          value={draftClassId}
+          onChange={(e) => setDraftClassId(parseInt(e.target.value, 10))}
+          className="min-w-0 flex-1 rounded-lg border bg-[hsl(var(--color-background))] px-2 py-1 text-sm"
+        >
+          {foodOptions.map((food) => (
+            <option key={food.id} value={food.id}>
+              {food.icon} {food.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="flex items-center gap-2">
+        <input
+          type="range"
+          min={0}
+          max={MAX_PORTION_GRAMS}
+          step={5}
+          value={Math.min(draftGrams, MAX_PORTION_GRAMS)}
+          onChange={(e) => setDraftGrams(parseInt(e.target.value, 10))}
+          className="flex-1 accent-[hsl(var(--color-primary))]"
+          aria-label={t.editor.portion}
+        />
+        <input
+          type="number"
+          min={0}
+          value={draftGrams}
+          onChange={(e) => setDraftGrams(Math.max(0, parseFloat(e.target.value) || 0))}
+          className="w-20 rounded-lg border bg-[hsl(var(--color-background))] px-2 py-1 text-right text-sm"
+          aria-label={t.editor.weightGrams}
+        />
+        <span className="text-xs text-[hsl(var(--color-muted-foreground))]">g</span>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-[hsl(var(--color-muted-foreground))]">
+          {formatNumber(preview.calories)} kcal · {t.nutrients.proteinShort} {preview.protein}g ·{" "}
+          {t.nutrients.carbsShort} {preview.carbs}g · {t.nutrients.fatShort} {preview.fat}g
+        </span>
+        <div className="flex gap-1.5">
+          <Button variant="ghost" size="sm" className="rounded-lg" onClick={onCancel}>
+            {t.editor.cancel}
+          </Button>
+          <Button size="sm" className="rounded-lg" onClick={() => onSubmit(preview)}>
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SOURCE_DATE_FORMAT: Intl.DateTimeFormatOptions = { dateStyle: "medium", timeZone: "UTC" };
+
+/**
+ * Provenance of the database foods in the result, one line per food class
+ * so every value shown can be traced back to its Ciqual codes
+ */
+const NutrientSources = ({ items }: { items: NutritionData[] }) => {
+  const { t, foodName, formatNumber, formatDate } = useLocale();
+  const classIds = [...new Set(items.flatMap((item) => (item.classId !== undefined ? [item.classId] : [])))];
+  if (classIds.length === 0) return null;
+
+  return (
+    <details className="text-xs text-[hsl(var(--color-muted-foreground))]">
+      <summary className="cursor-pointer font-medium">{t.result.sources}</summary>
+      <ul className="mt-2 space-y-1.5">
+        {classIds.map((classId) => {
+          const food = getFoodInfo(classId);
+          const { source } = food;
+          return (
+            <li key={classId}>
+              <span className="font-semibold text-[hsl(var(--color-foreground))]">
+                {food.icon} {foodName(classId, food.name)}
+              </span>{" "}
+              —{" "}
+              {source.kind === "ciqual" ? (
+                <>
+                  {t.result.sourceCiqual(source.version, formatDate(Date.parse(source.date), SOURCE_DATE_FORMAT))}
+                  {source.foods.map((ciqualFood) => (
+                    <span key={ciqualFood.code} className="block pl-4">
+                      {ciqualFood.code} {ciqualFood.name}
+                      {source.foods.length > 1 && ` (${formatNumber(ciqualFood.share * 100)} %)`}
+                    </span>
+                  ))}
+                </>
+              ) : (
+                t.result.sourceManual
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+};
+
+// Unit and precision of each Nutri-Score input, per 100 g
+const NUTRI_SCORE_UNITS: Record<NutriScoreComponentScore["component"], { unit: string; decimals: number }> = {
+  energy: { unit: "kJ", decimals: 0 },
+  sugars: { unit: "g", decimals: 1 },
+  saturatedFat: { unit: "g", decimals: 1 },
+  salt: { unit: "g", decimals: 2 },
+  protein: { unit: "g", decimals: 1 },
+  fiber: { unit: "g", decimals: 1 },
+  fruitVegetables: { unit: "%", decimals: 0 },
+};
+
+/**
+ * Points of each Nutri-Score component, highest first within each side,
+ * so the components that drive the grade come out on top
+ */
+const NutriScoreBreakdown = ({ nutriScore }: { nutriScore: NutriScoreResult }) => {
+  const { t, formatNumber } = useLocale();
+  const sides = (["negative", "positive"] as const).map((kind) => ({
+    kind,
+    components: nutriScore.components
+      .filter((component) => component.kind === kind)
+      .sort((a, b) => b.points - a.points),
+  }));
+
+  return (
+    <details className="text-xs text-[hsl(var(--color-muted-foreground))]">
+      <summary className="cursor-pointer font-medium">
+        {t.nutriScore.breakdown} · {t.nutriScore.score(nutriScore.score)}
+      </summary>
+      {nutriScore.isEstimate && <p className="mt-2">{t.nutriScore.estimate}</p>}
+      {sides.map(({ kind, components }) => (
+        <div key={kind} className="mt-2">
+          <p className="font-semibold text-[hsl(var(--color-foreground))]">
+            {kind === "negative" ? t.nutriScore.negative : t.nutriScore.positive}
+          </p>
+          <dl className="mt-1 space-y-1">
+            {components.map(({ component, value, points, maxPoints, counted, capped, incomplete }) => {
+              const { unit, decimals } = NUTRI_SCORE_UNITS[component];
+              return (
+                <div key={component} className="flex items-baseline justify-between gap-2">
+                  <dt>
+                    {t.nutriScore.components[component]}{" "}
+                    <span className="whitespace-nowrap">
+                      ({formatNumber(value, decimals)} {unit} {t.nutriScore.per100g})
+                    </span>
+                    {!counted && <span className="block italic">{t.nutriScore.notCounted}</span>}
+                    {counted && capped && <span className="block italic">{t.nutriScore.redMeatCap}</span>}
+                    {incomplete && <span className="block italic">{t.nutriScore.incomplete}</span>}
+                  </dt>
+                  <dd
+                    className={`shrink-0 font-semibold ${
+                      points > 0 && counted
+                        ? kind === "negative"
+                          ? "text-[hsl(var(--color-destructive))]"
+                          : "text-[hsl(var(--color-primary))]"
+                        : ""
+                    } ${counted ? "" : "line-through"}`}
+                  >
+                    {kind === "negative" ? "+" : "−"}
+                    {t.nutriScore.points(points, maxPoints)}
+                  </dd>
+                </div>
+              );
+            })}
+          </dl>
+        </div>
+      ))}
+    </details>
+  );
+};
+
+function describeCalibration(calibration: ScaleCalibration, t: Messages): string {
+  const copy = t.result.calibration;
+  if (calibration.source === "reference" && calibration.reference) {
+    return copy.reference(t.result.references[calibration.reference]);
+  }
+  if (calibration.source === "line") {
+    return copy.line;
+  }
+  if (calibration.referenceNotFound) {
+    return copy.referenceNotFound;
+  }
+  return copy.none;
+}
+
+const NutritionResult = ({
+  items,
+  calibration,
+  isDemo = false,
+  messageCode,
+  selectedName = null,
+  onSelectItem,
+  onDismiss,
+  onRemoveItem,
+  onUpdateItem,
+  onAddItem,
+}: NutritionResultProps) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const { t, foodName, formatNumber } = useLocale();
   const totalCalories = items.reduce((sum, i) => sum + i.calories, 0);
   const totalProtein = items.reduce((sum, i) => sum + i.protein, 0);
   const totalCarbs = items.reduce((sum, i) => sum + i.carbs, 0);
   const totalFat = items.reduce((sum, i) => sum + i.fat, 0);
   const totalFiber = items.reduce((sum, i) => sum + i.fiber, 0);
+  const nutriScore = computeNutriScore(items);
 
   return (
     <div className="mx-auto w-full max-w-md px-5 animate-in slide-in-from-bottom-4 fade-in duration-500">
@@ -30,6 +277,7 @@ const NutritionResult = ({ items, onDismiss, onRemoveItem }: NutritionResultProp
             size="icon"
             className="absolute right-2 top-2 h-8 w-8 rounded-full"
             onClick={onDismiss}
+            aria-label={t.result.close}
           >
             <X className="h-4 w-4" />
           </Button>
@@ -39,79 +287,198 @@ const NutritionResult = ({ items, onDismiss, onRemoveItem }: NutritionResultProp
             <Flame className="h-7 w-7 text-[hsl(var(--color-accent))]" />
             <div>
               <p className="font-heading text-3xl font-bold text-[hsl(var(--color-foreground))]">
-                {totalCalories}
+                {formatNumber(totalCalories)}
               </p>
               <p className="text-xs font-medium text-[hsl(var(--color-muted-foreground))]">
-                Calories totales (kcal)
+                {t.result.totalCalories}
               </p>
             </div>
+            {nutriScore && (
+              <div className="ml-auto">
+                <NutriScoreBadge grade={nutriScore.grade} isEstimate={nutriScore.isEstimate} />
+              </div>
+            )}
           </div>
 
+          {isDemo && (
+            <div className="mt-2 flex items-center gap-1.5 rounded-xl bg-[hsl(var(--color-accent))]/15 px-3 py-1.5 text-xs font-semibold text-[hsl(var(--color-foreground))]">
+              <FlaskConical className="h-3.5 w-3.5" />
+              {t.result.demo}
+            </div>
+          )}
+
+          {calibration && (
+            <div className="mt-2 flex items-center gap-1.5 px-1 text-xs text-[hsl(var(--color-muted-foreground))]">
+              <Ruler className="h-3.5 w-3.5" />
+              <span>{describeCalibration(calibration, t)}</span>
+            </div>
+          )}
+
           {/* Per-item breakdown */}
           <div className="mt-3 space-y-2">
-            {items.map((item, index) => (
-              <div
-                key={`${item.name}-${index}`}
-                className="flex items-center justify-between rounded-xl bg-[hsl(var(--color-background))] px-3 py-2"
-              >
-                <div className="flex items-center gap-2.5">
-                  <span className="text-2xl">{item.icon}</span>
-                  <div>
-                    <p className="text-sm font-semibold text-[hsl(var(--color-foreground))]">
-                      {item.name}
-                    </p>
-                    <p className="text-xs text-[hsl(var(--color-muted-foreground))]">
-                      {item.serving}
+            {items.length === 0 && !isAdding && (
+              <p className="px-1 text-sm text-[hsl(var(--color-muted-foreground))]">
+                {messageCode ? t.inferenceMessages[messageCode] : t.result.noDetections}
+              </p>
+            )}
+            {items.map((item, index) =>
+              editingIndex === index ? (
+                <ItemEditor
+                  key={`${item.name}-${index}`}
+                  classId={item.classId}
+                  weightGrams={item.weightGrams ?? DEFAULT_PORTION_GRAMS}
+                  submitLabel={t.editor.validate}
+                  onSubmit={(next) => {
+                    onUpdateItem(index, next);
+                    setEditingIndex(null);
+                  }}
+                  onCancel={() => setEditingIndex(null)}
+                />
+              ) : (
+                <div
+                  key={`${item.name}-${index}`}
+                  onClick={() => onSelectItem?.(item.name === selectedName ? null : item.name)}
+                  className={`flex items-center justify-between rounded-xl bg-[hsl(var(--color-background))] px-3 py-2 transition-all ${
+                    item.name === selectedName
+                      ? "ring-2 ring-[hsl(var(--color-primary))]"
+                      : ""
+                  } ${onSelectItem ? "cursor-pointer" : ""}`}
+                >
+                  <div className="flex items-center gap-2.5">
+                    <span className="text-2xl">{item.icon}</span>
+                    <div>
+                      <p className="text-sm font-semibold text-[hsl(var(--color-foreground))]">
+                        {foodName(item.classId, item.name)}
+                      </p>
+                      <p className="text-xs text-[hsl(var(--color-muted-foreground))]">
+                        {item.serving}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-heading text-sm font-bold text-[hsl(var(--color-foreground))]">
+                      {formatNumber(item.calories)} kcal
                     </p>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsAdding(false);
+                        setEditingIndex(index);
+                      }}
+                      className="flex h-6 w-6 items-center justify-center rounded-full text-[hsl(var(--color-muted-foreground))] transition-colors hover:bg-[hsl(var(--color-muted))]"
+                      aria-label={t.result.edit(foodName(item.classId, item.name))}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditingIndex(null);
+                        onRemoveItem(index);
+                      }}
+                      className="flex h-6 w-6 items-center justify-center rounded-full text-[hsl(var(--color-muted-foreground))] transition-colors hover:bg-[hsl(var(--color-destructive))]/10 hover:text-[hsl(var(--color-destructive))]"
+                      aria-label={t.result.remove(foodName(item.classId, item.name))}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
                   </div>
                 </div>
-                <div className="flex items-center gap-2">
-                  <p className="font-heading text-sm font-bold text-[hsl(var(--color-foreground))]">
-                    {item.calories} kcal
-                  </p>
-                  <button
-                    onClick={() => onRemoveItem(index)}
-                    className="flex h-6 w-6 items-center justify-center rounded-full text-[hsl(var(--color-muted-foreground))] transition-colors hover:bg-[hsl(var(--color-destructive))]/10 hover:text-[hsl(var(--color-destructive))]"
-                    aria-label={`Supprimer ${item.name}`}
-                  >
-                    <X className="h-3.5 w-3.5" />
-                  </button>
-                </div>
-              </div>
-            ))}
+              )
+            )}
+            {isAdding ? (
+              <ItemEditor
+                weightGrams={DEFAULT_PORTION_GRAMS}
+                submitLabel={t.editor.add}
+                onSubmit={(item) => {
+                  onAddItem(item);
+                  setIsAdding(false);
+                }}
+                onCancel={() => setIsAdding(false)}
+              />
+            ) : (
+              <button
+                onClick={() => {
+                  setEditingIndex(null);
+                  setIsAdding(true);
+                }}
+                className="flex w-full items-center justify-center gap-1.5 rounded-xl border border-dashed py-2 text-sm text-[hsl(var(--color-muted-foreground))] transition-colors hover:text-[hsl(var(--color-foreground))]"
+              >
+                <Plus className="h-4 w-4" />
+                {t.result.addForgotten}
+              </button>
+            )}
           </div>
         </div>
 
         {/* Total nutrient bars */}
         <CardContent className="space-y-4 p-5">
           <NutrientBar
-            label="Protéines"
+            label={t.nutrients.protein}
             value={totalProtein}
             unit="g"
             max={NUTRIENT_LIMITS.protein}
             colorClass="bg-nutrient-protein"
           />
           <NutrientBar
-            label="Glucides"
+            label={t.nutrients.carbs}
             value={totalCarbs}
             unit="g"
             max={NUTRIENT_LIMITS.carbs}
             colorClass="bg-nutrient-carbs"
           />
           <NutrientBar
-            label="Lipides"
+            label={t.nutrients.fat}
             value={totalFat}
             unit="g"
             max={NUTRIENT_LIMITS.fat}
             colorClass="bg-nutrient-fat"
           />
           <NutrientBar
-            label="Fibres"
+            label={t.nutrients.fiber}
             value={totalFiber}
             unit="g"
             max={NUTRIENT_LIMITS.fiber}
             colorClass="bg-nutrient-fiber"
           />
+
+          {/* Detailed nutrients: unknown values are shown as such, never as zero */}
+          {items.length > 0 && (
+            <div className="border-t pt-4">
+              <p className="mb-2 text-sm font-semibold text-[hsl(var(--color-foreground))]">
+                {t.result.details}
+              </p>
+              <dl className="space-y-1 text-sm">
+                {DETAILED_NUTRIENTS.map(({ key, unit, decimals }) => {
+                  const { total, missing } = totalDetailedNutrient(items, key);
+                  const isUnknown = missing === items.length;
+                  return (
+                    <div key={key} className="flex items-center justify-between">
+                      <dt className="text-[hsl(var(--color-muted-foreground))]">{t.nutrients[key]}</dt>
+                      <dd
+                        className="font-semibold text-[hsl(var(--color-foreground))]"
+                        title={!isUnknown && missing > 0 ? t.result.partialValue(missing) : undefined}
+                      >
+                        {isUnknown ? (
+                          <span className="font-normal text-[hsl(var(--color-muted-foreground))]">
+                            {t.result.unknownValue}
+                          </span>
+                        ) : (
+                          <>
+                            {missing > 0 && "≥ "}
+                            {formatNumber(total, decimals)}
+                            <span className="ml-0.5 text-xs text-[hsl(var(--color-muted-foreground))]">{unit}</span>
+                          </>
+                        )}
+                      </dd>
+                    </div>
+                  );
+                })}
+              </dl>
+            </div>
+          )}
+
+          {nutriScore && <NutriScoreBreakdown nutriScore={nutriScore} />}
+          <NutrientSources items={items} />
         </CardContent>
       </Card>
     </div>
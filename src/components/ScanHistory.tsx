@@ -1,40 +1,220 @@
 "use client";
 
+import { useState } from "react";
+import type { ScanRecord } from "@/lib/scanStore";
+import type { HistoryErrorCode } from "@/hooks/useScanHistory";
 import type { NutritionData } from "@/lib/mockNutrition";
-import { Flame } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Check, Flame, Loader2, Pencil, Trash2, X } from "lucide-react";
+import { useLocale } from "@/hooks/useLocale";
+import { getIntlTag, type Locale } from "@/lib/i18n/locale";
+import type { Messages } from "@/lib/i18n/messages";
 
 interface ScanHistoryProps {
-  items: NutritionData[];
+  scans: ScanRecord[];
+  hasMore: boolean;
+  isLoading: boolean;
+  /** Last failed history operation */
+  error?: HistoryErrorCode | null;
+  onLoadMore: () => void;
+  onDelete: (id: string) => void;
+  onUpdateItems: (id: string, items: NutritionData[]) => void;
 }
 
-const ScanHistory = ({ items }: ScanHistoryProps) => {
-  if (items.length === 0) return null;
+interface DayGroup {
+  key: string;
+  label: string;
+  scans: ScanRecord[];
+  calories: number;
+}
+
+function getDayLabel(date: Date, locale: Locale, t: Messages): string {
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return t.history.today;
+  if (date.toDateString() === yesterday.toDateString()) return t.history.yesterday;
+  return date.toLocaleDateString(getIntlTag(locale), {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+  });
+}
+
+/**
+ * Group scans (already sorted newest first) by local calendar day
+ */
+function groupByDay(scans: ScanRecord[], locale: Locale, t: Messages): DayGroup[] {
+  const groups: DayGroup[] = [];
+  for (const scan of scans) {
+    const date = new Date(scan.timestamp);
+    const key = date.toDateString();
+    let group = groups[groups.length - 1];
+    if (!group || group.key !== key) {
+      group = { key, label: getDayLabel(date, locale, t), scans: [], calories: 0 };
+      groups.push(group);
+    }
+    group.scans.push(scan);
+    group.calories += scan.totals.calories;
+  }
+  return groups;
+}
+
+interface MealCardProps {
+  scan: ScanRecord;
+  onDelete: (id: string) => void;
+  onUpdateItems: (id: string, items: NutritionData[]) => void;
+}
+
+const MealCard = ({ scan, onDelete, onUpdateItems }: MealCardProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const { t, foodName, formatNumber, formatDate } = useLocale();
+  const time = formatDate(scan.timestamp, { hour: "2-digit", minute: "2-digit" });
+
+  const handleRemoveItem = (index: number) => {
+    const items = scan.items.filter((_, i) => i !== index);
+    if (items.length === 0) {
+      onDelete(scan.id);
+    } else {
+      onUpdateItems(scan.id, items);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border bg-[hsl(var(--color-card))] p-3">
+      <div className="flex items-center gap-3">
+        {scan.thumbnail ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={scan.thumbnail}
+            alt=""
+            className="h-12 w-12 shrink-0 rounded-xl object-cover"
+          />
+        ) : (
+          <span className="flex h-12 w-12 shrink-0 items-center justify-center rounded-xl bg-[hsl(var(--color-muted))] text-2xl">
+            {scan.items[0]?.icon}
+          </span>
+        )}
+        <div className="min-w-0 flex-1">
+          <p className="text-xs text-[hsl(var(--color-muted-foreground))]">{time}</p>
+          <p className="truncate text-sm font-medium text-[hsl(var(--color-foreground))]">
+            {scan.items.map((item) => `${item.icon} ${foodName(item.classId, item.name)}`).join(", ")}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 rounded-full bg-[hsl(var(--color-accent))]/10 px-2.5 py-1">
+          <Flame className="h-3.5 w-3.5 text-[hsl(var(--color-accent))]" />
+          <span className="text-xs font-semibold text-[hsl(var(--color-foreground))]">
+            {formatNumber(scan.totals.calories)}
+          </span>
+        </div>
+        <button
+          onClick={() => setIsEditing((v) => !v)}
+          className="flex h-7 w-7 items-center justify-center rounded-full text-[hsl(var(--color-muted-foreground))] transition-colors hover:bg-[hsl(var(--color-muted))]"
+          aria-label={isEditing ? t.history.finishEditing : t.history.editMeal}
+        >
+          {isEditing ? <Check className="h-3.5 w-3.5" /> : <Pencil className="h-3.5 w-3.5" />}
+        </button>
+        <button
+          onClick={() => onDelete(scan.id)}
+          className="flex h-7 w-7 items-center justify-center rounded-full text-[hsl(var(--color-muted-foreground))] transition-colors hover:bg-[hsl(var(--color-destructive))]/10 hover:text-[hsl(var(--color-destructive))]"
+          aria-label={t.history.deleteMeal}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {isEditing && (
+        <div className="mt-3 space-y-1.5">
+          {scan.items.map((item, index) => (
+            <div
+              key={`${item.name}-${index}`}
+              className="flex items-center gap-2.5 rounded-xl bg-[hsl(var(--color-background))] px-3 py-1.5"
+            >
+              <span className="text-lg">{item.icon}</span>
+              <div className="flex-1">
+                <p className="text-sm text-[hsl(var(--color-foreground))]">
+                  {foodName(item.classId, item.name)}
+                </p>
+                <p className="text-xs text-[hsl(var(--color-muted-foreground))]">{item.serving}</p>
+              </div>
+              <span className="text-xs font-semibold text-[hsl(var(--color-foreground))]">
+                {formatNumber(item.calories)} kcal
+              </span>
+              <button
+                onClick={() => handleRemoveItem(index)}
+                className="flex h-6 w-6 items-center justify-center rounded-full text-[hsl(var(--color-muted-foreground))] transition-colors hover:bg-[hsl(var(--color-destructive))]/10 hover:text-[hsl(var(--color-destructive))]"
+                aria-label={t.result.remove(foodName(item.classId, item.name))}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ScanHistory = ({
+  scans,
+  hasMore,
+  isLoading,
+  error = null,
+  onLoadMore,
+  onDelete,
+  onUpdateItems,
+}: ScanHistoryProps) => {
+  const { locale, t, formatNumber } = useLocale();
+  if (scans.length === 0 && !error) return null;
+
+  const groups = groupByDay(scans, locale, t);
 
   return (
     <div className="mx-auto w-full max-w-md px-5">
       <h3 className="mb-3 font-heading text-sm font-semibold uppercase tracking-wider text-[hsl(var(--color-muted-foreground))]">
-        Historique des scans
+        {t.history.title}
       </h3>
-      <div className="space-y-2">
-        {items.map((item, index) => (
-          <div
-            key={index}
-            className="flex items-center gap-3 rounded-2xl border bg-[hsl(var(--color-card))] p-3 transition-colors"
-          >
-            <span className="text-2xl">{item.icon}</span>
-            <div className="flex-1">
-              <p className="text-sm font-medium text-[hsl(var(--color-foreground))]">{item.name}</p>
-              <p className="text-xs text-[hsl(var(--color-muted-foreground))]">{item.serving}</p>
-            </div>
-            <div className="flex items-center gap-1 rounded-full bg-[hsl(var(--color-accent))]/10 px-2.5 py-1">
-              <Flame className="h-3.5 w-3.5 text-[hsl(var(--color-accent))]" />
-              <span className="text-xs font-semibold text-[hsl(var(--color-foreground))]">
-                {item.calories}
+      {error && (
+        <p className="mb-3 rounded-lg bg-[hsl(var(--color-destructive))]/10 px-3 py-2 text-xs text-[hsl(var(--color-destructive))]">
+          {t.history.errors[error]}
+        </p>
+      )}
+      <div className="space-y-5">
+        {groups.map((group) => (
+          <section key={group.key}>
+            <div className="mb-2 flex items-baseline justify-between">
+              <h4 className="text-sm font-semibold capitalize text-[hsl(var(--color-foreground))]">
+                {group.label}
+              </h4>
+              <span className="text-xs text-[hsl(var(--color-muted-foreground))]">
+                {formatNumber(group.calories)} kcal
               </span>
             </div>
-          </div>
+            <div className="space-y-2">
+              {group.scans.map((scan) => (
+                <MealCard
+                  key={scan.id}
+                  scan={scan}
+                  onDelete={onDelete}
+                  onUpdateItems={onUpdateItems}
+                />
+              ))}
+            </div>
+          </section>
         ))}
       </div>
+      {hasMore && (
+        <Button
+          onClick={onLoadMore}
+          disabled={isLoading}
+          variant="outline"
+          className="mt-4 w-full rounded-2xl"
+        >
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+          {t.history.loadMore}
+        </Button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { Detection } from "@/lib/inference/types";
+import { isMaskPixelSet, paintMask } from "@/lib/inference/maskEncoding";
+import { getClassColor } from "@/lib/classColors";
+import { useLocale } from "@/hooks/useLocale";
+
+interface SegmentationOverlayProps {
+  /** Scanned image (data URL) the detections refer to */
+  imageSrc: string;
+  detections: Detection[];
+  /** Mirror horizontally, to match the front-camera preview */
+  mirrored?: boolean;
+  /** Label of the highlighted food, shared with the result card */
+  selectedLabel: string | null;
+  onSelect: (label: string | null) => void;
+}
+
+const MASK_ALPHA = 0.45;
+const DIMMED_ALPHA = 0.15;
+
+/**
+ * Find the detection under a normalized point (smallest region wins, so nested foods stay selectable)
+ */
+function hitTest(detections: Detection[], x: number, y: number): Detection | null {
+  const byArea = [...detections].sort(
+    (a, b) => a.box.width * a.box.height - b.box.width * b.box.height
+  );
+  for (const d of byArea) {
+    if (isMaskPixelSet(d.mask, Math.floor(x * d.mask.width), Math.floor(y * d.mask.height))) {
+      return d;
+    }
+  }
+  // Fall back to boxes when the tap lands just outside a mask
+  for (const d of byArea) {
+    if (Math.abs(x - d.box.x) <= d.box.width / 2 && Math.abs(y - d.box.y) <= d.box.height / 2) {
+      return d;
+    }
+  }
+  return null;
+}
+
+const SegmentationOverlay = ({
+  imageSrc,
+  detections,
+  mirrored = false,
+  selectedLabel,
+  onSelect,
+}: SegmentationOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { t, foodName, formatNumber } = useLocale();
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (cancelled) return;
+
+      // Masks cover the whole image at the letterbox resolution; draw everything at that size
+      const width = detections[0]?.mask.width ?? image.naturalWidth;
+      const height = detections[0]?.mask.height ?? image.naturalHeight;
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+
+      ctx.save();
+      if (mirrored) {
+        ctx.translate(width, 0);
+        ctx.scale(-1, 1);
+      }
+      ctx.drawImage(image, 0, 0, width, height);
+
+      // Blend all masks into one layer
+      const layer = ctx.createImageData(width, height);
+      for (const d of detections) {
+        const [r, g, b] = getClassColor(d.classId);
+        const alpha =
+          selectedLabel && d.label !== selectedLabel ? DIMMED_ALPHA : MASK_ALPHA;
+        paintMask(d.mask, layer.data, [r, g, b, Math.round(alpha * 255)]);
+      }
+      const layerCanvas = new OffscreenCanvas(width, height);
+      layerCanvas.getContext("2d")?.putImageData(layer, 0, 0);
+      ctx.drawImage(layerCanvas, 0, 0);
+
+      // Box outlines
+      for (const d of detections) {
+        const [r, g, b] = getClassColor(d.classId);
+        const isSelected = d.label === selectedLabel;
+        ctx.strokeStyle = `rgb(${r}, ${g}, ${b})`;
+        ctx.lineWidth = isSelected ? 4 : 2;
+        ctx.strokeRect(
+          (d.box.x - d.box.width / 2) * width,
+          (d.box.y - d.box.height / 2) * height,
+          d.box.width * width,
+          d.box.height * height
+        );
+      }
+      ctx.restore();
+
+      // Labels are drawn unmirrored so the text stays readable
+      ctx.font = "600 14px sans-serif";
+      ctx.textBaseline = "top";
+      for (const d of detections) {
+        const [r, g, b] = getClassColor(d.classId);
+        const left = d.box.x - d.box.width / 2;
+        const x = (mirrored ? 1 - left - d.box.width : left) * width;
+        const y = Math.max(0, (d.box.y - d.box.height / 2) * height);
+        const text = `${d.icon} ${foodName(d.classId, d.label)} ${formatNumber(d.confidence * 100)}%`;
+        const textWidth = ctx.measureText(text).width;
+        ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+        ctx.fillRect(x, y, textWidth + 8, 20);
+        ctx.fillStyle = "#fff";
+        ctx.fillText(text, x + 4, y + 3);
+      }
+    };
+    image.src = imageSrc;
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageSrc, detections, mirrored, selectedLabel, foodName, formatNumber]);
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    let x = (event.clientX - rect.left) / rect.width;
+    const y = (event.clientY - rect.top) / rect.height;
+    if (mirrored) x = 1 - x;
+
+    const hit = hitTest(detections, x, y);
+    onSelect(hit && hit.label !== selectedLabel ? hit.label : null);
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-md px-5">
+      <canvas
+        ref={canvasRef}
+        onClick={handleClick}
+        className="w-full cursor-pointer rounded-3xl border-2 border-[hsl(var(--color-border))]"
+        aria-label={t.segmentation.label}
+      />
+    </div>
+  );
+};
+
+export default SegmentationOverlay;
@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect } from "react";
+import { INFERENCE_CONFIG, PWA_CONFIG } from "@/lib/constants";
+
+/**
+ * Registers the offline service worker (production builds only, so dev
+ * reloads never hit a stale cache). The build id, model path, manifest and cache name
+ * are passed in the script URL: a new build or MODEL_PATH installs a new worker and drops old caches.
+ */
+const ServiceWorkerRegistration = () => {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) {
+      return;
+    }
+
+    const params = new URLSearchParams({
+      build: PWA_CONFIG.BUILD_ID,
+      model: INFERENCE_CONFIG.MODEL_PATH,
+      modelCache: PWA_CONFIG.MODEL_CACHE_NAME,
+      modelManifest: PWA_CONFIG.MODEL_MANIFEST_PATH,
+    });
+
+    navigator.serviceWorker
+      .register(`${PWA_CONFIG.SW_PATH}?${params}`, { scope: "/" })
+      .then((registration) => {
+        console.log("[PWA] Service worker registered:", registration.scope);
+      })
+      .catch((error) => {
+        console.error("[PWA] Service worker registration failed:", error);
+      });
+  }, []);
+
+  return null;
+};
+
+export default ServiceWorkerRegistration;
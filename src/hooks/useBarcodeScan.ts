@@ -0,0 +1,71 @@
+/**
+ * React Hook for camera barcode scanning
+ * Decodes downscaled video frames on the main thread and reports a code once
+ * the same one has been read on CONFIRM_FRAMES consecutive frames
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { detectBarcode } from '@/lib/barcode/detector';
+import { BARCODE_CONFIG } from '@/lib/constants';
+
+interface UseBarcodeScanOptions {
+  /** Run the frame loop (camera on, no lookup running) */
+  enabled: boolean;
+  /** Grab the current video frame, downscaled to maxSide; null when the video is not ready */
+  captureImage: (maxSide?: number) => Promise<ImageBitmap | VideoFrame | null>;
+  /** Called with the EAN-13 code once it is confirmed */
+  onDetected: (code: string) => void;
+}
+
+/**
+ * Hook for the barcode frame loop
+ * A frame is decoded only after the previous one is done, so slow devices
+ * scan less often instead of queuing frames
+ */
+export function useBarcodeScan({ enabled, captureImage, onDetected }: UseBarcodeScanOptions): void {
+  // Latest callbacks, so a parent re-render does not restart the loop
+  const callbacksRef = useRef({ captureImage, onDetected });
+  useEffect(() => {
+    callbacksRef.current = { captureImage, onDetected };
+  }, [captureImage, onDetected]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let active = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let previous: string | null = null;
+    let matches = 0;
+
+    const tick = async () => {
+      let frame: ImageBitmap | VideoFrame | null = null;
+      try {
+        frame = await callbacksRef.current.captureImage(BARCODE_CONFIG.FRAME_MAX_SIDE);
+        const code = frame ? await detectBarcode(frame) : null;
+        matches = code && code === previous ? matches + 1 : code ? 1 : 0;
+        previous = code;
+
+        if (active && code && matches >= BARCODE_CONFIG.CONFIRM_FRAMES) {
+          console.log(`[useBarcodeScan] Read ${code} on ${matches} frames`);
+          callbacksRef.current.onDetected(code);
+          return;
+        }
+      } catch (err) {
+        // Frames are best effort; the next frame simply tries again
+        console.warn('[useBarcodeScan] Frame decoding failed:', err);
+      } finally {
+        frame?.close();
+      }
+      if (active) timer = setTimeout(tick, BARCODE_CONFIG.SCAN_INTERVAL_MS);
+    };
+
+    tick();
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,216 @@
+/**
+ * React Hook for batch photo import
+ * Runs many photos through a dedicated pool of inference workers and saves
+ * each meal to history at the time the photo was taken
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { InferenceWorkerPool, getPoolSize } from '@/lib/workerPool';
+import { toInferenceError } from '@/lib/inference/errors';
+import { readCaptureTime } from '@/lib/exif';
+import { mergeDetections } from '@/lib/nutritionItems';
+import {
+  computeTotals,
+  createThumbnail,
+  toStoredDetections,
+  type ScanRecord,
+} from '@/lib/scanStore';
+import { BATCH_CONFIG } from '@/lib/constants';
+import type { CalibrationRequest, InferenceErrorCode } from '@/lib/inference/types';
+
+/**
+ * Progress of one imported photo
+ * - empty: processed, but no food was detected (not saved)
+ * - cancelled: the import was stopped before this photo finished
+ */
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'empty' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  status: BatchItemStatus;
+  /** Capture time from EXIF, or the file's modification time */
+  capturedAt: number | null;
+  /** Total calories of the saved meal */
+  calories?: number;
+  /** Number of detected foods */
+  detectionCount?: number;
+  /** Error message, for failed photos */
+  error?: string;
+}
+
+interface UseBatchImportOptions {
+  /** Save a meal to history */
+  addScan: (scan: ScanRecord) => Promise<void>;
+}
+
+interface UseBatchImportReturn {
+  /** Photos of the current or last import, in selection order */
+  items: BatchItem[];
+  /** Whether an import is running */
+  isRunning: boolean;
+  /** Workers in the pool of the running import (0 while starting or idle) */
+  workerCount: number;
+  /** Pool-level error code (no worker could start) */
+  error: InferenceErrorCode | null;
+  /** Import photos; non-image files are skipped and at most MAX_FILES are kept */
+  start: (files: File[], calibration?: CalibrationRequest) => Promise<void>;
+  /** Stop the running import; finished photos stay saved */
+  cancel: () => void;
+  /** Forget the last import's progress */
+  clear: () => void;
+}
+
+/**
+ * Hook for importing a batch of photos
+ * The pool lives only for the duration of an import, so its workers do not
+ * hold model memory while the app is used for single scans
+ *
+ * @returns Batch progress and control functions
+ */
+export function useBatchImport({ addScan }: UseBatchImportOptions): UseBatchImportReturn {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [workerCount, setWorkerCount] = useState(0);
+  const [error, setError] = useState<InferenceErrorCode | null>(null);
+  const poolRef = useRef<InferenceWorkerPool | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const updateItem = useCallback((id: string, update: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...update } : item)));
+  }, []);
+
+  /**
+   * Process one photo: capture time, thumbnail, inference, then history
+   */
+  const processFile = useCallback(
+    async (
+      pool: InferenceWorkerPool,
+      id: string,
+      file: File,
+      calibration: CalibrationRequest | undefined
+    ) => {
+      updateItem(id, { status: 'processing' });
+
+      const capturedAt = (await readCaptureTime(file)) ?? file.lastModified;
+      updateItem(id, { capturedAt });
+
+      // Decoded here, one photo per runner, so the batch never holds every bitmap at once
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+      const [thumbnail, result] = await Promise.all([
+        createThumbnail(file),
+        pool.infer(bitmap, calibration),
+      ]);
+
+      // Empty photos are not meals
+      if (result.detections.length === 0) {
+        updateItem(id, { status: 'empty', detectionCount: 0 });
+        return;
+      }
+
+      const mealItems = mergeDetections(result.detections);
+      const totals = computeTotals(mealItems);
+      await addScan({
+        id: crypto.randomUUID(),
+        timestamp: capturedAt,
+        thumbnail,
+        detections: toStoredDetections(result.detections),
+        items: mealItems,
+        totals,
+        calibration: result.calibration,
+      });
+      updateItem(id, {
+        status: 'done',
+        calories: totals.calories,
+        detectionCount: result.detections.length,
+      });
+    },
+    [addScan, updateItem]
+  );
+
+  const start = useCallback(
+    async (files: File[], calibration?: CalibrationRequest) => {
+      if (abortRef.current) return;
+
+      const images = files
+        .filter((file) => file.type.startsWith('image/'))
+        .slice(0, BATCH_CONFIG.MAX_FILES);
+      if (images.length === 0) return;
+
+      const jobs = images.map((file) => ({ id: crypto.randomUUID(), file }));
+      setItems(
+        jobs.map(({ id, file }) => ({ id, fileName: file.name, status: 'queued', capturedAt: null }))
+      );
+      setError(null);
+      setIsRunning(true);
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const pool = new InferenceWorkerPool();
+      poolRef.current = pool;
+
+      try {
+        setWorkerCount(await pool.initialize(getPoolSize(jobs.length)));
+
+        // One runner per worker, each pulling the next photo when its last one is done
+        let next = 0;
+        const runner = async () => {
+          while (next < jobs.length && !controller.signal.aborted) {
+            const { id, file } = jobs[next++];
+            try {
+              await processFile(pool, id, file, calibration);
+            } catch (err) {
+              if (controller.signal.aborted) break;
+              const inferenceError = toInferenceError(err, 'INFERENCE_FAILED');
+              console.error('[useBatchImport] Failed on', file.name, inferenceError.message);
+              updateItem(id, { status: 'failed', error: inferenceError.message });
+            }
+          }
+        };
+        await Promise.all(Array.from({ length: pool.size }, runner));
+      } catch (err) {
+        const inferenceError = toInferenceError(err, 'MODEL_LOAD_FAILED');
+        console.error('[useBatchImport] Pool failed to start:', inferenceError.message);
+        setError(inferenceError.code);
+      } finally {
+        pool.terminate();
+        poolRef.current = null;
+        abortRef.current = null;
+        setItems((prev) =>
+          prev.map((item) =>
+            item.status === 'queued' || item.status === 'processing'
+              ? { ...item, status: 'cancelled' }
+              : item
+          )
+        );
+        setWorkerCount(0);
+        setIsRunning(false);
+      }
+    },
+    [processFile, updateItem]
+  );
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    // In-flight requests reject at once; their runners see the abort and stop
+    poolRef.current?.terminate();
+  }, []);
+
+  const clear = useCallback(() => {
+    if (abortRef.current) return;
+    setItems([]);
+    setError(null);
+  }, []);
+
+  // Stop the workers on unmount
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      poolRef.current?.terminate();
+    };
+  }, []);
+
+  return { items, isRunning, workerCount, error, start, cancel, clear };
+}
@@ -2,19 +2,27 @@
 
 import { useState, useRef, useCallback, useEffect } from "react";
 import { CAMERA_CONFIG } from "@/lib/constants";
+import type { Messages } from "@/lib/i18n/messages";
+
+/** Why the camera could not start; the UI picks the wording for its locale */
+export type CameraErrorCode = keyof Messages["camera"]["errors"];
+
+class CameraUnsupportedError extends Error {
+  name = "CameraUnsupportedError";
+}
 
 export function useCamera() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const [isActive, setIsActive] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<CameraErrorCode | null>(null);
 
   const startCamera = useCallback(async () => {
     try {
       setError(null);
 
       if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-        throw new Error("L'API getUserMedia n'est pas supportée par ce navigateur");
+        throw new CameraUnsupportedError("getUserMedia is not supported by this browser");
       }
 
       let stream: MediaStream;
@@ -34,17 +42,19 @@ export function useCamera() {
       // Set active first so the <video> element mounts in the DOM
       setIsActive(true);
     } catch (err: any) {
-      let errorMessage = "Impossible d'accéder à la caméra.";
+      let errorCode: CameraErrorCode = "unknown";
 
-      if (err.name === "NotAllowedError" || err.name === "PermissionDeniedError") {
-        errorMessage = "Permission refusée. Autorisez l'accès à la caméra.";
+      if (err instanceof CameraUnsupportedError) {
+        errorCode = "unsupported";
+      } else if (err.name === "NotAllowedError" || err.name === "PermissionDeniedError") {
+        errorCode = "permissionDenied";
       } else if (err.name === "NotFoundError" || err.name === "DevicesNotFoundError") {
-        errorMessage = "Aucune caméra trouvée sur cet appareil.";
+        errorCode = "notFound";
       } else if (err.name === "NotReadableError" || err.name === "TrackStartError") {
-        errorMessage = "Caméra déjà utilisée par une autre application.";
+        errorCode = "inUse";
       }
 
-      setError(errorMessage);
+      setError(errorCode);
       setIsActive(false);
     }
   }, []);
@@ -60,17 +70,43 @@ export function useCamera() {
     setIsActive(false);
   }, []);
 
-  const captureFrame = useCallback((): string | null => {
-    if (!videoRef.current) return null;
+  // maxSide: downscale so the longest side fits (live frames), full resolution otherwise
+  const captureFrame = useCallback((maxSide?: number): string | null => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return null;
+    const scale = maxSide
+      ? Math.min(1, maxSide / Math.max(video.videoWidth, video.videoHeight))
+      : 1;
     const canvas = document.createElement("canvas");
-    canvas.width = videoRef.current.videoWidth;
-    canvas.height = videoRef.current.videoHeight;
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
     const ctx = canvas.getContext("2d");
     if (!ctx) return null;
-    ctx.drawImage(videoRef.current, 0, 0);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
     return canvas.toDataURL("image/jpeg", 0.8);
   }, []);
 
+  // Frame for the inference worker, without JPEG encoding: a VideoFrame at full
+  // resolution where supported, otherwise an ImageBitmap (downscaled to maxSide)
+  const captureImage = useCallback(
+    async (maxSide?: number): Promise<ImageBitmap | VideoFrame | null> => {
+      const video = videoRef.current;
+      if (!video || video.videoWidth === 0) return null;
+      if (!maxSide && typeof VideoFrame !== "undefined") {
+        return new VideoFrame(video);
+      }
+      const scale = maxSide
+        ? Math.min(1, maxSide / Math.max(video.videoWidth, video.videoHeight))
+        : 1;
+      return createImageBitmap(video, {
+        resizeWidth: Math.round(video.videoWidth * scale),
+        resizeHeight: Math.round(video.videoHeight * scale),
+        resizeQuality: "medium",
+      });
+    },
+    []
+  );
+
   // Assign stream to video element once it's mounted
   useEffect(() => {
     if (isActive && streamRef.current && videoRef.current) {
@@ -87,5 +123,5 @@ export function useCamera() {
     };
   }, [stopCamera]);
 
-  return { videoRef, isActive, error, startCamera, stopCamera, captureFrame };
+  return { videoRef, isActive, error, startCamera, stopCamera, captureFrame, captureImage };
 }
@@ -0,0 +1,67 @@
+"use client";
+
+import { useState, useEffect, useSyncExternalStore } from "react";
+import { listScansBetween, type ScanRecord, type ScanTotals } from "@/lib/scanStore";
+import {
+  DEFAULT_TARGET_SETTINGS,
+  loadTargetSettings,
+  resolveTargets,
+  saveTargetSettings,
+  subscribeTargetSettings,
+} from "@/lib/nutritionTargets";
+import { computeNutriScore } from "@/lib/nutriScore";
+
+const EMPTY_TOTALS: ScanTotals = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+
+/**
+ * Start and end (exclusive) of the current local day, in ms since epoch
+ */
+function getTodayRange(): [number, number] {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(start.getDate() + 1);
+  return [start.getTime(), end.getTime()];
+}
+
+/**
+ * Today's logged scans summed against the user's daily targets
+ * @param historyRevision - Scan history revision (useScanHistory); the journal reloads whenever it changes
+ */
+export function useDailyJournal(historyRevision: number) {
+  const [todayScans, setTodayScans] = useState<ScanRecord[]>([]);
+  // localStorage is client-only: the server snapshot keeps hydration stable
+  const settings = useSyncExternalStore(
+    subscribeTargetSettings,
+    loadTargetSettings,
+    () => DEFAULT_TARGET_SETTINGS
+  );
+
+  useEffect(() => {
+    const [from, to] = getTodayRange();
+    listScansBetween(from, to)
+      .then(setTodayScans)
+      .catch((err) => console.error("[useDailyJournal] Failed to load today's scans:", err));
+  }, [historyRevision]);
+
+  const consumed = todayScans.reduce<ScanTotals>(
+    (total, scan) => ({
+      calories: total.calories + scan.totals.calories,
+      protein: total.protein + scan.totals.protein,
+      carbs: total.carbs + scan.totals.carbs,
+      fat: total.fat + scan.totals.fat,
+      fiber: total.fiber + scan.totals.fiber,
+    }),
+    EMPTY_TOTALS
+  );
+
+  return {
+    mealCount: todayScans.length,
+    consumed,
+    // Graded as one food: the day's rows pooled by weight
+    nutriScore: computeNutriScore(todayScans.flatMap((scan) => scan.items)),
+    targets: resolveTargets(settings),
+    settings,
+    updateSettings: saveTargetSettings,
+  };
+}
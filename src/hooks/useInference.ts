@@ -7,17 +7,42 @@
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { InferenceWorkerClient } from '@/lib/workerClient';
-import type { InferenceResult } from '@/lib/inference/types';
+import { InferenceError, toInferenceError } from '@/lib/inference/errors';
+import type {
+  BackendInfo,
+  CalibrationRequest,
+  ImageSource,
+  InferenceResult,
+  ModelDownloadProgress,
+  WorkerHealth,
+} from '@/lib/inference/types';
 
 interface UseInferenceReturn {
-  /** Whether the worker is ready for inference */
+  /** Whether the worker is ready for inference (health status 'ready') */
   isReady: boolean;
+  /** Whether a scan can be started: ready, or restarting ('degraded'), where scans queue until it is back */
+  canScan: boolean;
+  /** Worker health from the client's supervisor (restarts after crashes) */
+  health: WorkerHealth;
+  /** Execution provider and thread count selected by the worker */
+  backend: BackendInfo | null;
+  /** Model download progress on first launch (null once cached or finished) */
+  modelProgress: ModelDownloadProgress | null;
   /** Whether an inference is currently running */
   isProcessing: boolean;
-  /** Current error message, if any */
-  error: string | null;
-  /** Run inference on an image */
-  runInference: (imageData: string) => Promise<InferenceResult>;
+  /** Last initialization or inference error, if any */
+  error: InferenceError | null;
+  /** Run inference on an image (bitmaps and video frames are transferred to the worker) */
+  runInference: (
+    imageData: ImageSource,
+    calibration?: CalibrationRequest
+  ) => Promise<InferenceResult>;
+  /**
+   * Run inference on a live camera frame, at background priority
+   * Leaves isProcessing and error untouched: live frames are best effort,
+   * and are cancelled when superseded by a newer frame or preempted by a scan
+   */
+  inferFrame: (imageData: ImageSource, signal?: AbortSignal) => Promise<InferenceResult>;
   /** Manually reinitialize the worker */
   reinitialize: () => Promise<void>;
 }
@@ -30,11 +55,29 @@ interface UseInferenceReturn {
  */
 export function useInference(): UseInferenceReturn {
   const workerRef = useRef<InferenceWorkerClient | null>(null);
-  const [isReady, setIsReady] = useState(false);
+  const [health, setHealth] = useState<WorkerHealth>({
+    status: 'starting',
+    restartCount: 0,
+    lastError: null,
+  });
+  const isReady = health.status === 'ready';
+  const canScan = isReady || health.status === 'degraded';
+  const [backend, setBackend] = useState<BackendInfo | null>(null);
+  const [modelProgress, setModelProgress] = useState<ModelDownloadProgress | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<InferenceError | null>(null);
   const initAttemptedRef = useRef(false);
 
+  /**
+   * Mirror the supervisor's health; giving up after restarts is an engine error
+   */
+  const handleHealthChange = useCallback((next: WorkerHealth) => {
+    setHealth(next);
+    if (next.status === 'failed' && next.restartCount > 0) {
+      setError(new InferenceError('WORKER_CRASHED', next.lastError ?? 'Worker crashed'));
+    }
+  }, []);
+
   // Initialize worker on mount
   useEffect(() => {
     // Prevent double initialization in strict mode
@@ -46,20 +89,21 @@ export function useInference(): UseInferenceReturn {
     console.log('[useInference] Initializing worker...');
 
     // Create worker client
-    workerRef.current = new InferenceWorkerClient();
+    workerRef.current = new InferenceWorkerClient(handleHealthChange);
 
     // Initialize the model
     workerRef.current
-      .initialize()
-      .then(() => {
-        console.log('[useInference] Worker ready');
-        setIsReady(true);
+      .initialize(undefined, setModelProgress)
+      .then((info) => {
+        console.log('[useInference] Worker ready:', info);
+        setModelProgress(null);
+        setBackend(info);
         setError(null);
       })
       .catch((err) => {
         console.error('[useInference] Initialization failed:', err);
-        setError(err.message || 'Failed to initialize inference engine');
-        setIsReady(false);
+        setModelProgress(null);
+        setError(toInferenceError(err, 'MODEL_LOAD_FAILED'));
       });
 
     // Cleanup on unmount
@@ -69,39 +113,65 @@ export function useInference(): UseInferenceReturn {
         workerRef.current.terminate();
         workerRef.current = null;
       }
-      setIsReady(false);
     };
-  }, []);
+  }, [handleHealthChange]);
 
   /**
    * Run inference on an image
    */
   const runInference = useCallback(
-    async (imageData: string): Promise<InferenceResult> => {
-      if (!workerRef.current || !isReady) {
-        throw new Error('Worker not ready. Please wait for initialization.');
+    async (
+      imageData: ImageSource,
+      calibration?: CalibrationRequest
+    ): Promise<InferenceResult> => {
+      // While starting or restarting, the client queues the request and replays it once ready
+      if (!workerRef.current || health.status === 'failed') {
+        throw new InferenceError(
+          health.restartCount > 0 ? 'WORKER_CRASHED' : 'MODEL_LOAD_FAILED',
+          health.lastError ?? 'Worker not ready. Please wait for initialization.'
+        );
       }
 
       setIsProcessing(true);
       setError(null);
 
       try {
-        const result = await workerRef.current.infer(imageData);
+        const result = await workerRef.current.infer(imageData, calibration);
         console.log('[useInference] Inference complete:', {
           detections: result.detections.length,
           totalCalories: result.totalCalories.toFixed(0),
           processingTime: result.processingTime.toFixed(0) + 'ms',
+          calibration: result.calibration.source,
         });
         return result;
       } catch (err) {
-        const errorMessage = (err as Error).message;
-        console.error('[useInference] Inference failed:', errorMessage);
-        setError(errorMessage);
-        throw err;
+        const inferenceError = toInferenceError(err, 'INFERENCE_FAILED');
+        // A cancelled scan was abandoned on purpose; it is not an engine error
+        if (inferenceError.code !== 'CANCELLED') {
+          console.error('[useInference] Inference failed:', inferenceError.code, inferenceError.message);
+          setError(inferenceError);
+        }
+        throw inferenceError;
       } finally {
         setIsProcessing(false);
       }
     },
+    [health]
+  );
+
+  /**
+   * Run inference on a live frame, without touching the scan state
+   */
+  const inferFrame = useCallback(
+    async (imageData: ImageSource, signal?: AbortSignal): Promise<InferenceResult> => {
+      if (!workerRef.current || !isReady) {
+        throw new InferenceError(
+          'MODEL_LOAD_FAILED',
+          'Worker not ready. Please wait for initialization.'
+        );
+      }
+      return workerRef.current.infer(imageData, undefined, { priority: 'background', signal });
+    },
     [isReady]
   );
 
@@ -117,30 +187,37 @@ export function useInference(): UseInferenceReturn {
     }
 
     // Reset state
-    setIsReady(false);
+    setBackend(null);
     setError(null);
     setIsProcessing(false);
 
-    // Create new worker
-    workerRef.current = new InferenceWorkerClient();
+    // Create new worker (restart count starts over)
+    workerRef.current = new InferenceWorkerClient(handleHealthChange);
 
     try {
-      await workerRef.current.initialize();
-      setIsReady(true);
+      const info = await workerRef.current.initialize(undefined, setModelProgress);
+      setModelProgress(null);
+      setBackend(info);
       console.log('[useInference] Worker reinitialized successfully');
     } catch (err) {
-      const errorMessage = (err as Error).message;
-      console.error('[useInference] Reinitialization failed:', errorMessage);
-      setError(errorMessage);
-      throw err;
+      const inferenceError = toInferenceError(err, 'MODEL_LOAD_FAILED');
+      console.error('[useInference] Reinitialization failed:', inferenceError.message);
+      setModelProgress(null);
+      setError(inferenceError);
+      throw inferenceError;
     }
-  }, []);
+  }, [handleHealthChange]);
 
   return {
     isReady,
+    canScan,
+    health,
+    backend,
+    modelProgress,
     isProcessing,
     error,
     runInference,
+    inferFrame,
     reinitialize,
   };
 }
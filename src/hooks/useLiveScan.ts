@@ -0,0 +1,160 @@
+/**
+ * React Hook for live camera scanning
+ * Feeds downscaled video frames to the inference worker at a rate that follows
+ * the measured latency, and reports when the detections have held still long
+ * enough for a final capture
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { calculateIoU } from '@/lib/inference/nms';
+import { DetectionTracker } from '@/lib/inference/tracker';
+import { InferenceError } from '@/lib/inference/errors';
+import { LIVE_SCAN_CONFIG } from '@/lib/constants';
+import type { Detection, ImageSource, InferenceResult } from '@/lib/inference/types';
+
+interface UseLiveScanOptions {
+  /** Run the frame loop (camera on, live mode selected, no final scan running) */
+  enabled: boolean;
+  /** Grab the current video frame, downscaled to maxSide; null when the video is not ready */
+  captureImage: (maxSide?: number) => Promise<ImageSource | null>;
+  /** Run inference on a frame without touching the scan state (background priority) */
+  inferFrame: (imageData: ImageSource, signal?: AbortSignal) => Promise<InferenceResult>;
+  /** Called once the detections have matched for STABLE_FRAMES consecutive frames */
+  onStable: () => void;
+}
+
+interface UseLiveScanReturn {
+  /** Tracked detections of the last processed frame (smoothed labels and weights) */
+  detections: Detection[];
+  /** Consecutive matching frames so far (0 to STABLE_FRAMES) */
+  stableFrames: number;
+  /** Current delay between frames, in ms */
+  intervalMs: number;
+}
+
+/**
+ * Whether two frames show the same foods in the same places:
+ * same tracks, with unchanged smoothed classes and boxes that barely moved
+ */
+function isSameScene(previous: Detection[], next: Detection[]): boolean {
+  if (next.length === 0 || previous.length !== next.length) return false;
+  return next.every((detection) => {
+    const before = previous.find((candidate) => candidate.trackId === detection.trackId);
+    return (
+      before !== undefined &&
+      before.classId === detection.classId &&
+      calculateIoU(before.box, detection.box) >= LIVE_SCAN_CONFIG.STABLE_IOU
+    );
+  });
+}
+
+function clampInterval(latencyMs: number): number {
+  return Math.min(
+    LIVE_SCAN_CONFIG.MAX_INTERVAL_MS,
+    Math.max(LIVE_SCAN_CONFIG.MIN_INTERVAL_MS, latencyMs * LIVE_SCAN_CONFIG.LATENCY_FACTOR)
+  );
+}
+
+/**
+ * Hook for the live scanning loop
+ * Frames that come due while a request is still in flight are dropped, so the
+ * worker never builds a backlog
+ *
+ * @returns Live detections and stability progress
+ */
+export function useLiveScan({
+  enabled,
+  captureImage,
+  inferFrame,
+  onStable,
+}: UseLiveScanOptions): UseLiveScanReturn {
+  const [detections, setDetections] = useState<Detection[]>([]);
+  const [stableFrames, setStableFrames] = useState(0);
+  const [intervalMs, setIntervalMs] = useState<number>(LIVE_SCAN_CONFIG.MIN_INTERVAL_MS);
+
+  // Latest callbacks, so a parent re-render does not restart the loop
+  const callbacksRef = useRef({ captureImage, inferFrame, onStable });
+  useEffect(() => {
+    callbacksRef.current = { captureImage, inferFrame, onStable };
+  }, [captureImage, inferFrame, onStable]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let active = true;
+    // Cancels the frame in flight when the loop stops
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let inFlight = false;
+    let droppedFrames = 0;
+    let smoothedLatency = 0;
+    let interval: number = LIVE_SCAN_CONFIG.MIN_INTERVAL_MS;
+    let previous: Detection[] = [];
+    let matches = 0;
+    const tracker = new DetectionTracker();
+
+    const tick = () => {
+      if (!active) return;
+      timer = setTimeout(tick, interval);
+
+      if (inFlight) {
+        droppedFrames++;
+        return;
+      }
+
+      // The frame is transferred to the worker: no encoding, no copy
+      inFlight = true;
+      const start = performance.now();
+      callbacksRef.current
+        .captureImage(LIVE_SCAN_CONFIG.FRAME_MAX_SIDE)
+        .then((frame) => (frame ? callbacksRef.current.inferFrame(frame, controller.signal) : null))
+        .then((result) => {
+          if (!result || !active) return;
+
+          // Exponential moving average keeps the rate steady through single slow frames
+          const latency = performance.now() - start;
+          smoothedLatency = smoothedLatency === 0 ? latency : smoothedLatency * 0.7 + latency * 0.3;
+          interval = clampInterval(smoothedLatency);
+          setIntervalMs(Math.round(interval));
+
+          const tracked = tracker.update(result.detections);
+          matches = isSameScene(previous, tracked) ? matches + 1 : tracked.length > 0 ? 1 : 0;
+          previous = tracked;
+          setDetections(tracked);
+
+          if (matches >= LIVE_SCAN_CONFIG.STABLE_FRAMES) {
+            console.log(
+              `[useLiveScan] Stable for ${matches} frames ` +
+                `(${Math.round(interval)}ms interval, ${droppedFrames} dropped), capturing`
+            );
+            matches = 0;
+            previous = [];
+            callbacksRef.current.onStable();
+          }
+          setStableFrames(matches);
+        })
+        .catch((err) => {
+          // Live frames are best effort; the next frame simply tries again
+          if (err instanceof InferenceError && err.code === 'CANCELLED') return;
+          console.warn('[useLiveScan] Frame inference failed:', err);
+        })
+        .finally(() => {
+          inFlight = false;
+        });
+    };
+
+    tick();
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+      controller.abort();
+      setDetections([]);
+      setStableFrames(0);
+    };
+  }, [enabled]);
+
+  return { detections, stableFrames, intervalMs };
+}
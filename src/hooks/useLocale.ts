@@ -0,0 +1,53 @@
+"use client";
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import {
+  DEFAULT_LOCALE,
+  formatNumber as formatLocaleNumber,
+  getIntlTag,
+  loadLocale,
+  saveLocale,
+  subscribeLocale,
+} from "@/lib/i18n/locale";
+import { getMessages } from "@/lib/i18n/messages";
+import { getFoodName } from "@/lib/i18n/foodNames";
+
+/**
+ * Current UI locale with its messages and formatters
+ * Every component reads the same store, so switching language re-renders them all
+ */
+export function useLocale() {
+  // localStorage is client-only: the server snapshot keeps hydration stable
+  const locale = useSyncExternalStore(subscribeLocale, loadLocale, () => DEFAULT_LOCALE);
+
+  // The server renders <html lang> with the default locale
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const formatNumber = useCallback(
+    (value: number, maximumFractionDigits?: number) =>
+      formatLocaleNumber(value, locale, maximumFractionDigits),
+    [locale]
+  );
+
+  const formatDate = useCallback(
+    (timestamp: number, options: Intl.DateTimeFormatOptions) =>
+      new Date(timestamp).toLocaleString(getIntlTag(locale), options),
+    [locale]
+  );
+
+  const foodName = useCallback(
+    (classId: number | undefined, fallback: string) => getFoodName(classId, locale, fallback),
+    [locale]
+  );
+
+  return {
+    locale,
+    setLocale: saveLocale,
+    t: getMessages(locale),
+    formatNumber,
+    formatDate,
+    foodName,
+  };
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import {
+  getScan,
+  listScans,
+  saveScan,
+  deleteScan,
+  compareScans,
+  computeTotals,
+  type ScanCursor,
+  type ScanRecord,
+} from "@/lib/scanStore";
+import type { NutritionData } from "@/lib/mockNutrition";
+import { HISTORY_CONFIG } from "@/lib/constants";
+import type { Messages } from "@/lib/i18n/messages";
+
+/** Which history operation failed; the UI picks the wording for its locale */
+export type HistoryErrorCode = keyof Messages["history"]["errors"];
+
+/**
+ * Add a loaded page to the list; scans already listed (added locally) keep their version
+ */
+function mergeScans(listed: ScanRecord[], page: ScanRecord[]): ScanRecord[] {
+  const listedIds = new Set(listed.map((scan) => scan.id));
+  return [...listed, ...page.filter((scan) => !listedIds.has(scan.id))].sort(compareScans);
+}
+
+/**
+ * Paginated access to the persistent scan history
+ * Loads the first page on mount; later pages on demand
+ */
+export function useScanHistory() {
+  const [scans, setScans] = useState<ScanRecord[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  // Last scan read from the store; locally added scans do not move it
+  const [cursor, setCursor] = useState<ScanCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<HistoryErrorCode | null>(null);
+  // Bumped after each write, including to scans outside the loaded pages
+  const [revision, setRevision] = useState(0);
+
+  const loadPage = useCallback(async (after: ScanCursor | null) => {
+    setIsLoading(true);
+    try {
+      const page = await listScans(after, HISTORY_CONFIG.PAGE_SIZE);
+      setScans((prev) => (after === null ? page : mergeScans(prev, page)));
+      const last = page.at(-1);
+      if (last) setCursor({ timestamp: last.timestamp, id: last.id });
+      setHasMore(page.length === HISTORY_CONFIG.PAGE_SIZE);
+      setError(null);
+    } catch (err) {
+      console.error("[useScanHistory] Failed to load scans:", err);
+      setError("loadFailed");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(null);
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    return loadPage(cursor);
+  }, [loadPage, cursor]);
+
+  const addScan = useCallback(async (scan: ScanRecord) => {
+    // Newest first; imported photos may be older than scans already listed
+    setScans((prev) => [scan, ...prev].sort(compareScans));
+    try {
+      await saveScan(scan);
+      setRevision((value) => value + 1);
+    } catch (err) {
+      console.error("[useScanHistory] Failed to save scan:", err);
+      setError("saveFailed");
+    }
+  }, []);
+
+  /**
+   * Replace a scan's items (totals are recomputed)
+   * The scan is written to the store even when no loaded page lists it
+   */
+  const updateScanItems = useCallback(
+    async (id: string, items: NutritionData[]) => {
+      try {
+        const scan = scans.find((s) => s.id === id) ?? (await getScan(id));
+        if (!scan) return;
+
+        const updated: ScanRecord = { ...scan, items, totals: computeTotals(items) };
+        setScans((prev) => prev.map((s) => (s.id === id ? updated : s)));
+        await saveScan(updated);
+        setRevision((value) => value + 1);
+      } catch (err) {
+        console.error("[useScanHistory] Failed to update scan:", err);
+        setError("updateFailed");
+      }
+    },
+    [scans]
+  );
+
+  const removeScan = useCallback(async (id: string) => {
+    setScans((prev) => prev.filter((scan) => scan.id !== id));
+    try {
+      await deleteScan(id);
+      setRevision((value) => value + 1);
+    } catch (err) {
+      console.error("[useScanHistory] Failed to delete scan:", err);
+      setError("deleteFailed");
+    }
+  }, []);
+
+  return { scans, revision, hasMore, isLoading, error, loadMore, addScan, updateScanItems, removeScan };
+}
@@ -0,0 +1,71 @@
+/**
+ * Barcode detection
+ * Uses the native BarcodeDetector (Chromium, Android) when it supports EAN-13,
+ * otherwise the scanline decoder in ean.ts on the image pixels
+ */
+
+import { decodeEan13, normalizeBarcode } from './ean';
+
+// BarcodeDetector is not in the TypeScript DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+interface NativeBarcodeDetector {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const FORMATS = ['ean_13', 'upc_a'];
+
+let nativeDetector: Promise<NativeBarcodeDetector | null> | null = null;
+
+/**
+ * Create the native detector once, or resolve null when it is unavailable
+ */
+function getNativeDetector(): Promise<NativeBarcodeDetector | null> {
+  if (nativeDetector) return nativeDetector;
+  const BarcodeDetector = (globalThis as { BarcodeDetector?: NativeBarcodeDetectorConstructor })
+    .BarcodeDetector;
+
+  nativeDetector = (async () => {
+    if (!BarcodeDetector) return null;
+    try {
+      const supported = await BarcodeDetector.getSupportedFormats();
+      const formats = FORMATS.filter((format) => supported.includes(format));
+      return formats.length > 0 ? new BarcodeDetector({ formats }) : null;
+    } catch (error) {
+      console.warn('[Barcode] BarcodeDetector unavailable, using the scanline decoder:', error);
+      return null;
+    }
+  })();
+  return nativeDetector;
+}
+
+/**
+ * Read an EAN-13 or UPC-A code from an image
+ * @param image - Decoded image or camera frame (not closed here)
+ * @returns 13-digit code (UPC-A gets a leading 0), or null if none was read
+ */
+export async function detectBarcode(image: ImageBitmap | VideoFrame): Promise<string | null> {
+  const detector = await getNativeDetector();
+  if (detector) {
+    const barcodes = await detector.detect(image);
+    for (const barcode of barcodes) {
+      const code = normalizeBarcode(barcode.rawValue);
+      if (code) return code;
+    }
+    return null;
+  }
+
+  const width = 'displayWidth' in image ? image.displayWidth : image.width;
+  const height = 'displayHeight' in image ? image.displayHeight : image.height;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0, width, height);
+  return decodeEan13(ctx.getImageData(0, 0, width, height));
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEan13, normalizeBarcode, type PixelImage } from './ean';
+
+// Standard EAN-13 module patterns (1 = bar)
+const L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const G_CODES = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const R_CODES = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLG', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+function encode(code: string): string {
+  const digits = [...code].map(Number);
+  const parity = PARITY[digits[0]];
+  const left = digits
+    .slice(1, 7)
+    .map((digit, i) => (parity[i] === 'L' ? L_CODES : G_CODES)[digit])
+    .join('');
+  const right = digits
+    .slice(7)
+    .map((digit) => R_CODES[digit])
+    .join('');
+  return `101${left}01010${right}101`;
+}
+
+/**
+ * Render a barcode with a quiet zone, 3 px per module
+ * @param upsideDown - Rotated 180°: every row is mirrored
+ */
+function render(code: string, upsideDown = false): PixelImage {
+  const quiet = '0'.repeat(10);
+  let modules = `${quiet}${encode(code)}${quiet}`;
+  if (upsideDown) modules = [...modules].reverse().join('');
+  const moduleWidth = 3;
+  const width = modules.length * moduleWidth;
+  const height = 20;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = modules[Math.floor(x / moduleWidth)] === '1' ? 0 : 255;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+describe('decodeEan13', () => {
+  it.each(['3017620422003', '5449000000996', '0012345678905'])('reads %s', (code) => {
+    expect(decodeEan13(render(code))).toBe(code);
+  });
+
+  it.each(['3017620422003', '5449000000996', '0012345678905'])('reads %s upside down', (code) => {
+    expect(decodeEan13(render(code, true))).toBe(code);
+  });
+
+  it('returns null on a blank image', () => {
+    const blank = { width: 100, height: 10, data: new Uint8ClampedArray(100 * 10 * 4).fill(255) };
+    expect(decodeEan13(blank)).toBeNull();
+  });
+});
+
+describe('normalizeBarcode', () => {
+  it('pads UPC-A codes and rejects bad check digits', () => {
+    expect(normalizeBarcode('012345678905')).toBe('0012345678905');
+    expect(normalizeBarcode('3017620422004')).toBeNull();
+  });
+});
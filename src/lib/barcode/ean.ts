@@ -0,0 +1,246 @@
+/**
+ * EAN-13 / UPC-A scanline decoder
+ * Fallback for browsers without BarcodeDetector: rows around the middle of the
+ * image are binarized, turned into bar/space run lengths and matched against
+ * the EAN-13 digit patterns. UPC-A codes are EAN-13 codes starting with 0
+ */
+
+import { BARCODE_CONFIG } from '../constants';
+
+/** Grayscale-readable image (ImageData or a compatible object) */
+export interface PixelImage {
+  width: number;
+  height: number;
+  /** RGBA, row-major */
+  data: Uint8ClampedArray;
+}
+
+// Module widths of each digit in the L code (space, bar, space, bar).
+// R codes have the same widths starting with a bar; G codes are L reversed
+const L_WIDTHS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+const G_WIDTHS = L_WIDTHS.map((widths) => [...widths].reverse());
+
+// L/G parity of the six left digits encodes the first digit
+const FIRST_DIGIT_PARITY = [
+  'LLLLLL',
+  'LLGLGG',
+  'LLGGLG',
+  'LLGGGL',
+  'LGLLGG',
+  'LGGLLG',
+  'LGGGLG',
+  'LGLGLG',
+  'LGLGGL',
+  'LGGLGL',
+];
+
+type Parity = 'L' | 'G';
+type DigitTable = [Parity, number[][]];
+
+// Tables for each half, as read in scan order. A row read backwards (upside-down
+// barcode) mirrors every digit: L widths read as G, G as L, and R (L widths) as G
+const LEFT_TABLES: DigitTable[] = [
+  ['L', L_WIDTHS],
+  ['G', G_WIDTHS],
+];
+const LEFT_REVERSED_TABLES: DigitTable[] = [
+  ['L', G_WIDTHS],
+  ['G', L_WIDTHS],
+];
+const RIGHT_TABLES: DigitTable[] = [['L', L_WIDTHS]];
+const RIGHT_REVERSED_TABLES: DigitTable[] = [['L', G_WIDTHS]];
+
+// Start guard (3) + 6 digits (4 each) + middle guard (5) + 6 digits + end guard (3)
+const SYMBOL_RUNS = 3 + 24 + 5 + 24 + 3;
+// Largest mean deviation from the ideal widths, in modules, for a digit to match
+const MAX_DIGIT_ERROR = 0.35;
+const MAX_GUARD_ERROR = 0.5;
+
+/**
+ * Whether a 13-digit code has a valid EAN check digit
+ */
+export function isValidEan13(code: string): boolean {
+  if (!/^\d{13}$/.test(code)) return false;
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(code[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return (10 - (sum % 10)) % 10 === Number(code[12]);
+}
+
+/**
+ * Normalize a scanned or typed code to EAN-13 (UPC-A gets a leading 0)
+ * @returns 13-digit code, or null if it is not a valid EAN-13/UPC-A code
+ */
+export function normalizeBarcode(raw: string): string | null {
+  const digits = raw.replace(/\D/g, '');
+  const code = digits.length === 12 ? `0${digits}` : digits;
+  return isValidEan13(code) ? code : null;
+}
+
+/**
+ * Decode an EAN-13 or UPC-A barcode from pixels
+ * @returns 13-digit code, or null if no valid code was read
+ */
+export function decodeEan13(image: PixelImage): string | null {
+  const { height } = image;
+  const band = height / 2;
+  for (let i = 0; i < BARCODE_CONFIG.SCANLINES; i++) {
+    // Middle row first, then alternately above and below
+    const offset = Math.ceil(i / 2) * (i % 2 === 0 ? 1 : -1);
+    const y = Math.round(height / 2 + (offset * band) / BARCODE_CONFIG.SCANLINES);
+    if (y < 0 || y >= height) continue;
+
+    const runs = readRuns(image, y);
+    // Upside-down barcodes are read right to left
+    const code = decodeRuns(runs, false) ?? decodeRuns(runs, true);
+    if (code) return code;
+  }
+  return null;
+}
+
+/**
+ * Binarize one row and return its run lengths, starting with the first dark run
+ */
+function readRuns({ width, data }: PixelImage, y: number): number[] {
+  const luma = new Float32Array(width);
+  let min = 255;
+  let max = 0;
+  for (let x = 0; x < width; x++) {
+    const i = (y * width + x) * 4;
+    const value = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    luma[x] = value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  // Not enough contrast to hold bars
+  if (max - min < 40) return [];
+
+  const threshold = (min + max) / 2;
+  const runs: number[] = [];
+  let dark = luma[0] < threshold;
+  let length = 0;
+  let started = dark;
+  for (let x = 0; x < width; x++) {
+    const isDark = luma[x] < threshold;
+    if (isDark === dark) {
+      length++;
+      continue;
+    }
+    if (started) runs.push(length);
+    started = true;
+    dark = isDark;
+    length = 1;
+  }
+  if (started && dark) runs.push(length);
+  return runs;
+}
+
+/**
+ * Try every dark run as the start guard
+ * Runs alternate dark/light from index 0, so start guards sit on even indices
+ * @param reversed - The symbol is read right to left: the end guard and the
+ *   mirrored right half come first
+ */
+function decodeRuns(runs: number[], reversed: boolean): string | null {
+  for (let i = 0; i + SYMBOL_RUNS <= runs.length; i += 2) {
+    const code = decodeAt(runs, i, reversed);
+    if (code) return code;
+  }
+  return null;
+}
+
+interface DecodedHalf {
+  digits: number[];
+  parity: Parity[];
+}
+
+function decodeAt(runs: number[], start: number, reversed: boolean): string | null {
+  const moduleWidth = (runs[start] + runs[start + 1] + runs[start + 2]) / 3;
+  if (!matchesGuard(runs, start, 3, moduleWidth)) return null;
+
+  let index = start + 3;
+  const first = decodeHalf(runs, index, reversed ? RIGHT_REVERSED_TABLES : LEFT_TABLES);
+  if (!first) return null;
+  index += 24;
+
+  if (!matchesGuard(runs, index, 5, moduleWidth)) return null;
+  index += 5;
+
+  const second = decodeHalf(runs, index, reversed ? LEFT_REVERSED_TABLES : RIGHT_TABLES);
+  if (!second) return null;
+  index += 24;
+
+  if (!matchesGuard(runs, index, 3, moduleWidth)) return null;
+
+  // Read backwards, each half also lists its digits last to first
+  const [left, right] = reversed
+    ? [reverseHalf(second), reverseHalf(first)]
+    : [first, second];
+  const firstDigit = FIRST_DIGIT_PARITY.indexOf(left.parity.join(''));
+  if (firstDigit < 0) return null;
+  const code = `${firstDigit}${left.digits.join('')}${right.digits.join('')}`;
+  return isValidEan13(code) ? code : null;
+}
+
+/**
+ * Match the six digits of one half
+ */
+function decodeHalf(runs: number[], start: number, tables: DigitTable[]): DecodedHalf | null {
+  const half: DecodedHalf = { digits: [], parity: [] };
+  for (let i = 0; i < 6; i++) {
+    const match = matchDigit(runs.slice(start + i * 4, start + i * 4 + 4), tables);
+    if (!match) return null;
+    half.digits.push(match.digit);
+    half.parity.push(match.parity);
+  }
+  return half;
+}
+
+function reverseHalf({ digits, parity }: DecodedHalf): DecodedHalf {
+  return { digits: [...digits].reverse(), parity: [...parity].reverse() };
+}
+
+function matchesGuard(runs: number[], start: number, count: number, moduleWidth: number): boolean {
+  for (let i = start; i < start + count; i++) {
+    if (Math.abs(runs[i] / moduleWidth - 1) > MAX_GUARD_ERROR) return false;
+  }
+  return true;
+}
+
+/**
+ * Match four runs (7 modules) against the digit patterns
+ * @param tables - Patterns allowed for this half, with the parity each one stands for
+ */
+function matchDigit(
+  widths: number[],
+  tables: DigitTable[]
+): { digit: number; parity: Parity } | null {
+  const total = widths.reduce((sum, width) => sum + width, 0);
+  const modules = widths.map((width) => (width * 7) / total);
+
+  let best: { digit: number; parity: Parity } | null = null;
+  let bestError = MAX_DIGIT_ERROR;
+  for (const [parity, table] of tables) {
+    table.forEach((pattern, digit) => {
+      const error =
+        pattern.reduce((sum, expected, i) => sum + Math.abs(modules[i] - expected), 0) / 4;
+      if (error < bestError) {
+        bestError = error;
+        best = { digit, parity };
+      }
+    });
+  }
+  return best;
+}
@@ -0,0 +1,166 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import path from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createHttpProductProvider,
+  createOfflineProductProvider,
+  lookupProduct,
+  type PackagedProduct,
+  type ProductProvider,
+} from './products';
+import offlineProducts from './products.json';
+
+const NUTELLA = offlineProducts[0] as PackagedProduct;
+const UNKNOWN_CODE = '4006381333931';
+
+let stub: ChildProcess;
+let stubUrl: string;
+
+/**
+ * Start `pnpm stub:products` on a free port
+ * @returns Its base URL, read from the startup line
+ */
+function startStub(): Promise<string> {
+  stub = spawn(process.execPath, [path.join('scripts', 'product-api-stub.mjs')], {
+    env: { ...process.env, PORT: '0' },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  return new Promise((resolve, reject) => {
+    stub.once('error', reject);
+    stub.once('exit', (code) => reject(new Error(`Product API stub exited with ${code}`)));
+    stub.stdout?.on('data', (chunk: Buffer) => {
+      const url = chunk.toString().match(/http:\/\/localhost:\d+/)?.[0];
+      if (url) resolve(url);
+    });
+  });
+}
+
+/**
+ * Answer every fetch with the given body, or fail like an unreachable server
+ */
+function stubFetch(body: string | Error, status = 200) {
+  const fetchMock = vi.fn(async () => {
+    if (body instanceof Error) throw body;
+    return new Response(body, { status, headers: { 'Content-Type': 'application/json' } });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('createHttpProductProvider against the product API stub', () => {
+  beforeAll(async () => {
+    stubUrl = await startStub();
+  });
+
+  afterAll(() => {
+    stub.kill();
+  });
+
+  it('reads every bundled product back from its Open Food Facts response', async () => {
+    const provider = createHttpProductProvider(`${stubUrl}/`);
+    for (const product of offlineProducts as PackagedProduct[]) {
+      expect(await provider.lookup(product.code)).toEqual(product);
+    }
+  });
+
+  it('resolves null for a product the server does not know', async () => {
+    const provider = createHttpProductProvider(stubUrl);
+    expect(await provider.lookup(UNKNOWN_CODE)).toBeNull();
+  });
+});
+
+describe('createHttpProductProvider response parsing', () => {
+  const provider = createHttpProductProvider('https://products.test');
+
+  it('converts sodium to salt and minerals from grams to milligrams', async () => {
+    const fetchMock = stubFetch(
+      JSON.stringify({
+        status: 1,
+        product: {
+          product_name: 'Eau minérale',
+          brands: 'Source A, Groupe B',
+          product_quantity: '1500',
+          nutriments: { 'energy-kcal_100g': 0, sodium_100g: 0.002, calcium_100g: '0.0095' },
+        },
+      })
+    );
+
+    const product = await provider.lookup('3274080005003');
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringMatching(/^https:\/\/products\.test\/api\/v2\/product\/3274080005003\?fields=/),
+      expect.anything()
+    );
+    expect(product).toMatchObject({
+      name: 'Eau minérale',
+      brand: 'Source A',
+      quantityGrams: 1500,
+      servingGrams: undefined,
+      per100g: { calories: 0, protein: 0, salt: 0.005, calcium: 9.5, iron: undefined },
+    });
+  });
+
+  it('resolves null for status 0 and for products without a name', async () => {
+    stubFetch(JSON.stringify({ status: 0, status_verbose: 'product not found' }));
+    expect(await provider.lookup(UNKNOWN_CODE)).toBeNull();
+
+    stubFetch(JSON.stringify({ status: 1, product: { code: UNKNOWN_CODE, nutriments: {} } }));
+    expect(await provider.lookup(UNKNOWN_CODE)).toBeNull();
+  });
+
+  it('rejects a malformed payload', async () => {
+    stubFetch('<html>Service Unavailable</html>');
+    await expect(provider.lookup(UNKNOWN_CODE)).rejects.toThrow(SyntaxError);
+  });
+
+  it('rejects server errors and network failures', async () => {
+    stubFetch('{}', 503);
+    await expect(provider.lookup(UNKNOWN_CODE)).rejects.toThrow('Product lookup failed: 503');
+
+    stubFetch(new TypeError('fetch failed'));
+    await expect(provider.lookup(UNKNOWN_CODE)).rejects.toThrow('fetch failed');
+  });
+});
+
+describe('lookupProduct', () => {
+  function remote(lookup: ProductProvider['lookup']): ProductProvider {
+    return { name: 'remote', lookup: vi.fn(lookup) };
+  }
+
+  it('answers from the offline dataset without calling the remote provider', async () => {
+    const api = remote(async () => null);
+    expect(await lookupProduct(NUTELLA.code, [createOfflineProductProvider(), api])).toEqual(NUTELLA);
+    expect(api.lookup).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the remote provider for codes missing offline', async () => {
+    const found = { ...NUTELLA, code: UNKNOWN_CODE };
+    const api = remote(async () => found);
+    expect(await lookupProduct(UNKNOWN_CODE, [createOfflineProductProvider(), api])).toBe(found);
+    expect(api.lookup).toHaveBeenCalledWith(UNKNOWN_CODE);
+  });
+
+  it('resolves null when every provider answers that the product is unknown', async () => {
+    const api = remote(async () => null);
+    expect(await lookupProduct(UNKNOWN_CODE, [createOfflineProductProvider(), api])).toBeNull();
+  });
+
+  it('rethrows the remote failure only when no provider had the product', async () => {
+    const unreachable = remote(async () => {
+      throw new TypeError('fetch failed');
+    });
+    await expect(lookupProduct(UNKNOWN_CODE, [createOfflineProductProvider(), unreachable])).rejects.toThrow(
+      'fetch failed'
+    );
+    expect(await lookupProduct(NUTELLA.code, [unreachable, createOfflineProductProvider()])).toEqual(NUTELLA);
+  });
+});
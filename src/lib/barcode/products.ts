@@ -0,0 +1,172 @@
+/**
+ * Packaged product lookup
+ * Barcodes are resolved by a chain of providers: the bundled offline dataset
+ * first, then an optional Open Food Facts–compatible HTTP endpoint
+ * (NEXT_PUBLIC_PRODUCT_API_URL, or the local stub from `pnpm stub:products`)
+ */
+
+import { BARCODE_CONFIG } from '../constants';
+import type { DetailedNutrient } from '../inference/types';
+import offlineProducts from './products.json';
+
+/**
+ * Nutrient values per 100 g (or 100 ml for drinks)
+ * Detailed nutrients are absent when the product data does not list them
+ */
+export interface ProductNutrients extends Partial<Record<DetailedNutrient, number>> {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+export interface PackagedProduct {
+  /** EAN-13 code */
+  code: string;
+  name: string;
+  brand?: string;
+  /** Net quantity of the package (g or ml) */
+  quantityGrams?: number;
+  /** Serving suggested on the package, when smaller than the package (g or ml) */
+  servingGrams?: number;
+  per100g: ProductNutrients;
+}
+
+/**
+ * Source of product data
+ * lookup resolves null when the product is unknown and rejects when the
+ * source could not be reached
+ */
+export interface ProductProvider {
+  name: string;
+  lookup: (code: string) => Promise<PackagedProduct | null>;
+}
+
+/**
+ * Provider backed by the dataset bundled with the app
+ */
+export function createOfflineProductProvider(
+  products: PackagedProduct[] = offlineProducts
+): ProductProvider {
+  const byCode = new Map(products.map((product) => [product.code, product]));
+  return {
+    name: 'offline',
+    lookup: async (code) => byCode.get(code) ?? null,
+  };
+}
+
+// Subset of an Open Food Facts v2 product response
+interface OpenFoodFactsResponse {
+  status?: number;
+  product?: {
+    code?: string;
+    product_name?: string;
+    brands?: string;
+    product_quantity?: number | string;
+    serving_quantity?: number | string;
+    nutriments?: Record<string, number | string | undefined>;
+  };
+}
+
+const OFF_FIELDS = 'code,product_name,brands,product_quantity,serving_quantity,nutriments';
+
+// Open Food Facts stores every nutriment in grams
+const MG_PER_G = 1000;
+const SALT_PER_SODIUM = 2.5;
+
+function toNumber(value: number | string | undefined): number | undefined {
+  const number = typeof value === 'string' ? Number.parseFloat(value) : value;
+  return number !== undefined && Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Like toNumber, but a listed zero is a known value
+ */
+function toAmount(value: number | string | undefined, factor = 1): number | undefined {
+  const number = typeof value === 'string' ? Number.parseFloat(value) : value;
+  return number !== undefined && Number.isFinite(number) && number >= 0 ? number * factor : undefined;
+}
+
+/**
+ * Provider backed by an Open Food Facts–compatible API
+ * @param baseUrl - Server root, e.g. https://world.openfoodfacts.org
+ */
+export function createHttpProductProvider(baseUrl: string): ProductProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+  return {
+    name: root,
+    lookup: async (code) => {
+      const response = await fetch(`${root}/api/v2/product/${code}?fields=${OFF_FIELDS}`, {
+        signal: AbortSignal.timeout(BARCODE_CONFIG.LOOKUP_TIMEOUT_MS),
+      });
+      // Open Food Facts answers unknown codes with 404 and status 0
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Product lookup failed: ${response.status} ${response.statusText}`);
+      }
+
+      const body = (await response.json()) as OpenFoodFactsResponse;
+      const product = body.product;
+      if (body.status === 0 || !product?.product_name) return null;
+
+      const nutriments = product.nutriments ?? {};
+      const nutrient = (key: string) => toNumber(nutriments[`${key}_100g`]) ?? 0;
+      const detail = (key: string, factor?: number) => toAmount(nutriments[`${key}_100g`], factor);
+      return {
+        code,
+        name: product.product_name,
+        brand: product.brands?.split(',')[0]?.trim() || undefined,
+        quantityGrams: toNumber(product.product_quantity),
+        servingGrams: toNumber(product.serving_quantity),
+        per100g: {
+          calories: nutrient('energy-kcal'),
+          protein: nutrient('proteins'),
+          carbs: nutrient('carbohydrates'),
+          fat: nutrient('fat'),
+          fiber: nutrient('fiber'),
+          sugars: detail('sugars'),
+          saturatedFat: detail('saturated-fat'),
+          salt: detail('salt') ?? detail('sodium', SALT_PER_SODIUM),
+          iron: detail('iron', MG_PER_G),
+          calcium: detail('calcium', MG_PER_G),
+          vitaminC: detail('vitamin-c', MG_PER_G),
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Providers configured for this build, in lookup order
+ */
+export function getProductProviders(): ProductProvider[] {
+  const providers = [createOfflineProductProvider()];
+  if (BARCODE_CONFIG.PRODUCT_API_URL) {
+    providers.push(createHttpProductProvider(BARCODE_CONFIG.PRODUCT_API_URL));
+  }
+  return providers;
+}
+
+/**
+ * Resolve a code through the providers, first match wins
+ * @returns The product, or null if no provider knows it
+ * @throws The last provider error, when a provider failed and none had the product
+ */
+export async function lookupProduct(
+  code: string,
+  providers: ProductProvider[] = getProductProviders()
+): Promise<PackagedProduct | null> {
+  let failure: unknown = null;
+  for (const provider of providers) {
+    try {
+      const product = await provider.lookup(code);
+      if (product) return product;
+    } catch (error) {
+      console.warn(`[Products] ${provider.name} lookup failed for ${code}:`, error);
+      failure = error;
+    }
+  }
+  if (failure) throw failure;
+  return null;
+}
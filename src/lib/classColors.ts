@@ -0,0 +1,15 @@
+/**
+ * Stable, well-spread color per class (golden-angle hue steps)
+ * Shared by the result overlay and the live camera overlay
+ */
+export function getClassColor(classId: number): [number, number, number] {
+  const hue = (classId * 137.508) % 360;
+  return hslToRgb(hue, 0.7, 0.5);
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)];
+}
@@ -1,11 +1,35 @@
 // Application constants
 
 export const APP_NAME = "NutriScan" as const;
-export const APP_DESCRIPTION = "Scanner nutritionnel" as const;
 
 // Scan configuration
 export const SCAN_DELAY_MS = 1500;
-export const MAX_HISTORY_ITEMS = 10;
+
+// Live scanning: frames are inferred continuously and a final scan is captured
+// once the detections hold still, which ends live mode. The frame rate follows the measured latency
+export const LIVE_SCAN_CONFIG = {
+  MIN_INTERVAL_MS: 200, // Fastest frame rate, even on quick backends
+  MAX_INTERVAL_MS: SCAN_DELAY_MS, // Slowest frame rate, on slow backends
+  LATENCY_FACTOR: 1.25, // Interval = smoothed latency × factor, leaves the worker some idle time
+  FRAME_MAX_SIDE: 480, // Live frames are downscaled; the final capture is full resolution
+  STABLE_FRAMES: 4, // Consecutive matching frames before the final capture
+  STABLE_IOU: 0.5, // Minimum box overlap for a detection to count as unchanged
+} as const;
+
+// Detection tracking across frames (live scanning)
+export const TRACKER_CONFIG = {
+  WINDOW_FRAMES: 8, // Observations averaged per track (class scores, weight)
+  MATCH_IOU: 0.3, // Minimum box overlap to continue a track
+  MAX_MISSED_FRAMES: 3, // Frames a track survives without a match (brief occlusion)
+} as const;
+
+// Scan history (IndexedDB) configuration
+export const HISTORY_CONFIG = {
+  DB_NAME: 'nutriscan',
+  DB_VERSION: 1,
+  PAGE_SIZE: 20, // Scans loaded per "load more"
+  THUMBNAIL_SIZE: 160, // Longest side of stored thumbnails, in px
+} as const;
 
 // Camera configuration
 export const CAMERA_CONFIG = {
@@ -29,6 +53,21 @@ export const NUTRIENT_LIMITS = {
   fiber: 15,
 } as const;
 
+// Daily journal targets
+export const TARGETS_CONFIG = {
+  STORAGE_KEY: 'nutriscan-targets',
+  DEFAULT_TARGETS: { calories: 2000, protein: 75, carbs: 250, fat: 78, fiber: 30 },
+  MACRO_ENERGY_SPLIT: { protein: 0.15, carbs: 0.5, fat: 0.35 }, // Share of daily energy
+  FIBER_PER_1000_KCAL: 14,
+} as const;
+
+// UI language: saved choice, otherwise the browser's preferred languages
+export const LOCALE_CONFIG = {
+  STORAGE_KEY: 'nutriscan-locale',
+  // BCP 47 tags used for number and date formatting
+  INTL_TAGS: { fr: 'fr-FR', en: 'en-GB' },
+} as const;
+
 // App URL configuration (for deployment)
 // Leave empty to auto-detect (works for both dev and production)
 // Or set via NEXT_PUBLIC_APP_URL env variable: 'https://your-domain.com'
@@ -36,13 +75,87 @@ export const APP_BASE_URL = typeof process !== 'undefined' && process.env?.NEXT_
   ? process.env.NEXT_PUBLIC_APP_URL
   : '';
 
+// Demo mode (opt-in): set NEXT_PUBLIC_DEMO_MODE=true to offer sample results
+// when inference fails. Demo results are labelled and never saved to history
+export const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+// ONNX Runtime asset configuration
+// Runtime files are self-hosted from public/onnxruntime-wasm (copied by `pnpm ort:assets`)
+// Set NEXT_PUBLIC_ORT_CDN_URL to load them from a CDN instead, e.g.
+// 'https://cdn.jsdelivr.net/npm/onnxruntime-web@{version}/dist/' ({version} is filled in)
+export const ORT_ASSETS_CONFIG = {
+  WASM_PATH: '/onnxruntime-wasm/',
+  MANIFEST_FILE: 'manifest.json',
+  CDN_URL: typeof process !== 'undefined' && process.env?.NEXT_PUBLIC_ORT_CDN_URL
+    ? process.env.NEXT_PUBLIC_ORT_CDN_URL
+    : '',
+} as const;
+
 // Inference configuration
 export const INFERENCE_CONFIG = {
   MODEL_PATH: '/models/best.onnx',
+  EXECUTION_PROVIDERS: ['webgpu', 'webgl', 'wasm'], // Fastest first, wasm as last resort
+  MAX_WASM_THREADS: 4,
   INPUT_SIZE: 640,
   CONFIDENCE_THRESHOLD: 0.25,
   IOU_THRESHOLD: 0.45,
   MAX_DETECTIONS: 100,
   MASK_THRESHOLD: 0.5,
-  PIXEL_RATIO: 30 / 640, // 30cm real world = 640px assumption
+  DEFAULT_FRAME_SIZE_CM: 30, // Uncalibrated fallback: a square frame of the same area spans 30cm
+  // Per-tensor/per-mask statistics in the console (slow); NEXT_PUBLIC_INFERENCE_DEBUG=true
+  DEBUG_STATS: process.env.NEXT_PUBLIC_INFERENCE_DEBUG === 'true',
+} as const;
+
+// Inference worker supervision: a crashed or hung worker is restarted and re-initialized
+export const WORKER_SUPERVISOR_CONFIG = {
+  MAX_RESTART_ATTEMPTS: 5, // Consecutive failed restarts before giving up (status 'failed')
+  INITIAL_BACKOFF_MS: 500, // Delay before the first restart, doubled on each failed attempt
+  MAX_BACKOFF_MS: 8000,
+  CANCEL_TIMEOUT_MS: 10000, // A cancelled INFER that gets no answer within this marks the worker as hung
+} as const;
+
+// Batch import: a temporary pool of inference workers processes several photos at once
+export const BATCH_CONFIG = {
+  MAX_FILES: 100, // Per import
+  MAX_WORKERS: 4,
+  WORKER_MEMORY_MB: 512, // Estimated footprint of one worker (runtime, model, tensors)
+  MEMORY_BUDGET_RATIO: 0.5, // Share of navigator.deviceMemory the pool may use
+  UNKNOWN_MEMORY_WORKERS: 2, // Pool size cap when the browser does not report memory
+} as const;
+
+// Barcode scanning of packaged foods
+// Products are looked up in the bundled dataset, then in an Open Food Facts–compatible API
+// if NEXT_PUBLIC_PRODUCT_API_URL is set (e.g. 'https://world.openfoodfacts.org', or the
+// local stub started by `pnpm stub:products`)
+export const BARCODE_CONFIG = {
+  SCAN_INTERVAL_MS: 250, // Delay between decoded camera frames
+  FRAME_MAX_SIDE: 960, // Camera frames are downscaled; bars must stay a few pixels wide
+  CONFIRM_FRAMES: 2, // Consecutive frames that must read the same code
+  SCANLINES: 24, // Rows sampled by the fallback decoder, around the middle of the image
+  LOOKUP_TIMEOUT_MS: 8000,
+  PRODUCT_API_URL: typeof process !== 'undefined' && process.env?.NEXT_PUBLIC_PRODUCT_API_URL
+    ? process.env.NEXT_PUBLIC_PRODUCT_API_URL
+    : '',
+} as const;
+
+// Scale calibration configuration
+export const CALIBRATION_CONFIG = {
+  CREDIT_CARD_WIDTH_CM: 8.56, // ISO/IEC 7810 ID-1
+  CREDIT_CARD_HEIGHT_CM: 5.398,
+  DEFAULT_COIN_DIAMETER_CM: 2.325, // 1 € coin
+  DEFAULT_PLATE_DIAMETER_CM: 26,
+  ANALYSIS_SIZE: 320, // Longest side of the downscaled image used for reference search
+  MIN_REFERENCE_AREA_RATIO: 0.002, // Ignore blobs smaller than 0.2% of the frame
+} as const;
+
+// Progressive Web App configuration
+// Model cache names embed MODEL_PATH and the model hash from MODEL_MANIFEST_PATH
+// (written by `pnpm model:manifest`): a new path or a retrained model invalidates the old cache.
+// The shell cache is named after BUILD_ID (set in next.config.ts), so each deploy gets a fresh shell
+export const PWA_CONFIG = {
+  SW_PATH: '/sw.js',
+  BUILD_ID: process.env.NEXT_PUBLIC_BUILD_ID || 'dev',
+  MODEL_CACHE_PREFIX: 'nutriscan-model-',
+  MODEL_CACHE_NAME: `nutriscan-model-${INFERENCE_CONFIG.MODEL_PATH}`, // Suffixed with @<sha256>
+  MODEL_MANIFEST_PATH: '/models/manifest.json',
 } as const;
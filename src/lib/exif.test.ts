@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { readCaptureTime } from './exif';
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+type Tags = Record<number, string>;
+
+/**
+ * Build a TIFF block with ASCII tags in IFD0 and, if given, in an Exif IFD
+ * Strings longer than 4 bytes go to a data area after the IFDs, as cameras write them
+ */
+function buildTiff(ifd0: Tags, exif: Tags | null, littleEndian: boolean): Uint8Array<ArrayBuffer> {
+  const ifd0Entries = Object.keys(ifd0).length + (exif ? 1 : 0);
+  const exifEntries = exif ? Object.keys(exif).length : 0;
+  const ifd0Start = 8;
+  const exifStart = ifd0Start + 2 + ifd0Entries * 12 + 4;
+  let dataOffset = exifStart + (exif ? 2 + exifEntries * 12 + 4 : 0);
+
+  const bytes = new Uint8Array(1024);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, ifd0Start, littleEndian);
+
+  const writeIfd = (start: number, tags: Tags, exifPointer: number | null) => {
+    const entries = Object.entries(tags);
+    view.setUint16(start, entries.length + (exifPointer === null ? 0 : 1), littleEndian);
+    let entry = start + 2;
+    for (const [tag, text] of entries) {
+      const value = [...text].map((char) => char.charCodeAt(0)).concat(0);
+      view.setUint16(entry, Number(tag), littleEndian);
+      view.setUint16(entry + 2, 2, littleEndian); // ASCII
+      view.setUint32(entry + 4, value.length, littleEndian);
+      if (value.length > 4) {
+        view.setUint32(entry + 8, dataOffset, littleEndian);
+        bytes.set(value, dataOffset);
+        dataOffset += value.length;
+      } else {
+        bytes.set(value, entry + 8);
+      }
+      entry += 12;
+    }
+    if (exifPointer !== null) {
+      view.setUint16(entry, TAG_EXIF_IFD, littleEndian);
+      view.setUint16(entry + 2, 4, littleEndian); // LONG
+      view.setUint32(entry + 4, 1, littleEndian);
+      view.setUint32(entry + 8, exifPointer, littleEndian);
+    }
+  };
+
+  writeIfd(ifd0Start, ifd0, exif ? exifStart : null);
+  if (exif) writeIfd(exifStart, exif, null);
+  return bytes.slice(0, dataOffset);
+}
+
+/**
+ * JPEG with a JFIF APP0 segment before the EXIF APP1 one, then the image data marker
+ */
+function buildJpeg({
+  ifd0 = {},
+  exif = null,
+  littleEndian = true,
+}: {
+  ifd0?: Tags;
+  exif?: Tags | null;
+  littleEndian?: boolean;
+}): Blob {
+  const tiff = buildTiff(ifd0, exif, littleEndian);
+  // "JFIF\0", version 1.1, no density unit, 1x1 density, no thumbnail
+  const app0 = [0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0];
+  const app1Size = 2 + 6 + tiff.length;
+  const app1 = [0xff, 0xe1, app1Size >> 8, app1Size & 0xff, 0x45, 0x78, 0x69, 0x66, 0, 0]; // "Exif\0\0"
+  return new Blob([
+    new Uint8Array([0xff, 0xd8, ...app0, ...app1]),
+    tiff,
+    new Uint8Array([0xff, 0xda, 0x00, 0x02]),
+  ]);
+}
+
+describe('readCaptureTime', () => {
+  const LOCAL_TIME = new Date(2024, 5, 14, 12, 30, 45).getTime();
+
+  it('reads DateTimeOriginal from a little-endian (Intel) header, in local time', async () => {
+    const file = buildJpeg({ exif: { [TAG_DATE_TIME_ORIGINAL]: '2024:06:14 12:30:45' } });
+    expect(await readCaptureTime(file)).toBe(LOCAL_TIME);
+  });
+
+  it('reads DateTimeOriginal from a big-endian (Motorola) header', async () => {
+    const file = buildJpeg({ exif: { [TAG_DATE_TIME_ORIGINAL]: '2024:06:14 12:30:45' }, littleEndian: false });
+    expect(await readCaptureTime(file)).toBe(LOCAL_TIME);
+  });
+
+  it('applies OffsetTimeOriginal', async () => {
+    const east = buildJpeg({
+      exif: { [TAG_DATE_TIME_ORIGINAL]: '2024:06:14 12:30:45', [TAG_OFFSET_TIME_ORIGINAL]: '+02:00' },
+    });
+    expect(await readCaptureTime(east)).toBe(Date.UTC(2024, 5, 14, 10, 30, 45));
+
+    const west = buildJpeg({
+      exif: { [TAG_DATE_TIME_ORIGINAL]: '2024:06:14 12:30:45', [TAG_OFFSET_TIME_ORIGINAL]: '-05:30' },
+      littleEndian: false,
+    });
+    expect(await readCaptureTime(west)).toBe(Date.UTC(2024, 5, 14, 18, 0, 45));
+  });
+
+  it('treats the all-zero date as unknown', async () => {
+    const file = buildJpeg({ exif: { [TAG_DATE_TIME_ORIGINAL]: '0000:00:00 00:00:00' } });
+    expect(await readCaptureTime(file)).toBeNull();
+  });
+
+  it('falls back to the IFD0 DateTime without DateTimeOriginal', async () => {
+    const withoutExifIfd = buildJpeg({ ifd0: { [TAG_DATE_TIME]: '2024:06:14 12:30:45' } });
+    expect(await readCaptureTime(withoutExifIfd)).toBe(LOCAL_TIME);
+
+    const preferOriginal = buildJpeg({
+      ifd0: { [TAG_DATE_TIME]: '2025:01:01 08:00:00' },
+      exif: { [TAG_DATE_TIME_ORIGINAL]: '2024:06:14 12:30:45' },
+    });
+    expect(await readCaptureTime(preferOriginal)).toBe(LOCAL_TIME);
+  });
+
+  it('returns null for files without EXIF', async () => {
+    expect(await readCaptureTime(buildJpeg({}))).toBeNull();
+    const png = new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])]);
+    expect(await readCaptureTime(png)).toBeNull();
+    const jfifOnly = new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02])]);
+    expect(await readCaptureTime(jfifOnly)).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * EXIF capture time
+ * Minimal JPEG EXIF reader: only DateTimeOriginal (and its UTC offset) is
+ * extracted, so imported photos land in history at the time they were taken
+ */
+
+// Only the APP1 segment is needed; it sits at the start of the file
+const HEADER_BYTES = 128 * 1024;
+
+const MARKER_SOI = 0xffd8;
+const MARKER_APP1 = 0xffe1;
+const MARKER_SOS = 0xffda;
+
+const TAG_DATE_TIME = 0x0132; // IFD0, last modification
+const TAG_EXIF_IFD = 0x8769; // IFD0, pointer to the Exif IFD
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011; // e.g. "+02:00", EXIF 2.31+
+
+const TYPE_ASCII = 2;
+
+/**
+ * Read when a photo was taken
+ * @param file - Image file (only JPEG carries EXIF here; other formats return null)
+ * @returns Capture time (ms since epoch), or null if absent or unreadable
+ */
+export async function readCaptureTime(file: Blob): Promise<number | null> {
+  try {
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    const tiffStart = findExifTiffHeader(view);
+    if (tiffStart === null) return null;
+    return readTiffCaptureTime(view, tiffStart);
+  } catch (error) {
+    console.warn('[EXIF] Could not read capture time:', error);
+    return null;
+  }
+}
+
+/**
+ * Walk the JPEG segments up to the image data, looking for "Exif\0\0" in APP1
+ * @returns Offset of the TIFF header, or null
+ */
+function findExifTiffHeader(view: DataView): number | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== MARKER_SOI) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === MARKER_SOS) return null;
+    const size = view.getUint16(offset + 2);
+    if (
+      marker === MARKER_APP1 &&
+      offset + 10 <= view.byteLength &&
+      view.getUint32(offset + 4) === 0x45786966 && // "Exif"
+      view.getUint16(offset + 8) === 0
+    ) {
+      return offset + 10;
+    }
+    offset += 2 + size;
+  }
+  return null;
+}
+
+function readTiffCaptureTime(view: DataView, tiffStart: number): number | null {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949; // "II"
+  const ifd0 = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+
+  const ifd0Tags = readIfdTags(view, tiffStart, ifd0, littleEndian);
+  const exifPointer = ifd0Tags.get(TAG_EXIF_IFD);
+  const exifTags =
+    typeof exifPointer === 'number'
+      ? readIfdTags(view, tiffStart, tiffStart + exifPointer, littleEndian)
+      : new Map<number, string | number>();
+
+  const original = exifTags.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0Tags.get(TAG_DATE_TIME);
+  if (typeof original !== 'string') return null;
+  const offset = exifTags.get(TAG_OFFSET_TIME_ORIGINAL);
+  return parseExifDate(original, typeof offset === 'string' ? offset : null);
+}
+
+/**
+ * Read the tags of one IFD: ASCII values as strings, others as their first 32-bit value
+ */
+function readIfdTags(
+  view: DataView,
+  tiffStart: number,
+  ifdStart: number,
+  littleEndian: boolean
+): Map<number, string | number> {
+  const tags = new Map<number, string | number>();
+  if (ifdStart + 2 > view.byteLength) return tags;
+
+  const count = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const length = view.getUint32(entry + 4, littleEndian);
+
+    if (type === TYPE_ASCII) {
+      // Values longer than 4 bytes are stored at an offset from the TIFF header
+      const start = length > 4 ? tiffStart + view.getUint32(entry + 8, littleEndian) : entry + 8;
+      if (start + length > view.byteLength) continue;
+      let text = '';
+      for (let j = 0; j < length; j++) {
+        const code = view.getUint8(start + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text);
+    } else {
+      tags.set(tag, view.getUint32(entry + 8, littleEndian));
+    }
+  }
+  return tags;
+}
+
+/**
+ * Parse "YYYY:MM:DD HH:MM:SS", in local time unless a "+HH:MM" offset is given
+ */
+function parseExifDate(value: string, offset: string | null): number | null {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  if (year === 0) return null; // "0000:00:00 00:00:00" means unknown
+
+  const offsetMatch = offset?.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (offsetMatch) {
+    const sign = offsetMatch[1] === '-' ? -1 : 1;
+    const offsetMs = sign * (Number(offsetMatch[2]) * 60 + Number(offsetMatch[3])) * 60_000;
+    return Date.UTC(year, month - 1, day, hours, minutes, seconds) - offsetMs;
+  }
+  return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+}
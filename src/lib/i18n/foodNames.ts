@@ -0,0 +1,54 @@
+/**
+ * Localised food names
+ * The food database holds the French names (also stored in history); other
+ * locales are keyed by class ID so renamed or saved rows translate too
+ */
+
+import { getFoodInfo, isValidClassId } from '../inference/foodDatabase';
+import type { Locale } from './locale';
+
+const FOOD_NAMES_EN: Record<number, string> = {
+  0: 'Rice',
+  1: 'Bread',
+  2: 'Egg',
+  3: 'Chicken',
+  4: 'Pork',
+  5: 'Steak',
+  6: 'Fish',
+  7: 'Shrimp',
+  8: 'Sausage',
+  9: 'Tofu',
+  10: 'Noodles',
+  11: 'Pasta',
+  12: 'Pizza',
+  13: 'Hamburger',
+  14: 'French fries',
+  15: 'Potato',
+  16: 'Soup',
+  17: 'Sauce',
+  18: 'Eggplant',
+  19: 'Spinach',
+  20: 'Cabbage',
+  21: 'Mixed vegetables',
+  22: 'Dumplings',
+  23: 'Fried meat',
+  24: 'Salad',
+  25: 'Cheese',
+  26: 'Soy beans / Natto',
+  27: 'Beverage',
+  28: 'Pepper',
+  29: 'Carrot',
+  30: 'Cake',
+  31: 'Onion',
+};
+
+/**
+ * Name of a food in the given locale
+ * @param classId - Food class ID; rows without one keep their own name
+ * @param fallback - Name to show for rows outside the database (e.g. demo samples)
+ */
+export function getFoodName(classId: number | undefined, locale: Locale, fallback: string): string {
+  if (classId === undefined || !isValidClassId(classId)) return fallback;
+  if (locale === 'en') return FOOD_NAMES_EN[classId] ?? fallback;
+  return getFoodInfo(classId).name;
+}
@@ -0,0 +1,89 @@
+/**
+ * UI Locale
+ * French or English, picked from the browser languages on first visit and
+ * saved in localStorage; numbers and dates are formatted for the locale
+ */
+
+import { LOCALE_CONFIG } from '../constants';
+
+export type Locale = 'fr' | 'en';
+
+export const LOCALES: readonly Locale[] = ['fr', 'en'];
+
+/** Locale rendered on the server and before the saved choice is read */
+export const DEFAULT_LOCALE: Locale = 'fr';
+
+function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * First supported locale among the browser's preferred languages
+ */
+function detectLocale(): Locale {
+  if (typeof navigator === 'undefined') return DEFAULT_LOCALE;
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+let cachedLocale: Locale | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Load the saved locale, falling back to the browser languages
+ * Cached so it can serve as a useSyncExternalStore snapshot
+ */
+export function loadLocale(): Locale {
+  if (cachedLocale) return cachedLocale;
+  if (typeof localStorage === 'undefined') return DEFAULT_LOCALE;
+  try {
+    const saved = localStorage.getItem(LOCALE_CONFIG.STORAGE_KEY);
+    cachedLocale = isLocale(saved) ? saved : detectLocale();
+  } catch (error) {
+    console.warn('[Locale] Failed to load locale:', error);
+    cachedLocale = detectLocale();
+  }
+  return cachedLocale;
+}
+
+/**
+ * Persist the locale and notify subscribers
+ */
+export function saveLocale(locale: Locale): void {
+  cachedLocale = locale;
+  try {
+    localStorage.setItem(LOCALE_CONFIG.STORAGE_KEY, locale);
+  } catch (error) {
+    console.warn('[Locale] Failed to save locale:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to locale changes (useSyncExternalStore contract)
+ * @returns Unsubscribe function
+ */
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * BCP 47 tag for Intl formatting
+ */
+export function getIntlTag(locale: Locale): string {
+  return LOCALE_CONFIG.INTL_TAGS[locale];
+}
+
+/**
+ * Format a number with the locale's separators ("1 234,5" / "1,234.5")
+ * @param maximumFractionDigits - Decimals kept (default 0)
+ */
+export function formatNumber(value: number, locale: Locale, maximumFractionDigits = 0): string {
+  return new Intl.NumberFormat(getIntlTag(locale), { maximumFractionDigits }).format(value);
+}
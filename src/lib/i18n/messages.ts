@@ -0,0 +1,581 @@
+/**
+ * UI Messages
+ * One dictionary per locale; French is the reference and fixes the shape,
+ * so a missing English string fails the type-check
+ */
+
+import type {
+  InferenceErrorCode,
+  InferenceMessageCode,
+  ReferenceObject,
+  WorkerHealthStatus,
+} from '../inference/types';
+import type { ActivityLevel } from '../nutritionTargets';
+import type { NutriScoreComponent } from '../nutriScore';
+import type { Locale } from './locale';
+
+interface ErrorCopy {
+  title: string;
+  description: string;
+  retry: string;
+}
+
+const plural = (count: number, suffix = 's') => (count > 1 ? suffix : '');
+
+const fr = {
+  app: {
+    description: 'Scanner nutritionnel',
+  },
+  language: {
+    label: 'Langue',
+    switchTo: 'Switch to English',
+  },
+  health: {
+    status: {
+      starting: 'Démarrage',
+      ready: 'Prêt',
+      degraded: 'Redémarrage',
+      failed: 'Arrêté',
+    } satisfies Record<WorkerHealthStatus, string>,
+    restarts: (count: number) => `${count} redémarrage${plural(count)}`,
+  },
+  tabs: {
+    camera: 'Caméra',
+    upload: 'Importer',
+    barcode: 'Code-barres',
+  },
+  nutrients: {
+    calories: 'Calories',
+    protein: 'Protéines',
+    carbs: 'Glucides',
+    fat: 'Lipides',
+    fiber: 'Fibres',
+    sugars: 'dont sucres',
+    saturatedFat: 'dont acides gras saturés',
+    salt: 'Sel',
+    iron: 'Fer',
+    calcium: 'Calcium',
+    vitaminC: 'Vitamine C',
+    // Abbreviations in compact summaries
+    proteinShort: 'P',
+    carbsShort: 'G',
+    fatShort: 'L',
+    overTarget: (amount: string) => `Objectif dépassé de ${amount}`,
+  },
+  camera: {
+    enableTitle: 'Activez la caméra',
+    enableHint: 'Pointez votre caméra vers un aliment pour scanner ses nutriments',
+    enable: 'Activer la caméra',
+    stop: 'Couper la caméra',
+    live: 'En direct',
+    liveStart: 'Scan en direct',
+    liveStop: 'Arrêter le scan en direct',
+    stability: (frames: number, total: number) => `Stabilité ${frames}/${total}`,
+    scan: 'Scanner',
+    scanning: 'Analyse...',
+    errors: {
+      unsupported: "L'accès à la caméra n'est pas supporté par ce navigateur.",
+      permissionDenied: "Permission refusée. Autorisez l'accès à la caméra.",
+      notFound: 'Aucune caméra trouvée sur cet appareil.',
+      inUse: 'Caméra déjà utilisée par une autre application.',
+      unknown: "Impossible d'accéder à la caméra.",
+    },
+  },
+  uploader: {
+    title: 'Importer une image',
+    hint: "Sélectionnez une photo d'un aliment depuis votre appareil",
+    hintMultiple: 'Sélectionnez une ou plusieurs photos de repas depuis votre appareil',
+    selectOne: 'Sélectionner une image',
+    selectMany: 'Sélectionner des images',
+    importFolder: 'Importer un dossier',
+    previewAlt: 'Aperçu',
+    clear: "Retirer l'image",
+    analyze: 'Analyser',
+    analyzing: 'Analyse...',
+    processing: 'Analyse en cours...',
+    invalidType: 'Veuillez sélectionner un fichier image (JPEG, PNG, etc.)',
+    tooLarge: (maxMb: number) => `Le fichier est trop volumineux. Taille maximale : ${maxMb} Mo`,
+    noUsableImages: (maxMb: number) =>
+      `Aucune image exploitable dans la sélection (JPEG, PNG, etc., ${maxMb} Mo max)`,
+  },
+  barcode: {
+    enableTitle: 'Scannez un produit emballé',
+    enableHint: 'Visez le code-barres (EAN-13 ou UPC) ou importez-en une photo',
+    enable: 'Activer la caméra',
+    stop: 'Couper la caméra',
+    aiming: "Recherche d'un code-barres...",
+    importImage: 'Photo du code-barres',
+    manualLabel: 'Saisir le code-barres',
+    manualPlaceholder: '12 ou 13 chiffres',
+    search: 'Rechercher',
+    searching: (code: string) => `Recherche du produit ${code}...`,
+    errors: {
+      invalidCode: 'Code invalide : saisissez les 12 ou 13 chiffres sous le code-barres.',
+      unreadable: 'Aucun code-barres lisible sur cette image.',
+      notFound: 'Produit inconnu de la base.',
+      lookupFailed: 'La recherche du produit a échoué. Vérifiez votre connexion.',
+    },
+  },
+  modelDownload: {
+    title: 'Téléchargement du modèle',
+    megabytes: 'Mo',
+    offlineHint: 'disponible hors ligne ensuite',
+  },
+  errors: {
+    MODEL_LOAD_FAILED: {
+      title: "Le modèle n'a pas pu être chargé",
+      description: 'Vérifiez votre connexion lors du premier lancement, puis réessayez.',
+      retry: 'Recharger le modèle',
+    },
+    MODEL_INCOMPATIBLE: {
+      title: 'Modèle incompatible',
+      description:
+        "Les classes du modèle ne correspondent pas à la base d'aliments. Mettez à jour le modèle ou la base.",
+      retry: 'Réessayer',
+    },
+    TIMEOUT: {
+      title: "L'analyse a pris trop de temps",
+      description: "Le moteur d'analyse ne répond plus. Il va être redémarré.",
+      retry: "Redémarrer l'analyse",
+    },
+    DECODE_FAILED: {
+      title: 'Image illisible',
+      description: "Ce fichier n'a pas pu être lu. Essayez une autre photo (JPEG ou PNG).",
+      retry: 'Choisir une autre image',
+    },
+    WORKER_CRASHED: {
+      title: "Le moteur d'analyse s'est arrêté",
+      description: "Cela peut arriver si l'appareil manque de mémoire.",
+      retry: "Redémarrer l'analyse",
+    },
+    INFERENCE_FAILED: {
+      title: "L'analyse a échoué",
+      description: "Une erreur inattendue est survenue pendant l'analyse.",
+      retry: "Redémarrer l'analyse",
+    },
+    CANCELLED: {
+      title: 'Analyse annulée',
+      description: "L'analyse a été interrompue avant la fin.",
+      retry: 'Réessayer',
+    },
+  } satisfies Record<InferenceErrorCode, ErrorCopy>,
+  showDemo: 'Exemple (démo)',
+  inferenceMessages: {
+    NO_DETECTIONS: 'Aucun aliment détecté. Rapprochez-vous ou ajoutez-le manuellement.',
+  } satisfies Record<InferenceMessageCode, string>,
+  result: {
+    totalCalories: 'Calories totales (kcal)',
+    demo: 'Démo — valeurs fictives, non enregistrées',
+    noDetections: 'Aucun aliment détecté. Ajoutez-le manuellement.',
+    addForgotten: 'Ajouter un aliment oublié',
+    edit: (name: string) => `Corriger ${name}`,
+    remove: (name: string) => `Supprimer ${name}`,
+    close: 'Fermer',
+    details: 'Détail nutritionnel',
+    unknownValue: 'n.d.',
+    partialValue: (missing: number) =>
+      `Valeur minimale : ${missing} aliment${plural(missing)} sans donnée`,
+    sources: 'Sources des valeurs',
+    sourceManual: 'saisie manuelle, sans source',
+    sourceCiqual: (version: string, date: string) => `ANSES ${version} du ${date}`,
+    calibration: {
+      reference: (reference: string) => `Échelle : ${reference} détectée`,
+      line: 'Échelle : trait de référence',
+      referenceNotFound: 'Référence introuvable — poids estimés',
+      none: 'Sans référence — poids estimés',
+    },
+    references: {
+      credit_card: 'carte bancaire',
+      coin: 'pièce',
+      plate: 'assiette',
+    } satisfies Record<ReferenceObject['kind'], string>,
+  },
+  nutriScore: {
+    label: (grade: string) => `Nutri-Score ${grade}`,
+    estimate: 'Estimation, des valeurs manquent',
+    breakdown: 'Ce qui détermine la note',
+    score: (score: number) => `Score ${score}`,
+    negative: 'Points défavorables',
+    positive: 'Points favorables',
+    points: (points: number, max: number) => `${points}/${max}`,
+    notCounted: 'non comptées : trop de points défavorables',
+    redMeatCap: 'plafonnées : viande rouge',
+    incomplete: 'valeurs manquantes',
+    per100g: 'pour 100 g',
+    day: 'Nutri-Score de la journée',
+    components: {
+      energy: 'Énergie',
+      sugars: 'Sucres',
+      saturatedFat: 'Acides gras saturés',
+      salt: 'Sel',
+      protein: 'Protéines',
+      fiber: 'Fibres',
+      fruitVegetables: 'Fruits, légumes, légumineuses',
+    } satisfies Record<NutriScoreComponent, string>,
+  },
+  editor: {
+    food: 'Aliment',
+    portion: 'Portion',
+    weightGrams: 'Poids en grammes',
+    cancel: 'Annuler',
+    validate: 'Valider',
+    add: 'Ajouter',
+  },
+  segmentation: {
+    label: 'Aliments segmentés — touchez une zone pour la mettre en évidence',
+  },
+  calibration: {
+    title: "Référence d'échelle",
+    options: {
+      none: 'Aucune',
+      credit_card: 'Carte',
+      coin: 'Pièce',
+      plate: 'Assiette',
+      line: 'Règle',
+    },
+    lineLength: 'Longueur du trait',
+    diameter: 'Diamètre',
+    lineHint: "Tracez un trait sur l'image le long d'un objet de longueur connue.",
+  },
+  journal: {
+    title: 'Journal du jour',
+    editTargets: 'Modifier les objectifs',
+    mealsLogged: (count: number) => `${count} repas enregistré${plural(count)}`,
+    remaining: (kcal: string) => `Reste ${kcal} kcal`,
+    manualMode: 'Objectifs manuels',
+    profileMode: 'Calculés depuis mon profil',
+    age: 'Âge',
+    ageUnit: 'ans',
+    weight: 'Poids',
+    height: 'Taille',
+    sex: 'Sexe',
+    female: 'Femme',
+    male: 'Homme',
+    activity: 'Activité',
+    activityLevels: {
+      sedentary: 'Sédentaire',
+      light: 'Légère',
+      moderate: 'Modérée',
+      active: 'Active',
+      very_active: 'Très active',
+    } satisfies Record<ActivityLevel, string>,
+    estimated: (kcal: string) => `Objectif estimé : ${kcal} kcal / jour`,
+    save: 'Enregistrer',
+  },
+  history: {
+    title: 'Historique des scans',
+    today: "Aujourd'hui",
+    yesterday: 'Hier',
+    editMeal: 'Modifier le repas',
+    finishEditing: 'Terminer la modification',
+    deleteMeal: 'Supprimer le repas',
+    loadMore: 'Voir plus',
+    errors: {
+      loadFailed: "Impossible de charger l'historique.",
+      saveFailed: "Le scan n'a pas pu être enregistré.",
+      updateFailed: "La modification n'a pas pu être enregistrée.",
+      deleteFailed: 'La suppression a échoué.',
+    },
+  },
+  batch: {
+    running: 'Import des photos',
+    finished: 'Import terminé',
+    summary: (done: number, total: number, saved: number) =>
+      `${done} / ${total} photos — ${saved} repas enregistré${plural(saved)}`,
+    parallel: (workers: number) => `${workers} analyse${plural(workers)} en parallèle`,
+    stop: 'Arrêter',
+    close: 'Fermer',
+    startFailed: (title: string) => `Impossible de démarrer l'analyse : ${title}`,
+    status: {
+      queued: 'En attente',
+      processing: 'Analyse...',
+      done: 'Enregistré',
+      empty: 'Aucun aliment',
+      failed: 'Échec',
+      cancelled: 'Annulé',
+    },
+  },
+};
+
+export type Messages = typeof fr;
+
+const en: Messages = {
+  app: {
+    description: 'Nutrition scanner',
+  },
+  language: {
+    label: 'Language',
+    switchTo: 'Passer en français',
+  },
+  health: {
+    status: {
+      starting: 'Starting',
+      ready: 'Ready',
+      degraded: 'Restarting',
+      failed: 'Stopped',
+    },
+    restarts: (count: number) => `${count} restart${plural(count)}`,
+  },
+  tabs: {
+    camera: 'Camera',
+    upload: 'Import',
+    barcode: 'Barcode',
+  },
+  nutrients: {
+    calories: 'Calories',
+    protein: 'Protein',
+    carbs: 'Carbs',
+    fat: 'Fat',
+    fiber: 'Fibre',
+    sugars: 'of which sugars',
+    saturatedFat: 'of which saturates',
+    salt: 'Salt',
+    iron: 'Iron',
+    calcium: 'Calcium',
+    vitaminC: 'Vitamin C',
+    proteinShort: 'P',
+    carbsShort: 'C',
+    fatShort: 'F',
+    overTarget: (amount: string) => `Over target by ${amount}`,
+  },
+  camera: {
+    enableTitle: 'Turn on the camera',
+    enableHint: 'Point your camera at some food to scan its nutrients',
+    enable: 'Turn on camera',
+    stop: 'Turn off camera',
+    live: 'Live',
+    liveStart: 'Live scan',
+    liveStop: 'Stop live scan',
+    stability: (frames: number, total: number) => `Stability ${frames}/${total}`,
+    scan: 'Scan',
+    scanning: 'Analysing...',
+    errors: {
+      unsupported: 'Camera access is not supported by this browser.',
+      permissionDenied: 'Permission denied. Allow camera access.',
+      notFound: 'No camera found on this device.',
+      inUse: 'The camera is already in use by another app.',
+      unknown: 'Unable to access the camera.',
+    },
+  },
+  uploader: {
+    title: 'Import an image',
+    hint: 'Choose a photo of some food from your device',
+    hintMultiple: 'Choose one or more meal photos from your device',
+    selectOne: 'Choose an image',
+    selectMany: 'Choose images',
+    importFolder: 'Import a folder',
+    previewAlt: 'Preview',
+    clear: 'Remove image',
+    analyze: 'Analyse',
+    analyzing: 'Analysing...',
+    processing: 'Analysing...',
+    invalidType: 'Please choose an image file (JPEG, PNG, etc.)',
+    tooLarge: (maxMb: number) => `The file is too large. Maximum size: ${maxMb} MB`,
+    noUsableImages: (maxMb: number) =>
+      `No usable image in the selection (JPEG, PNG, etc., ${maxMb} MB max)`,
+  },
+  barcode: {
+    enableTitle: 'Scan a packaged product',
+    enableHint: 'Point at the barcode (EAN-13 or UPC) or upload a photo of it',
+    enable: 'Turn on camera',
+    stop: 'Turn off camera',
+    aiming: 'Looking for a barcode...',
+    importImage: 'Barcode photo',
+    manualLabel: 'Enter the barcode',
+    manualPlaceholder: '12 or 13 digits',
+    search: 'Search',
+    searching: (code: string) => `Looking up product ${code}...`,
+    errors: {
+      invalidCode: 'Invalid code: enter the 12 or 13 digits under the barcode.',
+      unreadable: 'No readable barcode in this image.',
+      notFound: 'This product is not in the database.',
+      lookupFailed: 'The product lookup failed. Check your connection.',
+    },
+  },
+  modelDownload: {
+    title: 'Downloading the model',
+    megabytes: 'MB',
+    offlineHint: 'available offline afterwards',
+  },
+  errors: {
+    MODEL_LOAD_FAILED: {
+      title: 'The model could not be loaded',
+      description: 'Check your connection on first launch, then try again.',
+      retry: 'Reload the model',
+    },
+    MODEL_INCOMPATIBLE: {
+      title: 'Incompatible model',
+      description:
+        "The model's classes do not match the food database. Update the model or the database.",
+      retry: 'Try again',
+    },
+    TIMEOUT: {
+      title: 'The analysis took too long',
+      description: 'The analysis engine stopped responding. It will be restarted.',
+      retry: 'Restart the analysis',
+    },
+    DECODE_FAILED: {
+      title: 'Unreadable image',
+      description: 'This file could not be read. Try another photo (JPEG or PNG).',
+      retry: 'Choose another image',
+    },
+    WORKER_CRASHED: {
+      title: 'The analysis engine stopped',
+      description: 'This can happen when the device runs low on memory.',
+      retry: 'Restart the analysis',
+    },
+    INFERENCE_FAILED: {
+      title: 'The analysis failed',
+      description: 'An unexpected error occurred during the analysis.',
+      retry: 'Restart the analysis',
+    },
+    CANCELLED: {
+      title: 'Analysis cancelled',
+      description: 'The analysis was interrupted before it finished.',
+      retry: 'Try again',
+    },
+  },
+  showDemo: 'Sample (demo)',
+  inferenceMessages: {
+    NO_DETECTIONS: 'No food detected. Move closer or add it manually.',
+  },
+  result: {
+    totalCalories: 'Total calories (kcal)',
+    demo: 'Demo — sample values, not saved',
+    noDetections: 'No food detected. Add it manually.',
+    addForgotten: 'Add a missing food',
+    edit: (name: string) => `Correct ${name}`,
+    remove: (name: string) => `Remove ${name}`,
+    close: 'Close',
+    details: 'Nutrition details',
+    unknownValue: 'n/a',
+    partialValue: (missing: number) =>
+      `Lower bound: no data for ${missing} food${plural(missing)}`,
+    sources: 'Value sources',
+    sourceManual: 'typed by hand, no source',
+    sourceCiqual: (version: string, date: string) => `ANSES ${version} of ${date}`,
+    calibration: {
+      reference: (reference: string) => `Scale: ${reference} detected`,
+      line: 'Scale: reference line',
+      referenceNotFound: 'Reference not found — estimated weights',
+      none: 'No reference — estimated weights',
+    },
+    references: {
+      credit_card: 'bank card',
+      coin: 'coin',
+      plate: 'plate',
+    },
+  },
+  nutriScore: {
+    label: (grade: string) => `Nutri-Score ${grade}`,
+    estimate: 'Estimate, some values are missing',
+    breakdown: 'What drives the grade',
+    score: (score: number) => `Score ${score}`,
+    negative: 'Unfavourable points',
+    positive: 'Favourable points',
+    points: (points: number, max: number) => `${points}/${max}`,
+    notCounted: 'not counted: too many unfavourable points',
+    redMeatCap: 'capped: red meat',
+    incomplete: 'missing values',
+    per100g: 'per 100 g',
+    day: "Today's Nutri-Score",
+    components: {
+      energy: 'Energy',
+      sugars: 'Sugars',
+      saturatedFat: 'Saturated fat',
+      salt: 'Salt',
+      protein: 'Protein',
+      fiber: 'Fibre',
+      fruitVegetables: 'Fruit, vegetables, legumes',
+    },
+  },
+  editor: {
+    food: 'Food',
+    portion: 'Portion',
+    weightGrams: 'Weight in grams',
+    cancel: 'Cancel',
+    validate: 'Apply',
+    add: 'Add',
+  },
+  segmentation: {
+    label: 'Segmented foods — tap an area to highlight it',
+  },
+  calibration: {
+    title: 'Scale reference',
+    options: {
+      none: 'None',
+      credit_card: 'Card',
+      coin: 'Coin',
+      plate: 'Plate',
+      line: 'Ruler',
+    },
+    lineLength: 'Line length',
+    diameter: 'Diameter',
+    lineHint: 'Draw a line on the image along an object of known length.',
+  },
+  journal: {
+    title: "Today's journal",
+    editTargets: 'Edit targets',
+    mealsLogged: (count: number) => `${count} meal${plural(count)} logged`,
+    remaining: (kcal: string) => `${kcal} kcal left`,
+    manualMode: 'Manual targets',
+    profileMode: 'From my profile',
+    age: 'Age',
+    ageUnit: 'yrs',
+    weight: 'Weight',
+    height: 'Height',
+    sex: 'Sex',
+    female: 'Female',
+    male: 'Male',
+    activity: 'Activity',
+    activityLevels: {
+      sedentary: 'Sedentary',
+      light: 'Light',
+      moderate: 'Moderate',
+      active: 'Active',
+      very_active: 'Very active',
+    },
+    estimated: (kcal: string) => `Estimated target: ${kcal} kcal / day`,
+    save: 'Save',
+  },
+  history: {
+    title: 'Scan history',
+    today: 'Today',
+    yesterday: 'Yesterday',
+    editMeal: 'Edit meal',
+    finishEditing: 'Done editing',
+    deleteMeal: 'Delete meal',
+    loadMore: 'Show more',
+    errors: {
+      loadFailed: 'Could not load the history.',
+      saveFailed: 'The scan could not be saved.',
+      updateFailed: 'The change could not be saved.',
+      deleteFailed: 'Deletion failed.',
+    },
+  },
+  batch: {
+    running: 'Importing photos',
+    finished: 'Import finished',
+    summary: (done: number, total: number, saved: number) =>
+      `${done} / ${total} photos — ${saved} meal${plural(saved)} saved`,
+    parallel: (workers: number) =>
+      `${workers} ${workers > 1 ? 'analyses' : 'analysis'} in parallel`,
+    stop: 'Stop',
+    close: 'Close',
+    startFailed: (title: string) => `Could not start the analysis: ${title}`,
+    status: {
+      queued: 'Waiting',
+      processing: 'Analysing...',
+      done: 'Saved',
+      empty: 'No food',
+      failed: 'Failed',
+      cancelled: 'Cancelled',
+    },
+  },
+};
+
+const MESSAGES: Record<Locale, Messages> = { fr, en };
+
+export function getMessages(locale: Locale): Messages {
+  return MESSAGES[locale];
+}
@@ -0,0 +1,32 @@
+/**
+ * Image Sources
+ * Helpers for frames passed to the inference worker as ImageBitmap/VideoFrame
+ * instead of data URLs
+ */
+
+import type { ImageSource } from './inference/types';
+
+/**
+ * Whether the source is transferred to the worker (and unusable afterwards)
+ */
+export function isTransferableImage(source: ImageSource): source is ImageBitmap | VideoFrame {
+  return typeof source !== 'string';
+}
+
+/**
+ * Encode a frame to a JPEG data URL, for display and history only
+ * Must be called before the frame is transferred to the worker
+ * @param source - Frame to encode
+ * @param quality - JPEG quality (0-1)
+ * @returns Data URL, or null if no 2D context is available
+ */
+export function imageSourceToDataUrl(source: ImageBitmap | VideoFrame, quality = 0.8): string | null {
+  const isBitmap = source instanceof ImageBitmap;
+  const canvas = document.createElement('canvas');
+  canvas.width = isBitmap ? source.width : source.displayWidth;
+  canvas.height = isBitmap ? source.height : source.displayHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
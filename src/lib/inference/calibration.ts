@@ -0,0 +1,355 @@
+/**
+ * Scale Calibration
+ * Resolves a per-image cm-per-pixel ratio from a known reference object
+ * (credit card, coin, plate) or from a user-drawn line of known length
+ */
+
+import type {
+  BoundingBox,
+  CalibrationLine,
+  CalibrationRequest,
+  ReferenceObject,
+  ScaleCalibration,
+} from './types';
+import { CALIBRATION_CONFIG, INFERENCE_CONFIG } from '@/lib/constants';
+
+/**
+ * Connected component statistics collected during reference search
+ */
+interface Blob {
+  area: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  touchesBorder: boolean;
+}
+
+/**
+ * Candidate reference match with its measured size in analysis pixels
+ */
+interface ReferenceMatch {
+  sizePx: number;
+  score: number;
+  area: number;
+  box: BoundingBox;
+}
+
+/**
+ * Resolve the scale of an image
+ * @param bitmap - Original (non-resized) image
+ * @param request - Calibration requested by the user (optional)
+ * @returns Scale calibration in original-image pixels
+ */
+export function calibrateScale(
+  bitmap: ImageBitmap,
+  request?: CalibrationRequest
+): ScaleCalibration {
+  if (request?.mode === 'line') {
+    const calibration = calibrateFromLine(
+      request.line,
+      request.lengthCm,
+      bitmap.width,
+      bitmap.height
+    );
+    if (calibration) return calibration;
+  }
+
+  if (request?.mode === 'reference') {
+    const calibration = detectReferenceObject(bitmap, request.reference);
+    if (calibration) return calibration;
+
+    console.warn('[Calibration] Reference not found:', request.reference.kind);
+    return {
+      ...getDefaultCalibration(bitmap.width, bitmap.height),
+      referenceNotFound: true,
+    };
+  }
+
+  return getDefaultCalibration(bitmap.width, bitmap.height);
+}
+
+/**
+ * Default scale when nothing is known about the scene
+ * Keeps the historical assumption: the whole frame covers 30cm × 30cm
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ */
+export function getDefaultCalibration(width: number, height: number): ScaleCalibration {
+  return {
+    cmPerPixel: INFERENCE_CONFIG.DEFAULT_FRAME_SIZE_CM / Math.sqrt(width * height),
+    source: 'default',
+  };
+}
+
+/**
+ * Calibrate from a user-drawn segment of known length
+ * @param line - Segment endpoints in normalized coordinates
+ * @param lengthCm - Real-world length of the segment
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @returns Calibration, or null if the segment is degenerate
+ */
+export function calibrateFromLine(
+  line: CalibrationLine,
+  lengthCm: number,
+  width: number,
+  height: number
+): ScaleCalibration | null {
+  const dx = (line.x2 - line.x1) * width;
+  const dy = (line.y2 - line.y1) * height;
+  const lengthPx = Math.hypot(dx, dy);
+
+  if (lengthPx < 1 || !(lengthCm > 0)) {
+    return null;
+  }
+
+  return {
+    cmPerPixel: lengthCm / lengthPx,
+    source: 'line',
+  };
+}
+
+/**
+ * Search the image for the requested reference object
+ * Segments the downscaled image with Otsu thresholding (both polarities),
+ * then matches connected components against the reference's shape
+ * @param bitmap - Original image
+ * @param reference - Reference object to look for
+ * @returns Calibration, or null if no plausible match was found
+ */
+export function detectReferenceObject(
+  bitmap: ImageBitmap,
+  reference: ReferenceObject
+): ScaleCalibration | null {
+  const scale = CALIBRATION_CONFIG.ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height);
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const gray = toGrayscale(bitmap, width, height);
+  const threshold = otsuThreshold(gray);
+
+  let best: ReferenceMatch | null = null;
+  for (const brightForeground of [true, false]) {
+    const blobs = findBlobs(gray, width, height, threshold, brightForeground);
+    for (const blob of blobs) {
+      const match = matchReference(blob, reference, width, height);
+      if (match && (!best || isBetterMatch(match, best, reference))) {
+        best = match;
+      }
+    }
+  }
+
+  if (!best) return null;
+
+  // Measured size is in analysis pixels; bring it back to original pixels
+  const sizeOriginalPx = best.sizePx / scale;
+  const knownSizeCm = getReferenceSizeCm(reference);
+
+  return {
+    cmPerPixel: knownSizeCm / sizeOriginalPx,
+    source: 'reference',
+    reference: reference.kind,
+    referenceBox: best.box,
+  };
+}
+
+/**
+ * Known size of the reference along the dimension returned by matchReference
+ */
+function getReferenceSizeCm(reference: ReferenceObject): number {
+  switch (reference.kind) {
+    case 'credit_card':
+      return CALIBRATION_CONFIG.CREDIT_CARD_WIDTH_CM;
+    case 'coin':
+    case 'plate':
+      return reference.diameterCm;
+  }
+}
+
+/**
+ * Plates are picked by size (they dominate the frame), other references by shape fit
+ */
+function isBetterMatch(
+  candidate: ReferenceMatch,
+  current: ReferenceMatch,
+  reference: ReferenceObject
+): boolean {
+  if (reference.kind === 'plate') {
+    return candidate.area > current.area;
+  }
+  return candidate.score > current.score;
+}
+
+/**
+ * Check whether a blob has the shape of the reference object
+ * @returns Match with the reference's measured size in pixels, or null
+ */
+function matchReference(
+  blob: Blob,
+  reference: ReferenceObject,
+  width: number,
+  height: number
+): ReferenceMatch | null {
+  if (blob.touchesBorder) return null;
+  if (blob.area < width * height * CALIBRATION_CONFIG.MIN_REFERENCE_AREA_RATIO) return null;
+
+  const boxW = blob.maxX - blob.minX + 1;
+  const boxH = blob.maxY - blob.minY + 1;
+  const fillRatio = blob.area / (boxW * boxH);
+  const aspect = Math.max(boxW, boxH) / Math.min(boxW, boxH);
+
+  const box: BoundingBox = {
+    x: (blob.minX + boxW / 2) / width,
+    y: (blob.minY + boxH / 2) / height,
+    width: boxW / width,
+    height: boxH / height,
+  };
+
+  if (reference.kind === 'credit_card') {
+    // Axis-aligned card: nearly full bounding box with an ID-1 aspect ratio
+    const cardAspect =
+      CALIBRATION_CONFIG.CREDIT_CARD_WIDTH_CM / CALIBRATION_CONFIG.CREDIT_CARD_HEIGHT_CM;
+    if (fillRatio < 0.85 || Math.abs(aspect - cardAspect) > 0.25) return null;
+    return {
+      sizePx: Math.max(boxW, boxH),
+      score: fillRatio - Math.abs(aspect - cardAspect),
+      area: blob.area,
+      box,
+    };
+  }
+
+  // Round references: square bounding box filled at π/4
+  const circleFill = Math.PI / 4;
+  if (aspect > 1.25 || Math.abs(fillRatio - circleFill) > 0.12) return null;
+  return {
+    // Equivalent diameter is robust to slight perspective
+    sizePx: Math.sqrt((4 * blob.area) / Math.PI),
+    score: 1 - Math.abs(fillRatio - circleFill) - (aspect - 1),
+    area: blob.area,
+    box,
+  };
+}
+
+/**
+ * Draw the bitmap at analysis size and convert to luma
+ */
+function toGrayscale(bitmap: ImageBitmap, width: number, height: number): Uint8Array {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const p = i * 4;
+    gray[i] = (pixels[p] * 299 + pixels[p + 1] * 587 + pixels[p + 2] * 114) / 1000;
+  }
+  return gray;
+}
+
+/**
+ * Otsu's method: threshold maximizing between-class variance
+ */
+function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * histogram[t];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = 0;
+  let threshold = 127;
+
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = gray.length - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance =
+      weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+
+  return threshold;
+}
+
+/**
+ * Label 4-connected foreground components of the thresholded image
+ */
+function findBlobs(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  threshold: number,
+  brightForeground: boolean
+): Blob[] {
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  const blobs: Blob[] = [];
+
+  const isForeground = (i: number) =>
+    brightForeground ? gray[i] > threshold : gray[i] <= threshold;
+
+  for (let start = 0; start < gray.length; start++) {
+    if (visited[start] || !isForeground(start)) continue;
+
+    const blob: Blob = {
+      area: 0,
+      minX: width,
+      minY: height,
+      maxX: 0,
+      maxY: 0,
+      touchesBorder: false,
+    };
+
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % width;
+      const y = (i - x) / width;
+
+      blob.area++;
+      if (x < blob.minX) blob.minX = x;
+      if (x > blob.maxX) blob.maxX = x;
+      if (y < blob.minY) blob.minY = y;
+      if (y > blob.maxY) blob.maxY = y;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+        blob.touchesBorder = true;
+      }
+
+      const neighbors = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        y > 0 ? i - width : -1,
+        y < height - 1 ? i + width : -1,
+      ];
+      for (const n of neighbors) {
+        if (n >= 0 && !visited[n] && isForeground(n)) {
+          visited[n] = 1;
+          stack[top++] = n;
+        }
+      }
+    }
+
+    blobs.push(blob);
+  }
+
+  return blobs;
+}
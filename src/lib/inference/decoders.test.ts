@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { getOutputDecoder } from './decoders';
+import type { ModelKind, ModelSpec, RawDetection } from './types';
+
+// Golden tensors: 3 classes, 2 mask coefficients, 640 px input.
+// Anchor 0 and 1 pass the 0.25 confidence threshold, anchor 2 does not
+
+function specFor(kind: ModelKind, numMaskCoeffs: number): ModelSpec {
+  return {
+    kind,
+    inputName: 'images',
+    inputSize: 640,
+    detectionOutputName: 'output0',
+    protoOutputName: numMaskCoeffs > 0 ? 'output1' : null,
+    numClasses: 3,
+    numMaskCoeffs,
+    classNames: null,
+  };
+}
+
+function expectDetection(
+  actual: RawDetection,
+  expected: { classId: number; confidence: number; box: number[]; maskCoeffs: number[] }
+): void {
+  expect(actual.classId).toBe(expected.classId);
+  expect(actual.confidence).toBeCloseTo(expected.confidence, 5);
+  const { x, y, width, height } = actual.box;
+  [x, y, width, height].forEach((value, i) => expect(value).toBeCloseTo(expected.box[i], 5));
+  expect(Array.from(actual.maskCoeffs)).toEqual(expected.maskCoeffs);
+}
+
+// [1, 4 + C + M, anchors]: one row per channel, one column per anchor
+const CHANNELS_FIRST_SEG = new Float32Array([
+  /* x   */ 320, 100, 50,
+  /* y   */ 320, 200, 60,
+  /* w   */ 64, 32, 10,
+  /* h   */ 128, 16, 10,
+  /* c0  */ 0.1, 0.05, 0.1,
+  /* c1  */ 0.9, 0.1, 0.2,
+  /* c2  */ 0.3, 0.6, 0.1,
+  /* m0  */ 0.5, -1, 0,
+  /* m1  */ -0.25, 2, 0,
+]);
+
+const SEG_EXPECTED = [
+  { classId: 1, confidence: 0.9, box: [0.5, 0.5, 0.1, 0.2], maskCoeffs: [0.5, -0.25] },
+  { classId: 2, confidence: 0.6, box: [0.15625, 0.3125, 0.05, 0.025], maskCoeffs: [-1, 2] },
+];
+
+describe('channels-first decoder', () => {
+  it('decodes yolov8-seg', () => {
+    const detections = getOutputDecoder('yolov8-seg').decode(
+      CHANNELS_FIRST_SEG,
+      [1, 9, 3],
+      specFor('yolov8-seg', 2)
+    );
+    expect(detections).toHaveLength(2);
+    detections.forEach((detection, i) => expectDetection(detection, SEG_EXPECTED[i]));
+  });
+
+  it('decodes yolo11-seg, which shares the yolov8 head layout', () => {
+    const detections = getOutputDecoder('yolo11-seg').decode(
+      CHANNELS_FIRST_SEG,
+      [1, 9, 3],
+      specFor('yolo11-seg', 2)
+    );
+    expect(detections).toHaveLength(2);
+    detections.forEach((detection, i) => expectDetection(detection, SEG_EXPECTED[i]));
+  });
+
+  it('decodes yolov8-detect without mask coefficients', () => {
+    // Same boxes and scores, without the two coefficient rows
+    const data = CHANNELS_FIRST_SEG.slice(0, 7 * 3);
+    const detections = getOutputDecoder('yolov8-detect').decode(
+      data,
+      [1, 7, 3],
+      specFor('yolov8-detect', 0)
+    );
+    expect(detections).toHaveLength(2);
+    detections.forEach((detection, i) =>
+      expectDetection(detection, { ...SEG_EXPECTED[i], maskCoeffs: [] })
+    );
+  });
+
+  it('rejects a channel count that does not match the spec', () => {
+    expect(() =>
+      getOutputDecoder('yolov8-seg').decode(CHANNELS_FIRST_SEG, [1, 9, 3], specFor('yolov8-seg', 32))
+    ).toThrow(/9 channels, expected 39/);
+  });
+});
+
+describe('anchors-first decoder', () => {
+  // [1, anchors, 5 + C + M]: one row per anchor, objectness at index 4
+  const data = new Float32Array([
+    /*        x    y    w   h   obj  c0   c1   c2   m0    m1 */
+    /* a0 */ 320, 320, 64, 128, 0.8, 0.1, 0.5, 0.3, 0.5, -0.25,
+    /* a1 */ 100, 200, 32, 16, 1.0, 0.05, 0.1, 0.6, -1, 2,
+    /* a2 */ 50, 60, 10, 10, 0.5, 0.4, 0.2, 0.1, 0, 0, // 0.5 × 0.4 = 0.2, rejected
+    /* a3 */ 10, 10, 10, 10, 0.2, 1.0, 0, 0, 0, 0, // low objectness, rejected
+  ]);
+
+  it('decodes yolov5-seg, weighting class scores by objectness', () => {
+    const detections = getOutputDecoder('yolov5-seg').decode(
+      data,
+      [1, 4, 10],
+      specFor('yolov5-seg', 2)
+    );
+    expect(detections).toHaveLength(2);
+    expectDetection(detections[0], { ...SEG_EXPECTED[0], confidence: 0.4 });
+    expectDetection(detections[1], SEG_EXPECTED[1]);
+  });
+
+  it('rejects a channel count that does not match the spec', () => {
+    expect(() =>
+      getOutputDecoder('yolov5-seg').decode(data, [1, 4, 10], specFor('yolov5-seg', 0))
+    ).toThrow(/10 channels, expected 8/);
+  });
+});
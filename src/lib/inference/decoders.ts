@@ -0,0 +1,166 @@
+/**
+ * Output Decoders
+ * Turn the raw detection tensor of each supported model family into
+ * RawDetections. The decoder is picked from the model layout at INIT
+ * (see resolveModelSpec), everything downstream (NMS, masks, nutrition)
+ * is shared.
+ *
+ * Supported layouts:
+ * - yolov8-seg / yolo11-seg: [1, 4 + C + M, anchors]      channels first, no objectness
+ * - yolov8-detect:           [1, 4 + C, anchors]          same, without mask coefficients
+ * - yolov5-seg:              [1, anchors, 5 + C + M]      anchors first, objectness at index 4
+ */
+
+import type { ModelKind, ModelSpec, RawDetection } from './types';
+import { INFERENCE_CONFIG } from '@/lib/constants';
+
+export interface OutputDecoder {
+  /** Expected [batch, dim1, dim2] layout, for error messages */
+  layout: string;
+  /**
+   * Decode candidate detections above the confidence threshold
+   * @param data - Detection tensor data
+   * @param dims - Detection tensor dimensions
+   * @param spec - Model layout read at INIT
+   */
+  decode(data: Float32Array, dims: readonly number[], spec: ModelSpec): RawDetection[];
+}
+
+/**
+ * Ultralytics YOLOv8/YOLO11 head: one column per anchor
+ * Channels: box (4), class scores (C), mask coefficients (M, 0 for detect-only)
+ */
+const channelsFirstDecoder: OutputDecoder = {
+  layout: '[1, 4 + classes + maskCoeffs, anchors]',
+
+  decode(data, dims, spec) {
+    const [, channels, numAnchors] = dims;
+    const { numClasses, numMaskCoeffs } = spec;
+    assertChannels(channels, 4 + numClasses + numMaskCoeffs, this.layout);
+
+    const detections: RawDetection[] = [];
+    const threshold = INFERENCE_CONFIG.CONFIDENCE_THRESHOLD;
+
+    // Nothing is allocated for rejected anchors
+    for (let i = 0; i < numAnchors; i++) {
+      // Best class, reading scores in place
+      let maxScore = -Infinity;
+      let maxClassId = 0;
+      for (let c = 0; c < numClasses; c++) {
+        const score = data[(4 + c) * numAnchors + i];
+        if (score > maxScore) {
+          maxScore = score;
+          maxClassId = c;
+        }
+      }
+      if (maxScore < threshold) continue;
+
+      const maskCoeffs = new Float32Array(numMaskCoeffs);
+      for (let m = 0; m < numMaskCoeffs; m++) {
+        maskCoeffs[m] = data[(4 + numClasses + m) * numAnchors + i];
+      }
+
+      detections.push({
+        classId: maxClassId,
+        confidence: maxScore,
+        box: normalizeBox(
+          data[i],
+          data[numAnchors + i],
+          data[2 * numAnchors + i],
+          data[3 * numAnchors + i],
+          spec.inputSize
+        ),
+        maskCoeffs,
+      });
+    }
+
+    return detections;
+  },
+};
+
+/**
+ * YOLOv5 head: one row per anchor
+ * Row: box (4), objectness (1), class scores (C), mask coefficients (M)
+ * Confidence is objectness × class score
+ */
+const anchorsFirstDecoder: OutputDecoder = {
+  layout: '[1, anchors, 5 + classes + maskCoeffs]',
+
+  decode(data, dims, spec) {
+    const [, numAnchors, channels] = dims;
+    const { numClasses, numMaskCoeffs } = spec;
+    assertChannels(channels, 5 + numClasses + numMaskCoeffs, this.layout);
+
+    const detections: RawDetection[] = [];
+    const threshold = INFERENCE_CONFIG.CONFIDENCE_THRESHOLD;
+
+    for (let i = 0; i < numAnchors; i++) {
+      const row = i * channels;
+      const objectness = data[row + 4];
+      // Class scores are at most 1, so low objectness can be rejected up front
+      if (objectness < threshold) continue;
+
+      let maxScore = -Infinity;
+      let maxClassId = 0;
+      for (let c = 0; c < numClasses; c++) {
+        const score = data[row + 5 + c];
+        if (score > maxScore) {
+          maxScore = score;
+          maxClassId = c;
+        }
+      }
+      const confidence = objectness * maxScore;
+      if (confidence < threshold) continue;
+
+      const coeffStart = row + 5 + numClasses;
+      detections.push({
+        classId: maxClassId,
+        confidence,
+        box: normalizeBox(
+          data[row],
+          data[row + 1],
+          data[row + 2],
+          data[row + 3],
+          spec.inputSize
+        ),
+        maskCoeffs: data.slice(coeffStart, coeffStart + numMaskCoeffs),
+      });
+    }
+
+    return detections;
+  },
+};
+
+const OUTPUT_DECODERS: Record<ModelKind, OutputDecoder> = {
+  'yolov8-seg': channelsFirstDecoder,
+  'yolo11-seg': channelsFirstDecoder,
+  'yolov8-detect': channelsFirstDecoder,
+  'yolov5-seg': anchorsFirstDecoder,
+};
+
+/**
+ * Get the decoder for a model family
+ */
+export function getOutputDecoder(kind: ModelKind): OutputDecoder {
+  return OUTPUT_DECODERS[kind];
+}
+
+/**
+ * Center-format box in input pixels -> normalized to the model input
+ */
+function normalizeBox(x: number, y: number, w: number, h: number, inputSize: number) {
+  return {
+    x: x / inputSize,
+    y: y / inputSize,
+    width: w / inputSize,
+    height: h / inputSize,
+  };
+}
+
+function assertChannels(actual: number, expected: number, layout: string): void {
+  if (actual !== expected) {
+    throw new Error(
+      `Unexpected detection output: ${actual} channels, expected ${expected} for ${layout}`
+    );
+  }
+}
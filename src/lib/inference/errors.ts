@@ -0,0 +1,31 @@
+/**
+ * Typed inference errors
+ * Shared by the worker (which classifies failures) and the main thread
+ * (which rebuilds them from ERROR messages and shows the matching UI state)
+ */
+
+import type { InferenceErrorCode } from './types';
+
+export class InferenceError extends Error {
+  readonly code: InferenceErrorCode;
+
+  constructor(code: InferenceErrorCode, message: string) {
+    super(message);
+    this.name = 'InferenceError';
+    this.code = code;
+  }
+}
+
+/**
+ * Wrap any thrown value, keeping the code of errors that are already classified
+ * @param error - Caught value
+ * @param fallbackCode - Code to use for unclassified errors
+ */
+export function toInferenceError(
+  error: unknown,
+  fallbackCode: InferenceErrorCode
+): InferenceError {
+  if (error instanceof InferenceError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new InferenceError(fallbackCode, message);
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { detectAvailableProviders, getRecommendedThreadCount } from './executionProviders';
+
+function stubWebGpu(requestAdapter: () => Promise<unknown>) {
+  vi.stubGlobal('navigator', { gpu: { requestAdapter }, hardwareConcurrency: 8 });
+}
+
+function stubWebGl(getContext: () => unknown) {
+  vi.stubGlobal(
+    'OffscreenCanvas',
+    class {
+      getContext = getContext;
+    }
+  );
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('detectAvailableProviders', () => {
+  it('keeps the preference order of the supported providers', async () => {
+    stubWebGpu(async () => ({}));
+    stubWebGl(() => ({}));
+    expect(await detectAvailableProviders()).toEqual(['webgpu', 'webgl', 'wasm']);
+  });
+
+  it('returns only wasm when pinned to it', async () => {
+    stubWebGpu(async () => ({}));
+    stubWebGl(() => ({}));
+    expect(await detectAvailableProviders(['wasm'])).toEqual(['wasm']);
+  });
+
+  it('falls back to wasm when the webgpu and webgl probes fail', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stubWebGpu(async () => {
+      throw new Error('GPU process crashed');
+    });
+    stubWebGl(() => {
+      throw new Error('Context lost');
+    });
+    expect(await detectAvailableProviders()).toEqual(['wasm']);
+  });
+
+  it('skips providers whose APIs are missing', async () => {
+    vi.stubGlobal('navigator', {});
+    vi.stubGlobal('OffscreenCanvas', undefined);
+    expect(await detectAvailableProviders()).toEqual(['wasm']);
+  });
+
+  it('skips webgpu when no adapter is found', async () => {
+    stubWebGpu(async () => null);
+    stubWebGl(() => ({}));
+    expect(await detectAvailableProviders()).toEqual(['webgl', 'wasm']);
+  });
+
+  it('adds wasm as the fallback when the preference leaves it out', async () => {
+    stubWebGpu(async () => null);
+    stubWebGl(() => null);
+    expect(await detectAvailableProviders(['webgpu', 'webgl'])).toEqual(['wasm']);
+  });
+});
+
+describe('getRecommendedThreadCount', () => {
+  it('uses a single thread without cross-origin isolation', () => {
+    vi.stubGlobal('self', { crossOriginIsolated: false });
+    vi.stubGlobal('navigator', { hardwareConcurrency: 8 });
+    expect(getRecommendedThreadCount()).toBe(1);
+  });
+
+  it('uses the cores up to the thread cap when isolated', () => {
+    vi.stubGlobal('self', { crossOriginIsolated: true });
+    vi.stubGlobal('navigator', { hardwareConcurrency: 8 });
+    expect(getRecommendedThreadCount()).toBe(4);
+    expect(getRecommendedThreadCount(2)).toBe(2);
+
+    vi.stubGlobal('navigator', { hardwareConcurrency: 3 });
+    expect(getRecommendedThreadCount()).toBe(3);
+  });
+});
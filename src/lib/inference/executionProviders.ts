@@ -0,0 +1,75 @@
+/**
+ * Execution Provider Selection
+ * Probes which ONNX Runtime backends the current browser can run,
+ * ordered from fastest to most compatible
+ */
+
+import type { ExecutionProvider } from './types';
+import { INFERENCE_CONFIG } from '@/lib/constants';
+
+/**
+ * Detect which execution providers are usable in this context
+ * @param preferred - Providers to consider, in order of preference
+ * @returns Available providers, preserving the preference order
+ */
+export async function detectAvailableProviders(
+  preferred: readonly ExecutionProvider[] = INFERENCE_CONFIG.EXECUTION_PROVIDERS
+): Promise<ExecutionProvider[]> {
+  const available: ExecutionProvider[] = [];
+
+  for (const provider of preferred) {
+    if (await isProviderSupported(provider)) {
+      available.push(provider);
+    }
+  }
+
+  // WebAssembly is the universal fallback
+  if (!available.includes('wasm')) {
+    available.push('wasm');
+  }
+
+  return available;
+}
+
+/**
+ * Check whether the browser exposes the APIs a provider needs
+ * This does not guarantee the model runs on it; the worker still validates with a warm-up run
+ */
+async function isProviderSupported(provider: ExecutionProvider): Promise<boolean> {
+  try {
+    switch (provider) {
+      case 'webgpu': {
+        const gpu = (navigator as Navigator & { gpu?: { requestAdapter(): Promise<unknown> } }).gpu;
+        if (!gpu) return false;
+        return (await gpu.requestAdapter()) !== null;
+      }
+      case 'webgl': {
+        if (typeof OffscreenCanvas === 'undefined') return false;
+        return new OffscreenCanvas(1, 1).getContext('webgl2') !== null;
+      }
+      case 'wasm':
+        return typeof WebAssembly !== 'undefined';
+    }
+  } catch (error) {
+    console.warn(`[ExecutionProviders] Probe failed for ${provider}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Number of WASM threads to use
+ * Multi-threading needs SharedArrayBuffer, which requires cross-origin isolation
+ * @param maxThreads - Upper bound (defaults to INFERENCE_CONFIG.MAX_WASM_THREADS)
+ * @returns Thread count (1 when threads are unavailable)
+ */
+export function getRecommendedThreadCount(
+  maxThreads: number = INFERENCE_CONFIG.MAX_WASM_THREADS
+): number {
+  const isolated = typeof self !== 'undefined' && self.crossOriginIsolated === true;
+  if (!isolated || typeof SharedArrayBuffer === 'undefined') {
+    return 1;
+  }
+
+  const cores = navigator.hardwareConcurrency || 1;
+  return Math.max(1, Math.min(cores, maxThreads, INFERENCE_CONFIG.MAX_WASM_THREADS));
+}
@@ -1,13 +1,48 @@
 /**
  * Food Database for NutriScan
  * Contains nutritional metadata for all 32 food classes detected by YOLOv8
- * Data includes density, thickness, and macronutrients per 100g
+ * Data includes density, thickness, macronutrients and detailed nutrients per 100g,
+ * and the fruit/vegetable/legume share and red meat flag used by the Nutri-Score
+ * Detailed nutrients are null where no value is known for the food
+ *
+ * Nutrient values imported from the Ciqual table (ciqualFoods.json, written by
+ * `pnpm ciqual:import`) replace the hand-typed ones, and every entry records
+ * where its values come from
  */
 
-import type { FoodInfo } from "./types";
+import type { FoodInfo, NutrientSource } from "./types";
+import ciqualFoods from "./ciqualFoods.json";
+
+type HandTypedFood = Omit<FoodInfo, "source">;
+
+/** Shape of ciqualFoods.json; all null until the first import */
+interface CiqualImport {
+  version: string | null;
+  date: string | null;
+  importedAt: string | null;
+  foods: Record<
+    string,
+    {
+      per100g: {
+        calories: number;
+        protein: number;
+        carbs: number;
+        fat: number;
+        fiber: number;
+        sugars: number | null;
+        saturatedFat: number | null;
+        salt: number | null;
+        iron: number | null;
+        calcium: number | null;
+        vitaminC: number | null;
+      };
+      foods: { code: string; name: string; share: number }[];
+    }
+  >;
+}
 
 /**
- * Complete nutrition database for 32 food classes
+ * Hand-typed database for 32 food classes, without source
  * Mapped by class ID (0-31)
  *
  * Classes: rice, bread, egg, chicken, pork, steak, fish, shrimp,
@@ -16,10 +51,10 @@ import type { FoodInfo } from "./types";
  *          mixed_vegetables, dumplings, fried_meat, salad, cheese,
  *          soy_beans, beverage, pepper, carrot, cake, onion
  */
-const FOOD_DATABASE: Record<number, FoodInfo> = {
+const HAND_TYPED_FOODS: Record<number, HandTypedFood> = {
   0: {
-    // rice
     id: 0,
+    modelLabel: "rice",
     name: "Riz",
     density: 0.75,
     defaultThicknessCm: 2.0,
@@ -28,11 +63,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 28.0,
     fatPer100g: 0.3,
     fiberPer100g: 0.4,
+    sugarsPer100g: 0.1,
+    saturatedFatPer100g: 0.1,
+    saltPer100g: 0.0,
+    ironPer100g: 0.2,
+    calciumPer100g: 10,
+    vitaminCPer100g: 0,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🍚",
   },
   1: {
-    // bread
     id: 1,
+    modelLabel: "bread",
     name: "Pain",
     density: 0.25,
     defaultThicknessCm: 2.0,
@@ -41,11 +84,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 49.0,
     fatPer100g: 3.2,
     fiberPer100g: 2.7,
+    sugarsPer100g: 5.0,
+    saturatedFatPer100g: 0.7,
+    saltPer100g: 1.2,
+    ironPer100g: 3.6,
+    calciumPer100g: 52,
+    vitaminCPer100g: 0,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🍞",
   },
   2: {
-    // egg
     id: 2,
+    modelLabel: "egg",
     name: "Œuf",
     density: 1.03,
     defaultThicknessCm: 1.5,
@@ -54,11 +105,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 1.1,
     fatPer100g: 11.0,
     fiberPer100g: 0.0,
+    sugarsPer100g: 1.1,
+    saturatedFatPer100g: 3.3,
+    saltPer100g: 0.31,
+    ironPer100g: 1.2,
+    calciumPer100g: 50,
+    vitaminCPer100g: 0,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🥚",
   },
   3: {
-    // chicken
     id: 3,
+    modelLabel: "chicken",
     name: "Poulet",
     density: 0.95,
     defaultThicknessCm: 2.5,
@@ -67,11 +126,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 0.0,
     fatPer100g: 14.0,
     fiberPer100g: 0.0,
+    sugarsPer100g: 0.0,
+    saturatedFatPer100g: 3.8,
+    saltPer100g: 0.21,
+    ironPer100g: 1.3,
+    calciumPer100g: 15,
+    vitaminCPer100g: 0,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🍗",
   },
   4: {
-    // pork
     id: 4,
+    modelLabel: "pork",
     name: "Porc",
     density: 1.0,
     defaultThicknessCm: 2.0,
@@ -80,11 +147,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 0.0,
     fatPer100g: 14.0,
     fiberPer100g: 0.0,
+    sugarsPer100g: 0.0,
+    saturatedFatPer100g: 5.2,
+    saltPer100g: 0.15,
+    ironPer100g: 0.9,
+    calciumPer100g: 19,
+    vitaminCPer100g: 0.6,
+    fruitVegetableShare: 0,
+    isRedMeat: true,
     icon: "🥓",
   },
   5: {
-    // steak
     id: 5,
+    modelLabel: "steak",
     name: "Steak",
     density: 1.05,
     defaultThicknessCm: 1.2,
@@ -93,11 +168,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 0.0,
     fatPer100g: 19.0,
     fiberPer100g: 0.0,
+    sugarsPer100g: 0.0,
+    saturatedFatPer100g: 7.7,
+    saltPer100g: 0.15,
+    ironPer100g: 2.6,
+    calciumPer100g: 18,
+    vitaminCPer100g: 0,
+    fruitVegetableShare: 0,
+    isRedMeat: true,
     icon: "🥩",
   },
   6: {
-    // fish
     id: 6,
+    modelLabel: "fish",
     name: "Poisson",
     density: 1.0,
     defaultThicknessCm: 2.0,
@@ -106,11 +189,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 0.0,
     fatPer100g: 12.0,
     fiberPer100g: 0.0,
+    sugarsPer100g: 0.0,
+    saturatedFatPer100g: 3.1,
+    saltPer100g: 0.15,
+    ironPer100g: 0.3,
+    calciumPer100g: 9,
+    vitaminCPer100g: 3.7,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🐟",
   },
   7: {
-    // shrimp
     id: 7,
+    modelLabel: "shrimp",
     name: "Crevette",
     density: 0.95,
     defaultThicknessCm: 1.0,
@@ -119,11 +210,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 0.2,
     fatPer100g: 0.3,
     fiberPer100g: 0.0,
+    sugarsPer100g: 0.2,
+    saturatedFatPer100g: 0.1,
+    saltPer100g: 0.55,
+    ironPer100g: 0.5,
+    calciumPer100g: 70,
+    vitaminCPer100g: 0,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🦐",
   },
   8: {
-    // sausage
     id: 8,
+    modelLabel: "sausage",
     name: "Saucisse",
     density: 0.95,
     defaultThicknessCm: 2.5,
@@ -132,11 +231,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 2.0,
     fatPer100g: 27.0,
     fiberPer100g: 0.0,
+    sugarsPer100g: 1.0,
+    saturatedFatPer100g: 10.0,
+    saltPer100g: 2.0,
+    ironPer100g: 1,
+    calciumPer100g: 15,
+    vitaminCPer100g: null,
+    fruitVegetableShare: 0,
+    isRedMeat: true,
     icon: "🌭",
   },
   9: {
-    // tofu
     id: 9,
+    modelLabel: "tofu",
     name: "Tofu",
     density: 1.05,
     defaultThicknessCm: 2.0,
@@ -145,11 +252,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 1.9,
     fatPer100g: 4.8,
     fiberPer100g: 0.3,
+    sugarsPer100g: 0.6,
+    saturatedFatPer100g: 0.7,
+    saltPer100g: 0.02,
+    ironPer100g: 1.5,
+    calciumPer100g: 350,
+    vitaminCPer100g: 0.1,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🧈",
   },
   10: {
-    // noodles
     id: 10,
+    modelLabel: "noodles",
     name: "Nouilles",
     density: 0.75,
     defaultThicknessCm: 2.0,
@@ -158,11 +273,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 25.0,
     fatPer100g: 2.0,
     fiberPer100g: 1.0,
+    sugarsPer100g: 0.5,
+    saturatedFatPer100g: 0.4,
+    saltPer100g: null,
+    ironPer100g: 0.5,
+    calciumPer100g: 6,
+    vitaminCPer100g: 0,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🍜",
   },
   11: {
-    // pasta
     id: 11,
+    modelLabel: "pasta",
     name: "Pâtes",
     density: 0.8,
     defaultThicknessCm: 2.5,
@@ -171,11 +294,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 25.0,
     fatPer100g: 1.1,
     fiberPer100g: 1.8,
+    sugarsPer100g: 0.6,
+    saturatedFatPer100g: 0.2,
+    saltPer100g: 0.0,
+    ironPer100g: 0.5,
+    calciumPer100g: 7,
+    vitaminCPer100g: 0,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🍝",
   },
   12: {
-    // pizza
     id: 12,
+    modelLabel: "pizza",
     name: "Pizza",
     density: 0.65,
     defaultThicknessCm: 1.5,
@@ -184,11 +315,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 33.0,
     fatPer100g: 10.0,
     fiberPer100g: 2.3,
+    sugarsPer100g: 3.6,
+    saturatedFatPer100g: 4.5,
+    saltPer100g: 1.3,
+    ironPer100g: 1.9,
+    calciumPer100g: 190,
+    vitaminCPer100g: null,
+    fruitVegetableShare: 0.1,
+    isRedMeat: false,
     icon: "🍕",
   },
   13: {
-    // hamburger
     id: 13,
+    modelLabel: "hamburger",
     name: "Hamburger",
     density: 0.7,
     defaultThicknessCm: 6.0,
@@ -197,11 +336,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 24.0,
     fatPer100g: 14.0,
     fiberPer100g: 1.3,
+    sugarsPer100g: 5.0,
+    saturatedFatPer100g: 5.5,
+    saltPer100g: 1.2,
+    ironPer100g: 2.5,
+    calciumPer100g: 70,
+    vitaminCPer100g: null,
+    fruitVegetableShare: 0.1,
+    isRedMeat: true,
     icon: "🍔",
   },
   14: {
-    // french_fries
     id: 14,
+    modelLabel: "french_fries",
     name: "Frites",
     density: 0.55,
     defaultThicknessCm: 3.0,
@@ -210,11 +357,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 41.0,
     fatPer100g: 15.0,
     fiberPer100g: 3.8,
+    sugarsPer100g: 0.3,
+    saturatedFatPer100g: 2.3,
+    saltPer100g: 0.5,
+    ironPer100g: 0.8,
+    calciumPer100g: 12,
+    vitaminCPer100g: 5,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🍟",
   },
   15: {
-    // potato
     id: 15,
+    modelLabel: "potato",
     name: "Pomme de terre",
     density: 0.7,
     defaultThicknessCm: 2.0,
@@ -223,11 +378,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 17.5,
     fatPer100g: 0.1,
     fiberPer100g: 2.2,
+    sugarsPer100g: 0.8,
+    saturatedFatPer100g: 0.0,
+    saltPer100g: 0.0,
+    ironPer100g: 0.8,
+    calciumPer100g: 12,
+    vitaminCPer100g: 12,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🥔",
   },
   16: {
-    // soup
     id: 16,
+    modelLabel: "soup",
     name: "Soupe",
     density: 1.0,
     defaultThicknessCm: 4.0,
@@ -236,11 +399,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 4.0,
     fatPer100g: 0.7,
     fiberPer100g: 0.5,
+    sugarsPer100g: 1.8,
+    saturatedFatPer100g: 0.3,
+    saltPer100g: 0.8,
+    ironPer100g: 0.4,
+    calciumPer100g: 15,
+    vitaminCPer100g: null,
+    fruitVegetableShare: 0.8,
+    isRedMeat: false,
     icon: "🍲",
   },
   17: {
-    // sauce
     id: 17,
+    modelLabel: "sauce",
     name: "Sauce",
     density: 1.1,
     defaultThicknessCm: 0.5,
@@ -249,11 +420,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 8.0,
     fatPer100g: 4.5,
     fiberPer100g: 0.5,
+    sugarsPer100g: 5.0,
+    saturatedFatPer100g: null,
+    saltPer100g: 1.5,
+    ironPer100g: null,
+    calciumPer100g: null,
+    vitaminCPer100g: null,
+    fruitVegetableShare: 0.6,
+    isRedMeat: false,
     icon: "🥫",
   },
   18: {
-    // eggplant
     id: 18,
+    modelLabel: "eggplant",
     name: "Aubergine",
     density: 0.6,
     defaultThicknessCm: 2.0,
@@ -262,11 +441,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 6.0,
     fatPer100g: 0.2,
     fiberPer100g: 3.0,
+    sugarsPer100g: 3.5,
+    saturatedFatPer100g: 0.0,
+    saltPer100g: 0.0,
+    ironPer100g: 0.2,
+    calciumPer100g: 9,
+    vitaminCPer100g: 2.2,
+    fruitVegetableShare: 1,
+    isRedMeat: false,
     icon: "🍆",
   },
   19: {
-    // spinach
     id: 19,
+    modelLabel: "spinach",
     name: "Épinards",
     density: 0.35,
     defaultThicknessCm: 1.5,
@@ -275,11 +462,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 3.6,
     fatPer100g: 0.4,
     fiberPer100g: 2.2,
+    sugarsPer100g: 0.4,
+    saturatedFatPer100g: 0.1,
+    saltPer100g: 0.2,
+    ironPer100g: 2.7,
+    calciumPer100g: 99,
+    vitaminCPer100g: 28,
+    fruitVegetableShare: 1,
+    isRedMeat: false,
     icon: "🥬",
   },
   20: {
-    // cabbage
     id: 20,
+    modelLabel: "cabbage",
     name: "Chou",
     density: 0.4,
     defaultThicknessCm: 2.0,
@@ -288,11 +483,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 6.0,
     fatPer100g: 0.1,
     fiberPer100g: 2.5,
+    sugarsPer100g: 3.2,
+    saturatedFatPer100g: 0.0,
+    saltPer100g: 0.05,
+    ironPer100g: 0.5,
+    calciumPer100g: 40,
+    vitaminCPer100g: 36,
+    fruitVegetableShare: 1,
+    isRedMeat: false,
     icon: "🥬",
   },
   21: {
-    // mixed_vegetables
     id: 21,
+    modelLabel: "mixed_vegetables",
     name: "Légumes mélangés",
     density: 0.65,
     defaultThicknessCm: 1.5,
@@ -301,11 +504,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 13.0,
     fatPer100g: 0.3,
     fiberPer100g: 3.0,
+    sugarsPer100g: 3.0,
+    saturatedFatPer100g: 0.1,
+    saltPer100g: 0.1,
+    ironPer100g: 0.9,
+    calciumPer100g: 30,
+    vitaminCPer100g: 10,
+    fruitVegetableShare: 1,
+    isRedMeat: false,
     icon: "🥗",
   },
   22: {
-    // dumplings
     id: 22,
+    modelLabel: "dumplings",
     name: "Raviolis / Gyoza",
     density: 0.9,
     defaultThicknessCm: 2.0,
@@ -314,11 +525,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 25.0,
     fatPer100g: 9.0,
     fiberPer100g: 1.0,
+    sugarsPer100g: 2.0,
+    saturatedFatPer100g: 2.5,
+    saltPer100g: 1.0,
+    ironPer100g: 1.2,
+    calciumPer100g: 25,
+    vitaminCPer100g: null,
+    fruitVegetableShare: 0.2,
+    isRedMeat: false,
     icon: "🥟",
   },
   23: {
-    // fried_meat
     id: 23,
+    modelLabel: "fried_meat",
     name: "Viande panée",
     density: 0.85,
     defaultThicknessCm: 2.0,
@@ -327,11 +546,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 12.0,
     fatPer100g: 15.0,
     fiberPer100g: 0.5,
+    sugarsPer100g: 0.5,
+    saturatedFatPer100g: 5.0,
+    saltPer100g: 1.0,
+    ironPer100g: 2,
+    calciumPer100g: 20,
+    vitaminCPer100g: null,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🍖",
   },
   24: {
-    // salad
     id: 24,
+    modelLabel: "salad",
     name: "Salade",
     density: 0.3,
     defaultThicknessCm: 3.0,
@@ -340,11 +567,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 3.3,
     fatPer100g: 0.2,
     fiberPer100g: 1.8,
+    sugarsPer100g: 1.0,
+    saturatedFatPer100g: 0.0,
+    saltPer100g: 0.05,
+    ironPer100g: 1,
+    calciumPer100g: 36,
+    vitaminCPer100g: 9,
+    fruitVegetableShare: 1,
+    isRedMeat: false,
     icon: "🥗",
   },
   25: {
-    // cheese
     id: 25,
+    modelLabel: "cheese",
     name: "Fromage",
     density: 1.1,
     defaultThicknessCm: 1.0,
@@ -353,11 +588,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 1.3,
     fatPer100g: 33.0,
     fiberPer100g: 0.0,
+    sugarsPer100g: 0.5,
+    saturatedFatPer100g: 21.0,
+    saltPer100g: 1.6,
+    ironPer100g: 0.7,
+    calciumPer100g: 720,
+    vitaminCPer100g: 0,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🧀",
   },
   26: {
-    // soy_beans
     id: 26,
+    modelLabel: "soy_beans",
     name: "Soja / Nattō",
     density: 0.7,
     defaultThicknessCm: 1.5,
@@ -366,11 +609,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 30.0,
     fatPer100g: 20.0,
     fiberPer100g: 9.0,
+    sugarsPer100g: 7.3,
+    saturatedFatPer100g: 2.9,
+    saltPer100g: 0.0,
+    ironPer100g: 15.7,
+    calciumPer100g: 277,
+    vitaminCPer100g: 6,
+    fruitVegetableShare: 1,
+    isRedMeat: false,
     icon: "🫘",
   },
   27: {
-    // beverage
     id: 27,
+    modelLabel: "beverage",
     name: "Boisson",
     density: 1.0,
     defaultThicknessCm: 5.0,
@@ -379,11 +630,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 10.0,
     fatPer100g: 0.0,
     fiberPer100g: 0.0,
+    sugarsPer100g: 9.0,
+    saturatedFatPer100g: 0.0,
+    saltPer100g: 0.0,
+    ironPer100g: null,
+    calciumPer100g: null,
+    vitaminCPer100g: null,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🥤",
   },
   28: {
-    // pepper
     id: 28,
+    modelLabel: "pepper",
     name: "Poivron",
     density: 0.5,
     defaultThicknessCm: 1.5,
@@ -392,11 +651,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 4.6,
     fatPer100g: 0.2,
     fiberPer100g: 1.7,
+    sugarsPer100g: 3.4,
+    saturatedFatPer100g: 0.0,
+    saltPer100g: 0.0,
+    ironPer100g: 0.4,
+    calciumPer100g: 9,
+    vitaminCPer100g: 120,
+    fruitVegetableShare: 1,
+    isRedMeat: false,
     icon: "🌶️",
   },
   29: {
-    // carrot
     id: 29,
+    modelLabel: "carrot",
     name: "Carotte",
     density: 0.6,
     defaultThicknessCm: 1.5,
@@ -405,11 +672,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 10.0,
     fatPer100g: 0.2,
     fiberPer100g: 2.8,
+    sugarsPer100g: 4.7,
+    saturatedFatPer100g: 0.0,
+    saltPer100g: 0.17,
+    ironPer100g: 0.3,
+    calciumPer100g: 33,
+    vitaminCPer100g: 5.9,
+    fruitVegetableShare: 1,
+    isRedMeat: false,
     icon: "🥕",
   },
   30: {
-    // cake
     id: 30,
+    modelLabel: "cake",
     name: "Gâteau",
     density: 0.45,
     defaultThicknessCm: 4.0,
@@ -418,11 +693,19 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 52.0,
     fatPer100g: 13.0,
     fiberPer100g: 0.5,
+    sugarsPer100g: 25.0,
+    saturatedFatPer100g: 7.0,
+    saltPer100g: 0.6,
+    ironPer100g: 1.2,
+    calciumPer100g: 50,
+    vitaminCPer100g: null,
+    fruitVegetableShare: 0,
+    isRedMeat: false,
     icon: "🍰",
   },
   31: {
-    // onion
     id: 31,
+    modelLabel: "onion",
     name: "Oignon",
     density: 0.55,
     defaultThicknessCm: 1.5,
@@ -431,16 +714,71 @@ const FOOD_DATABASE: Record<number, FoodInfo> = {
     carbsPer100g: 9.3,
     fatPer100g: 0.1,
     fiberPer100g: 1.7,
+    sugarsPer100g: 4.2,
+    saturatedFatPer100g: 0.0,
+    saltPer100g: 0.01,
+    ironPer100g: 0.2,
+    calciumPer100g: 23,
+    vitaminCPer100g: 7.4,
+    fruitVegetableShare: 1,
+    isRedMeat: false,
     icon: "🧅",
   },
 };
 
+/**
+ * Overlay the imported Ciqual values on a hand-typed entry
+ * Classes missing from the import keep their values, marked as manual
+ */
+function applyCiqualImport(food: HandTypedFood, imported: CiqualImport): FoodInfo {
+  const entry = imported.foods[String(food.id)];
+  if (!entry || !imported.version || !imported.date || !imported.importedAt) {
+    return { ...food, source: { kind: "manual" } };
+  }
+
+  const { per100g } = entry;
+  const source: NutrientSource = {
+    kind: "ciqual",
+    version: imported.version,
+    date: imported.date,
+    importedAt: imported.importedAt,
+    foods: entry.foods,
+  };
+  return {
+    ...food,
+    caloriesPer100g: per100g.calories,
+    proteinPer100g: per100g.protein,
+    carbsPer100g: per100g.carbs,
+    fatPer100g: per100g.fat,
+    fiberPer100g: per100g.fiber,
+    sugarsPer100g: per100g.sugars,
+    saturatedFatPer100g: per100g.saturatedFat,
+    saltPer100g: per100g.salt,
+    ironPer100g: per100g.iron,
+    calciumPer100g: per100g.calcium,
+    vitaminCPer100g: per100g.vitaminC,
+    source,
+  };
+}
+
+/**
+ * Complete nutrition database for 32 food classes, with provenance
+ * Mapped by class ID (0-31)
+ */
+const FOOD_DATABASE: Record<number, FoodInfo> = Object.fromEntries(
+  Object.values(HAND_TYPED_FOODS).map((food) => [
+    food.id,
+    applyCiqualImport(food, ciqualFoods as CiqualImport),
+  ])
+);
+
 /**
  * Fallback food info for unknown class IDs
  * Uses generic values to prevent crashes
  */
 const FALLBACK_FOOD_INFO: FoodInfo = {
   id: -1,
+  modelLabel: "unknown",
   name: "Aliment inconnu",
   density: 0.5,
   defaultThicknessCm: 1.5,
@@ -449,6 +787,15 @@ const FALLBACK_FOOD_INFO: FoodInfo = {
   carbsPer100g: 15.0,
   fatPer100g: 3.0,
   fiberPer100g: 1.0,
+  sugarsPer100g: null,
+  saturatedFatPer100g: null,
+  saltPer100g: null,
+  ironPer100g: null,
+  calciumPer100g: null,
+  vitaminCPer100g: null,
+  fruitVegetableShare: 0,
+  isRedMeat: false,
+  source: { kind: "manual" },
   icon: "❓",
 };
 
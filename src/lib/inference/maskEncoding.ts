@@ -0,0 +1,123 @@
+/**
+ * Compact Mask Encoding
+ * Binary masks are bit-packed (8 pixels per byte, row-major, MSB first) into a
+ * Uint8Array whose buffer is transferred from the worker with zero copy.
+ * A 640x480 mask takes 38 KB instead of 307,200 boxed numbers.
+ */
+
+import type { PackedMask } from './types';
+
+/**
+ * Byte length of a packed mask
+ */
+export function getPackedLength(width: number, height: number): number {
+  return Math.ceil((width * height) / 8);
+}
+
+/**
+ * Allocate an empty packed mask
+ */
+export function createPackedMask(width: number, height: number): PackedMask {
+  return {
+    width,
+    height,
+    bits: new Uint8Array(getPackedLength(width, height)),
+    pixelCount: 0,
+  };
+}
+
+/**
+ * Set one pixel (no bounds check; does not update pixelCount)
+ */
+export function setMaskPixel(mask: PackedMask, index: number): void {
+  mask.bits[index >> 3] |= 0x80 >> (index & 7);
+}
+
+/**
+ * Read the pixel at (x, y); out-of-bounds reads return false
+ */
+export function isMaskPixelSet(mask: PackedMask, x: number, y: number): boolean {
+  if (x < 0 || y < 0 || x >= mask.width || y >= mask.height) return false;
+  const index = y * mask.width + x;
+  return (mask.bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+}
+
+/**
+ * Pack a 0/1 array into a bitmap
+ * @param values - One value per pixel, row-major (non-zero means set)
+ */
+export function packMask(
+  values: ArrayLike<number>,
+  width: number,
+  height: number
+): PackedMask {
+  const mask = createPackedMask(width, height);
+  let pixelCount = 0;
+  for (let i = 0; i < width * height; i++) {
+    if (values[i]) {
+      setMaskPixel(mask, i);
+      pixelCount++;
+    }
+  }
+  mask.pixelCount = pixelCount;
+  return mask;
+}
+
+/**
+ * Expand a bitmap to one byte (0/1) per pixel
+ */
+export function unpackMask(mask: PackedMask): Uint8Array {
+  const size = mask.width * mask.height;
+  const values = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    values[i] = (mask.bits[i >> 3] >> (7 - (i & 7))) & 1;
+  }
+  return values;
+}
+
+/**
+ * Count set pixels (popcount over the packed bytes)
+ */
+export function countPackedPixels(mask: PackedMask): number {
+  let count = 0;
+  for (let i = 0; i < mask.bits.length; i++) {
+    let byte = mask.bits[i];
+    while (byte) {
+      byte &= byte - 1;
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Paint set pixels into an RGBA buffer of the same size (e.g. ImageData.data)
+ * @param rgba - Destination, width x height x 4 bytes
+ * @param color - [r, g, b, a] written to every set pixel
+ */
+export function paintMask(
+  mask: PackedMask,
+  rgba: Uint8ClampedArray,
+  color: readonly [number, number, number, number]
+): void {
+  for (let byteIndex = 0; byteIndex < mask.bits.length; byteIndex++) {
+    const byte = mask.bits[byteIndex];
+    if (byte === 0) continue;
+    for (let bit = 0; bit < 8; bit++) {
+      if ((byte & (0x80 >> bit)) === 0) continue;
+      const p = ((byteIndex << 3) + bit) * 4;
+      rgba[p] = color[0];
+      rgba[p + 1] = color[1];
+      rgba[p + 2] = color[2];
+      rgba[p + 3] = color[3];
+    }
+  }
+}
+
+/**
+ * Buffers to list as transferables when posting masks across threads
+ * The sender's masks are detached afterwards
+ */
+export function getMaskTransferables(masks: PackedMask[]): ArrayBuffer[] {
+  return masks.map((mask) => mask.bits.buffer as ArrayBuffer);
+}
@@ -0,0 +1,134 @@
+/**
+ * Model Loader
+ * Downloads the ONNX model with progress reporting and keeps it in Cache Storage,
+ * so later launches (and offline launches) skip the network entirely.
+ * The cache is versioned by the model hash from the model manifest: a retrained
+ * model deployed at the same path is downloaded again
+ */
+
+import type { ModelDownloadProgress } from './types';
+import { PWA_CONFIG } from '@/lib/constants';
+
+/** public/models/manifest.json, written by `pnpm model:manifest` */
+interface ModelManifest {
+  files: Record<string, { sha256: string; size: number }>;
+}
+
+/**
+ * Cache name for the deployed model version
+ * Without a readable manifest (offline without the service worker, or no manifest
+ * deployed), falls back to any existing cache of this model, then to the unversioned name
+ */
+async function getModelCacheName(modelUrl: string): Promise<string> {
+  try {
+    const response = await fetch(new URL(PWA_CONFIG.MODEL_MANIFEST_PATH, modelUrl), {
+      cache: 'no-cache',
+    });
+    if (response.ok) {
+      const manifest = (await response.json()) as ModelManifest;
+      const fileName = new URL(modelUrl).pathname.split('/').pop() ?? '';
+      const entry = manifest.files?.[fileName];
+      if (entry) return `${PWA_CONFIG.MODEL_CACHE_NAME}@${entry.sha256}`;
+    }
+  } catch (error) {
+    console.warn('[ModelLoader] Could not read the model manifest:', error);
+  }
+
+  const names = await caches.keys();
+  return (
+    names.find((name) => name.startsWith(`${PWA_CONFIG.MODEL_CACHE_NAME}@`)) ??
+    PWA_CONFIG.MODEL_CACHE_NAME
+  );
+}
+
+/**
+ * Load model bytes, from Cache Storage when available, otherwise from the network
+ * @param modelUrl - Absolute model URL
+ * @param onProgress - Called as bytes arrive (not called on cache hits)
+ * @returns Model file contents
+ */
+export async function loadModel(
+  modelUrl: string,
+  onProgress?: (progress: ModelDownloadProgress) => void
+): Promise<Uint8Array> {
+  const cacheName = typeof caches !== 'undefined' ? await getModelCacheName(modelUrl) : null;
+  const cache = cacheName ? await caches.open(cacheName) : null;
+
+  const cached = await cache?.match(modelUrl);
+  if (cached) {
+    console.log('[ModelLoader] Model served from cache:', cacheName);
+    return new Uint8Array(await cached.arrayBuffer());
+  }
+
+  const response = await fetch(modelUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download model (HTTP ${response.status})`);
+  }
+
+  const bytes = await readWithProgress(response, onProgress);
+
+  if (cache && cacheName) {
+    try {
+      await cache.put(
+        modelUrl,
+        new Response(bytes, {
+          headers: { 'Content-Type': 'application/octet-stream' },
+        })
+      );
+      await purgeStaleModelCaches(cacheName);
+    } catch (error) {
+      // Quota errors must not block inference; the model is simply re-downloaded next time
+      console.warn('[ModelLoader] Failed to cache model:', error);
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Read a response body while reporting download progress
+ */
+async function readWithProgress(
+  response: Response,
+  onProgress?: (progress: ModelDownloadProgress) => void
+): Promise<Uint8Array<ArrayBuffer>> {
+  const total = Number(response.headers.get('content-length')) || null;
+
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    onProgress?.({ loaded: bytes.length, total: bytes.length });
+    return bytes;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress?.({ loaded, total });
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Delete model caches left behind by previous MODEL_PATH values or model versions
+ */
+async function purgeStaleModelCaches(currentName: string): Promise<void> {
+  const names = await caches.keys();
+  await Promise.all(
+    names
+      .filter((name) => name.startsWith(PWA_CONFIG.MODEL_CACHE_PREFIX) && name !== currentName)
+      .map((name) => caches.delete(name))
+  );
+}
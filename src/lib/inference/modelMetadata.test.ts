@@ -0,0 +1,74 @@
+import type { InferenceSession } from 'onnxruntime-web';
+import { describe, expect, it } from 'vitest';
+import { InferenceError } from './errors';
+import { resolveModelSpec } from './modelMetadata';
+
+type Shape = (number | string)[];
+
+function tensor(name: string, shape: Shape): InferenceSession.ValueMetadata {
+  return { name, isTensor: true, type: 'float32', shape };
+}
+
+function session(detection: Shape, protos?: Shape) {
+  return {
+    inputMetadata: [tensor('images', [1, 3, 640, 640])],
+    outputMetadata: [
+      tensor('output0', detection),
+      ...(protos ? [tensor('output1', protos)] : []),
+    ],
+  };
+}
+
+const NAMES = "{0: 'rice', 1: 'bread', 2: 'egg'}";
+
+describe('resolveModelSpec', () => {
+  it('detects yolov8-seg from a channels-first output and prototypes', () => {
+    const spec = resolveModelSpec(session([1, 39, 8400], [1, 32, 160, 160]), { names: NAMES });
+    expect(spec).toMatchObject({
+      kind: 'yolov8-seg',
+      inputSize: 640,
+      detectionOutputName: 'output0',
+      protoOutputName: 'output1',
+      numClasses: 3,
+      numMaskCoeffs: 32,
+      classNames: ['rice', 'bread', 'egg'],
+    });
+  });
+
+  it('detects yolo11-seg from the Ultralytics description', () => {
+    const spec = resolveModelSpec(session([1, 39, 8400], [1, 32, 160, 160]), {
+      description: 'Ultralytics YOLO11n-seg model',
+    });
+    expect(spec).toMatchObject({ kind: 'yolo11-seg', numClasses: 3, numMaskCoeffs: 32 });
+  });
+
+  it('detects yolov8-detect when there are no prototypes', () => {
+    const spec = resolveModelSpec(session([1, 7, 8400]), { task: 'detect' });
+    expect(spec).toMatchObject({
+      kind: 'yolov8-detect',
+      protoOutputName: null,
+      numClasses: 3,
+      numMaskCoeffs: 0,
+    });
+  });
+
+  it('detects yolov5-seg from an anchors-first output, objectness included', () => {
+    const spec = resolveModelSpec(session([1, 25200, 40], [1, 32, 160, 160]), {});
+    expect(spec).toMatchObject({ kind: 'yolov5-seg', numClasses: 3, numMaskCoeffs: 32 });
+  });
+
+  it('treats a dynamic anchor dimension as the anchors', () => {
+    expect(resolveModelSpec(session([1, 39, 'anchors'], [1, 32, 160, 160]), {}).kind).toBe(
+      'yolov8-seg'
+    );
+    expect(resolveModelSpec(session([1, 'anchors', 40], [1, 32, 160, 160]), {}).kind).toBe(
+      'yolov5-seg'
+    );
+  });
+
+  it('rejects class names that disagree with the output width', () => {
+    expect(() =>
+      resolveModelSpec(session([1, 40, 8400], [1, 32, 160, 160]), { names: NAMES })
+    ).toThrow(InferenceError);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Model Metadata
+ * Reads the input/output layout and class list of the loaded ONNX model
+ * (session metadata plus the model's custom metadata_props, e.g. Ultralytics
+ * `names` and `imgsz`) and checks it against the food database at INIT,
+ * so retrained models can be swapped in without touching the parser.
+ */
+
+import type { InferenceSession } from 'onnxruntime-web';
+import type { FoodInfo, ModelKind, ModelSpec } from './types';
+import { InferenceError } from './errors';
+import { getFoodDatabase } from './foodDatabase';
+import { INFERENCE_CONFIG } from '@/lib/constants';
+
+type SessionMetadata = Pick<InferenceSession, 'inputMetadata' | 'outputMetadata'>;
+type TensorMetadata = InferenceSession.TensorValueMetadata;
+
+const BOX_CHANNELS = 4;
+
+// ModelProto.metadata_props field number, and StringStringEntryProto key/value
+const METADATA_PROPS_FIELD = 14;
+const ENTRY_KEY_FIELD = 1;
+const ENTRY_VALUE_FIELD = 2;
+
+/**
+ * Read the custom metadata (metadata_props) of an ONNX model
+ * Walks the top-level ModelProto fields only; the graph is skipped, not parsed
+ * @param modelBytes - Serialized ModelProto
+ * @returns Key/value pairs (empty when the model has none)
+ */
+export function readModelMetadataProps(modelBytes: Uint8Array): Record<string, string> {
+  const props: Record<string, string> = {};
+  try {
+    forEachField(modelBytes, 0, modelBytes.length, (field, start, end) => {
+      if (field !== METADATA_PROPS_FIELD) return;
+      let key = '';
+      let value = '';
+      forEachField(modelBytes, start, end, (entryField, entryStart, entryEnd) => {
+        const text = new TextDecoder().decode(modelBytes.subarray(entryStart, entryEnd));
+        if (entryField === ENTRY_KEY_FIELD) key = text;
+        else if (entryField === ENTRY_VALUE_FIELD) value = text;
+      });
+      if (key) props[key] = value;
+    });
+  } catch (error) {
+    console.warn('[ModelMetadata] Could not read metadata_props:', error);
+  }
+  return props;
+}
+
+/**
+ * Iterate the fields of a protobuf message, calling back for length-delimited ones
+ */
+function forEachField(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  onLengthDelimited: (field: number, start: number, end: number) => void
+): void {
+  let offset = start;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (offset >= end) throw new Error('Truncated varint');
+      const byte = bytes[offset++];
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) return result;
+      multiplier *= 128;
+    }
+  };
+
+  while (offset < end) {
+    const tag = readVarint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+
+    switch (wireType) {
+      case 0: // varint
+        readVarint();
+        break;
+      case 1: // 64-bit
+        offset += 8;
+        break;
+      case 2: {
+        // length-delimited
+        const length = readVarint();
+        if (offset + length > end) throw new Error('Truncated field');
+        onLengthDelimited(field, offset, offset + length);
+        offset += length;
+        break;
+      }
+      case 5: // 32-bit
+        offset += 4;
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+}
+
+/**
+ * Parse Ultralytics `names` metadata
+ * Written as a Python dict literal, e.g. "{0: 'rice', 1: 'bread'}" (JSON also accepted)
+ * @returns Names indexed by class ID, or null if absent/unparseable/non-contiguous
+ */
+export function parseClassNames(value: string | undefined): string[] | null {
+  if (!value) return null;
+
+  const names: string[] = [];
+  for (const match of value.matchAll(/"?(\d+)"?\s*:\s*(['"])(.*?)\2/g)) {
+    names[parseInt(match[1], 10)] = match[3];
+  }
+  if (names.length === 0) return null;
+  for (let i = 0; i < names.length; i++) {
+    if (names[i] === undefined) return null;
+  }
+  return names;
+}
+
+/**
+ * Parse Ultralytics `imgsz` metadata, e.g. "[640, 640]"
+ * @returns Square input size, or null
+ */
+function parseImageSize(value: string | undefined): number | null {
+  const sizes = value?.match(/\d+/g)?.map(Number);
+  if (!sizes || sizes.length === 0) return null;
+  return sizes.every((size) => size === sizes[0]) ? sizes[0] : null;
+}
+
+function unsupportedModel(reason: string): never {
+  throw new InferenceError('MODEL_INCOMPATIBLE', `Unsupported model: ${reason}`);
+}
+
+function databaseMismatch(reason: string): never {
+  throw new InferenceError(
+    'MODEL_INCOMPATIBLE',
+    `Model does not match the food database: ${reason}`
+  );
+}
+
+function isTensor(value: InferenceSession.ValueMetadata): value is TensorMetadata {
+  return value.isTensor;
+}
+
+function fixedDim(dim: number | string | undefined): number | null {
+  return typeof dim === 'number' && dim > 0 ? dim : null;
+}
+
+/**
+ * Resolve the model layout from session and custom metadata
+ * @param session - Created inference session
+ * @param props - Custom metadata from readModelMetadataProps
+ * @throws InferenceError MODEL_INCOMPATIBLE when the layout is not a supported YOLO model
+ */
+export function resolveModelSpec(
+  session: SessionMetadata,
+  props: Record<string, string>
+): ModelSpec {
+  // Image input [N, 3, H, W]; dynamic sizes fall back to imgsz metadata, then the default
+  const input = session.inputMetadata.find(isTensor);
+  if (!input) unsupportedModel('no tensor input');
+  const inputShape = input.shape;
+  if (inputShape.length !== 4) {
+    unsupportedModel(
+      `input "${input.name}" has shape [${inputShape.join(', ')}], expected [1, 3, H, W]`
+    );
+  }
+  const inputH = fixedDim(inputShape[2]);
+  const inputW = fixedDim(inputShape[3]);
+  if (inputH !== null && inputW !== null && inputH !== inputW) {
+    unsupportedModel(`input is ${inputW}x${inputH}, only square inputs are supported`);
+  }
+  const inputSize =
+    inputH ?? inputW ?? parseImageSize(props.imgsz) ?? INFERENCE_CONFIG.INPUT_SIZE;
+
+  // Detection output (3D) and, for segmentation models, mask prototypes [1, M, H, W]
+  const outputs = session.outputMetadata.filter(isTensor);
+  const detection = outputs.find((o) => o.shape.length === 3);
+  const protos = outputs.find((o) => o.shape.length === 4) ?? null;
+  if (!detection) unsupportedModel('no 3D detection output');
+
+  let numMaskCoeffs = 0;
+  if (protos) {
+    const protoChannels = fixedDim(protos.shape[1]);
+    if (protoChannels === null) {
+      unsupportedModel(`prototype output "${protos.name}" has a dynamic channel count`);
+    }
+    numMaskCoeffs = protoChannels;
+  }
+
+  // YOLOv5 exports anchors first ([1, anchors, 5 + C + M]), Ultralytics v8/11 channels first;
+  // the anchor dimension is the larger one, or the dynamic one
+  const dim1 = fixedDim(detection.shape[1]);
+  const dim2 = fixedDim(detection.shape[2]);
+  const anchorsFirst = dim2 !== null && (dim1 === null || dim1 > dim2);
+  const kind = resolveModelKind(anchorsFirst, protos !== null, props);
+  const channels = anchorsFirst ? dim2 : dim1;
+  const headChannels = kind === 'yolov5-seg' ? BOX_CHANNELS + 1 : BOX_CHANNELS;
+
+  // Class count from the output width, cross-checked with the metadata names
+  const classNames = parseClassNames(props.names);
+  let numClasses: number;
+  if (channels !== null) {
+    numClasses = channels - headChannels - numMaskCoeffs;
+    if (numClasses <= 0) {
+      unsupportedModel(
+        `detection output has ${channels} channels for ${numMaskCoeffs} mask coefficients`
+      );
+    }
+    if (classNames && classNames.length !== numClasses) {
+      unsupportedModel(
+        `metadata lists ${classNames.length} class names but the output has ${numClasses} classes`
+      );
+    }
+  } else if (classNames) {
+    numClasses = classNames.length;
+  } else {
+    unsupportedModel('dynamic detection channels and no class names in the metadata');
+  }
+
+  return {
+    kind,
+    inputName: input.name,
+    inputSize,
+    detectionOutputName: detection.name,
+    protoOutputName: protos?.name ?? null,
+    numClasses,
+    numMaskCoeffs,
+    classNames,
+  };
+}
+
+/**
+ * Pick the model family from the output layout and Ultralytics metadata
+ * (`task` is "segment"/"detect", `description` names the architecture)
+ */
+function resolveModelKind(
+  anchorsFirst: boolean,
+  hasProtos: boolean,
+  props: Record<string, string>
+): ModelKind {
+  if (anchorsFirst) {
+    if (!hasProtos) unsupportedModel('YOLOv5 detect-only models are not supported');
+    return 'yolov5-seg';
+  }
+  if (!hasProtos) {
+    if (props.task && props.task !== 'detect') {
+      unsupportedModel(`task "${props.task}" has no mask prototype output`);
+    }
+    return 'yolov8-detect';
+  }
+  return /yolo\s*11/i.test(props.description ?? '') ? 'yolo11-seg' : 'yolov8-seg';
+}
+
+/**
+ * Normalize a class name for comparison ("French fries" -> "french_fries")
+ */
+function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Check the model classes against the food database
+ * @param spec - Resolved model layout
+ * @param database - Food database (defaults to FOOD_DATABASE)
+ * @throws InferenceError MODEL_INCOMPATIBLE on class count or name mismatch
+ */
+export function validateModelSpec(
+  spec: ModelSpec,
+  database: Record<number, FoodInfo> = getFoodDatabase()
+): void {
+  const databaseSize = Object.keys(database).length;
+  if (spec.numClasses !== databaseSize) {
+    databaseMismatch(`the model has ${spec.numClasses} classes, the database ${databaseSize}`);
+  }
+
+  const mismatches: string[] = [];
+  for (let classId = 0; classId < spec.numClasses; classId++) {
+    const food = database[classId];
+    if (!food) {
+      mismatches.push(`class ${classId} is missing from the database`);
+      continue;
+    }
+    const modelName = spec.classNames?.[classId];
+    if (modelName !== undefined && normalizeLabel(modelName) !== food.modelLabel) {
+      mismatches.push(`class ${classId} is "${modelName}" in the model, "${food.modelLabel}" in the database`);
+    }
+  }
+  if (mismatches.length > 0) {
+    const shown = mismatches.slice(0, 3).join('; ');
+    databaseMismatch(mismatches.length > 3 ? `${shown} (+${mismatches.length - 3} more)` : shown);
+  }
+}
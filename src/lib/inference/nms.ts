@@ -17,6 +17,21 @@ const CONFUSION_GROUPS: number[][] = [
   [19, 20, 24], // spinach (19), cabbage (20), salad (24) — leafy greens confusion
 ];
 
+// Class ID -> index of its confusion group
+const CLASS_TO_GROUP = new Map<number, number>(
+  CONFUSION_GROUPS.flatMap((group, groupIdx) =>
+    group.map((classId): [number, number] => [classId, groupIdx]),
+  ),
+);
+
+/**
+ * Confusion group of a class
+ * @returns Group index, or undefined if the class is not in any group
+ */
+export function getConfusionGroup(classId: number): number | undefined {
+  return CLASS_TO_GROUP.get(classId);
+}
+
 /**
  * Apply Non-Maximum Suppression to filter overlapping detections
  * @param detections - Array of raw detections from YOLO output
@@ -76,14 +91,6 @@ function applyCrossClassNMS(
   detections: RawDetection[],
   iouThreshold: number,
 ): RawDetection[] {
-  // Build a set of class IDs that belong to any confusion group
-  const classToGroup = new Map<number, number>();
-  CONFUSION_GROUPS.forEach((group, groupIdx) => {
-    for (const classId of group) {
-      classToGroup.set(classId, groupIdx);
-    }
-  });
-
   // Already sorted by confidence (descending) from previous step
   const kept: RawDetection[] = [];
   const suppressed = new Set<number>();
@@ -92,13 +99,13 @@ function applyCrossClassNMS(
     if (suppressed.has(i)) continue;
     kept.push(detections[i]);
 
-    const groupI = classToGroup.get(detections[i].classId);
+    const groupI = getConfusionGroup(detections[i].classId);
     if (groupI === undefined) continue; // not in any confusion group
 
     for (let j = i + 1; j < detections.length; j++) {
       if (suppressed.has(j)) continue;
 
-      const groupJ = classToGroup.get(detections[j].classId);
+      const groupJ = getConfusionGroup(detections[j].classId);
       // Same confusion group but different class
       if (
         groupJ === groupI &&
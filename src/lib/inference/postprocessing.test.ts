@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { processDetections } from './postprocessing';
+import { createPackedMask, setMaskPixel } from './maskEncoding';
+import type { BoundingBox, LetterboxInfo, PackedMask, RawDetection } from './types';
+import { INFERENCE_CONFIG } from '@/lib/constants';
+
+// Small model: 160 px input, 4 prototypes of 40x40 (same 1:4 ratio as 640 / 160)
+const INPUT_SIZE = 160;
+const NUM_PROTOS = 4;
+const PROTO_SIZE = 40;
+const PROTO_DIMS = [1, NUM_PROTOS, PROTO_SIZE, PROTO_SIZE];
+
+// A 4:3 image letterboxed with 20 px bands at the top and bottom
+const LETTERBOX: LetterboxInfo = {
+  scale: 0.25,
+  padX: 0,
+  padY: 20,
+  resizedWidth: 160,
+  resizedHeight: 120,
+  originalWidth: 640,
+  originalHeight: 480,
+  inputSize: INPUT_SIZE,
+};
+
+/** Deterministic values in [-1, 1) */
+function seededValues(count: number, seed: number): Float32Array {
+  const values = new Float32Array(count);
+  let state = seed;
+  for (let i = 0; i < count; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    values[i] = state / 2 ** 31 - 1;
+  }
+  return values;
+}
+
+/**
+ * Full-frame reference: every prototype cell through the sigmoid, upsampled over
+ * the whole image, then cleared outside the box (YOLO crop_mask)
+ */
+function fullFrameMask(
+  coeffs: Float32Array,
+  box: BoundingBox,
+  protos: Float32Array,
+  letterbox: LetterboxInfo
+): PackedMask {
+  const planeSize = PROTO_SIZE * PROTO_SIZE;
+  const probabilities = new Float32Array(planeSize);
+  for (let i = 0; i < planeSize; i++) {
+    let sum = 0;
+    for (let c = 0; c < NUM_PROTOS; c++) sum += coeffs[c] * protos[c * planeSize + i];
+    probabilities[i] = 1 / (1 + Math.exp(-sum));
+  }
+
+  const left = Math.floor((box.x - box.width / 2) * INPUT_SIZE - letterbox.padX);
+  const top = Math.floor((box.y - box.height / 2) * INPUT_SIZE - letterbox.padY);
+  const right = Math.ceil((box.x + box.width / 2) * INPUT_SIZE - letterbox.padX);
+  const bottom = Math.ceil((box.y + box.height / 2) * INPUT_SIZE - letterbox.padY);
+
+  const scale = PROTO_SIZE / INPUT_SIZE;
+  const mask = createPackedMask(letterbox.resizedWidth, letterbox.resizedHeight);
+  for (let y = 0; y < letterbox.resizedHeight; y++) {
+    for (let x = 0; x < letterbox.resizedWidth; x++) {
+      const cell = Math.floor((y + letterbox.padY) * scale) * PROTO_SIZE + Math.floor((x + letterbox.padX) * scale);
+      const inBox = x >= left && x < right && y >= top && y < bottom;
+      if (inBox && probabilities[cell] >= INFERENCE_CONFIG.MASK_THRESHOLD) {
+        setMaskPixel(mask, y * letterbox.resizedWidth + x);
+        mask.pixelCount++;
+      }
+    }
+  }
+  return mask;
+}
+
+describe('processDetections masks', () => {
+  const protos = seededValues(NUM_PROTOS * PROTO_SIZE * PROTO_SIZE, 7);
+
+  // Boxes normalized to the 160 px input; the image spans y 20-140 (0.125-0.875)
+  const boxes: Record<string, BoundingBox> = {
+    'inside the image': { x: 0.5, y: 0.5, width: 0.3, height: 0.25 },
+    'past the left edge': { x: 0.05, y: 0.5, width: 0.3, height: 0.4 },
+    'past the right edge': { x: 0.97, y: 0.4, width: 0.2, height: 0.2 },
+    'into the top padding': { x: 0.4, y: 0.15, width: 0.3, height: 0.2 },
+    'into the bottom padding, on a corner': { x: 0.95, y: 0.86, width: 0.25, height: 0.2 },
+    'over the whole input': { x: 0.5, y: 0.5, width: 1, height: 1 },
+  };
+
+  for (const [name, box] of Object.entries(boxes)) {
+    it(`matches the full-frame mask for a box ${name}`, async () => {
+      const coeffs = seededValues(NUM_PROTOS, name.length);
+      const detection: RawDetection = { classId: 0, confidence: 0.9, box, maskCoeffs: coeffs };
+
+      const [{ mask }] = await processDetections([detection], protos, PROTO_DIMS, LETTERBOX, 0.01);
+      const expected = fullFrameMask(coeffs, box, protos, LETTERBOX);
+
+      expect(expected.pixelCount).toBeGreaterThan(0);
+      expect(mask.pixelCount).toBe(expected.pixelCount);
+      expect(mask.bits).toEqual(expected.bits);
+    });
+  }
+
+  it('reuses its scratch buffer without leaking values between detections', async () => {
+    const large: RawDetection = {
+      classId: 0,
+      confidence: 0.9,
+      box: boxes['over the whole input'],
+      maskCoeffs: seededValues(NUM_PROTOS, 1),
+    };
+    const small: RawDetection = {
+      classId: 1,
+      confidence: 0.8,
+      box: boxes['past the left edge'],
+      maskCoeffs: seededValues(NUM_PROTOS, 2),
+    };
+
+    const masks = (await processDetections([large, small], protos, PROTO_DIMS, LETTERBOX, 0.01)).map((d) => d.mask);
+
+    expect(masks[1].bits).toEqual(fullFrameMask(small.maskCoeffs, small.box, protos, LETTERBOX).bits);
+  });
+});
@@ -3,21 +3,34 @@
  * Generates binary masks from prototypes and calculates nutrition using physics-based algorithm
  */
 
-import type { Detection, RawDetection, NutritionInfo, FoodInfo } from './types';
+import type {
+  Detection,
+  RawDetection,
+  NutritionInfo,
+  FoodInfo,
+  BoundingBox,
+  LetterboxInfo,
+  PackedMask,
+} from './types';
 import { getFoodInfo } from './foodDatabase';
+import { createPackedMask, setMaskPixel } from './maskEncoding';
 import { INFERENCE_CONFIG } from '@/lib/constants';
 
 /**
  * Process raw detections to generate masks and calculate nutrition
  * @param detections - Filtered detections from NMS
- * @param maskProtos - Mask prototypes tensor from YOLO output1 [1, 32, 160, 160]
- * @param protoDims - Dimensions of mask prototypes tensor
- * @returns Complete detection results with masks and nutrition
+ * @param maskProtos - Mask prototypes tensor from YOLO output1 [1, 32, 160, 160], null for detect-only models
+ * @param protoDims - Dimensions of mask prototypes tensor, null for detect-only models
+ * @param letterbox - Letterbox geometry applied during preprocessing
+ * @param maskPixelAreaCm2 - Real-world area covered by one mask pixel (cm²)
+ * @returns Complete detection results with masks and nutrition, in original-image coordinates
  */
 export async function processDetections(
   detections: RawDetection[],
-  maskProtos: Float32Array,
-  protoDims: number[]
+  maskProtos: Float32Array | null,
+  protoDims: number[] | null,
+  letterbox: LetterboxInfo,
+  maskPixelAreaCm2: number
 ): Promise<Detection[]> {
   const results: Detection[] = [];
 
@@ -25,18 +38,21 @@ export async function processDetections(
     // Get food information from database
     const foodInfo = getFoodInfo(detection.classId);
 
-    // Generate binary mask from prototypes
-    const mask = generateMask(detection.maskCoeffs, maskProtos, protoDims);
+    // Generate binary mask from prototypes (un-letterboxed), or from the box for detect-only models
+    const mask =
+      maskProtos && protoDims
+        ? generateMask(detection.maskCoeffs, detection.box, maskProtos, protoDims, letterbox)
+        : generateBoxMask(detection.box, letterbox);
 
     // Calculate nutrition using physics-based algorithm
-    const nutrition = calculateNutrition(mask, foodInfo);
+    const nutrition = calculateNutrition(mask, foodInfo, maskPixelAreaCm2);
 
     // Create complete detection result
     results.push({
       classId: detection.classId,
       label: foodInfo.name,
       confidence: detection.confidence,
-      box: detection.box,
+      box: unletterboxBox(detection.box, letterbox),
       mask,
       nutrition,
       icon: foodInfo.icon,
@@ -46,159 +62,209 @@ export async function processDetections(
   return results;
 }
 
+// Logits of the prototype cells covered by the current box, reused across detections
+let protoScratch = new Float32Array(0);
+
 /**
  * Generate binary segmentation mask from YOLO mask prototypes
+ * Only the prototype cells under the detection box are evaluated, and the
+ * sigmoid is folded into the threshold (sigmoid(x) >= t  <=>  x >= logit(t)),
+ * so no Math.exp and no per-detection float buffers are needed.
+ * Pixels outside the box are left empty, as in the reference YOLO pipeline.
  * @param coeffs - Mask coefficients from detection (32 values)
+ * @param box - Detection box, normalized to the model input (letterboxed) frame
  * @param protos - Mask prototypes [1, 32, 160, 160] flattened
  * @param dims - Tensor dimensions [1, 32, 160, 160]
- * @returns Binary mask (640x640 flat array of 0/1 values)
+ * @param letterbox - Letterbox geometry, used to crop the padding out of the mask
+ * @returns Bit-packed binary mask covering the original image (resizedWidth x resizedHeight)
  */
 function generateMask(
   coeffs: Float32Array,
+  box: BoundingBox,
   protos: Float32Array,
-  dims: number[]
-): number[] {
-  const [_, numProtos, protoH, protoW] = dims; // [1, 32, 160, 160]
-  const outputSize = protoH * protoW; // 25,600 pixels
-
-  // Debug: Check input data
-  console.log('[Mask Gen] Input check:', {
-    dims,
-    numProtos,
-    protoH,
-    protoW,
-    outputSize,
-    coeffsLength: coeffs.length,
-    protosLength: protos.length,
-    coeffsSample: Array.from(coeffs.slice(0, 5)),
-    protosSample: Array.from(protos.slice(0, 5)),
-    coeffsHasNaN: Array.from(coeffs).some(v => isNaN(v)),
-    protosHasNaN: Array.from(protos).some(v => isNaN(v)),
-  });
-
-  // Matrix multiplication: (1x32) @ (32x25600) = (1x25600)
-  // Each prototype is weighted by its coefficient
-  const mask = new Float32Array(outputSize);
-
-  for (let i = 0; i < outputSize; i++) {
-    let sum = 0;
-
-    // Weighted sum of all 32 prototype channels
-    for (let c = 0; c < numProtos; c++) {
-      sum += coeffs[c] * protos[c * outputSize + i];
+  dims: number[],
+  letterbox: LetterboxInfo
+): PackedMask {
+  const [, numProtos, protoH, protoW] = dims; // [1, 32, 160, 160]
+  const planeSize = protoH * protoW;
+  const inputSize = letterbox.inputSize;
+  const dstW = letterbox.resizedWidth;
+  const dstH = letterbox.resizedHeight;
+  const result = createPackedMask(dstW, dstH);
+
+  // Box in output-mask pixels (un-padded input space), clamped to the image
+  const x0 = Math.max(0, Math.floor((box.x - box.width / 2) * inputSize - letterbox.padX));
+  const y0 = Math.max(0, Math.floor((box.y - box.height / 2) * inputSize - letterbox.padY));
+  const x1 = Math.min(dstW, Math.ceil((box.x + box.width / 2) * inputSize - letterbox.padX));
+  const y1 = Math.min(dstH, Math.ceil((box.y + box.height / 2) * inputSize - letterbox.padY));
+  if (x1 <= x0 || y1 <= y0) return result;
+
+  // Matching prototype cells (nearest neighbour)
+  const scaleX = protoW / inputSize;
+  const scaleY = protoH / inputSize;
+  const px0 = Math.floor((x0 + letterbox.padX) * scaleX);
+  const py0 = Math.floor((y0 + letterbox.padY) * scaleY);
+  const px1 = Math.min(protoW, Math.floor((x1 - 1 + letterbox.padX) * scaleX) + 1);
+  const py1 = Math.min(protoH, Math.floor((y1 - 1 + letterbox.padY) * scaleY) + 1);
+  const cropW = px1 - px0;
+  const cropH = py1 - py0;
+
+  if (protoScratch.length < cropW * cropH) {
+    protoScratch = new Float32Array(planeSize);
+  }
+  const logits = protoScratch;
+  logits.fill(0, 0, cropW * cropH);
+
+  // (1x32) @ (32 x crop): channel-outer so each prototype row is read contiguously
+  for (let c = 0; c < numProtos; c++) {
+    const coeff = coeffs[c];
+    const plane = c * planeSize;
+    for (let py = 0; py < cropH; py++) {
+      const srcRow = plane + (py0 + py) * protoW + px0;
+      const dstRow = py * cropW;
+      for (let px = 0; px < cropW; px++) {
+        logits[dstRow + px] += coeff * protos[srcRow + px];
+      }
     }
-
-    // Apply sigmoid activation: 1 / (1 + exp(-x))
-    mask[i] = 1 / (1 + Math.exp(-sum));
   }
 
-  // Debug: Check mask values before resize
-  const maskMin = Math.min(...mask);
-  const maskMax = Math.max(...mask);
-  const maskMean = mask.reduce((sum, val) => sum + val, 0) / mask.length;
-  console.log('[Mask Gen] Before resize:', { min: maskMin, max: maskMax, mean: maskMean });
-
-  // Resize from 160x160 to 640x640 and binarize
-  const binaryMask = resizeAndBinarizeMask(
-    mask,
-    protoH,
-    protoW,
-    INFERENCE_CONFIG.INPUT_SIZE,
-    INFERENCE_CONFIG.INPUT_SIZE,
-    INFERENCE_CONFIG.MASK_THRESHOLD
-  );
+  // Upsample into the packed mask and binarize against the threshold logit
+  const threshold = INFERENCE_CONFIG.MASK_THRESHOLD;
+  const logitThreshold = Math.log(threshold / (1 - threshold));
+  let pixelCount = 0;
+  for (let y = y0; y < y1; y++) {
+    const cropRow = (Math.floor((y + letterbox.padY) * scaleY) - py0) * cropW;
+    const dstRow = y * dstW;
+    for (let x = x0; x < x1; x++) {
+      const cropX = Math.floor((x + letterbox.padX) * scaleX) - px0;
+      if (logits[cropRow + cropX] >= logitThreshold) {
+        setMaskPixel(result, dstRow + x);
+        pixelCount++;
+      }
+    }
+  }
+  result.pixelCount = pixelCount;
 
-  // Debug: Check binary mask
-  const pixelCount = binaryMask.reduce((sum, val) => sum + val, 0);
-  console.log('[Mask Gen] After resize:', { length: binaryMask.length, pixelCount });
+  if (INFERENCE_CONFIG.DEBUG_STATS) {
+    logMaskStats(logits.subarray(0, cropW * cropH), result, cropW, cropH);
+  }
 
-  return binaryMask;
+  return result;
 }
 
 /**
- * Resize mask from source dimensions to target dimensions and binarize
- * @param mask - Source mask (160x160 flattened)
- * @param srcH - Source height (160)
- * @param srcW - Source width (160)
- * @param dstH - Target height (640)
- * @param dstW - Target width (640)
- * @param threshold - Binarization threshold (0.5)
- * @returns Binary mask array (640x640 = 409,600 values of 0 or 1)
+ * Approximate mask for detect-only models: the ellipse inscribed in the box
+ * Food on a plate is roughly round, so this covers ~π/4 of the box instead of
+ * counting the corners, and keeps the overlay and hit-testing working.
+ * @param box - Detection box, normalized to the model input (letterboxed) frame
+ * @param letterbox - Letterbox geometry
+ * @returns Bit-packed binary mask covering the original image (resizedWidth x resizedHeight)
  */
-function resizeAndBinarizeMask(
-  mask: Float32Array,
-  srcH: number,
-  srcW: number,
-  dstH: number,
-  dstW: number,
-  threshold: number
-): number[] {
-  const result = new Array(dstH * dstW);
-  const scaleX = srcW / dstW;
-  const scaleY = srcH / dstH;
-
-  // Nearest neighbor interpolation
-  for (let y = 0; y < dstH; y++) {
-    for (let x = 0; x < dstW; x++) {
-      const srcX = Math.floor(x * scaleX);
-      const srcY = Math.floor(y * scaleY);
-      const value = mask[srcY * srcW + srcX];
-
-      // Binarize: 1 if above threshold, 0 otherwise
-      result[y * dstW + x] = value >= threshold ? 1 : 0;
+function generateBoxMask(box: BoundingBox, letterbox: LetterboxInfo): PackedMask {
+  const inputSize = letterbox.inputSize;
+  const dstW = letterbox.resizedWidth;
+  const dstH = letterbox.resizedHeight;
+  const result = createPackedMask(dstW, dstH);
+
+  const cx = box.x * inputSize - letterbox.padX;
+  const cy = box.y * inputSize - letterbox.padY;
+  const rx = (box.width * inputSize) / 2;
+  const ry = (box.height * inputSize) / 2;
+  if (rx <= 0 || ry <= 0) return result;
+
+  const x0 = Math.max(0, Math.floor(cx - rx));
+  const y0 = Math.max(0, Math.floor(cy - ry));
+  const x1 = Math.min(dstW, Math.ceil(cx + rx));
+  const y1 = Math.min(dstH, Math.ceil(cy + ry));
+
+  let pixelCount = 0;
+  for (let y = y0; y < y1; y++) {
+    const dy = (y + 0.5 - cy) / ry;
+    const dstRow = y * dstW;
+    for (let x = x0; x < x1; x++) {
+      const dx = (x + 0.5 - cx) / rx;
+      if (dx * dx + dy * dy <= 1) {
+        setMaskPixel(result, dstRow + x);
+        pixelCount++;
+      }
     }
   }
+  result.pixelCount = pixelCount;
 
   return result;
 }
 
+/**
+ * Debug: logit range of a mask crop and resulting pixel count
+ */
+function logMaskStats(logits: Float32Array, mask: PackedMask, cropW: number, cropH: number): void {
+  let min = Infinity;
+  let max = -Infinity;
+  let nanCount = 0;
+  for (let i = 0; i < logits.length; i++) {
+    const v = logits[i];
+    if (Number.isNaN(v)) {
+      nanCount++;
+      continue;
+    }
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  console.log('[Mask Gen]', {
+    crop: `${cropW}x${cropH}`,
+    logitMin: min,
+    logitMax: max,
+    nanCount,
+    size: `${mask.width}x${mask.height}`,
+    pixelCount: mask.pixelCount,
+  });
+}
+
 /**
  * CRITICAL: Calculate nutrition using the exact NutriScan physics-based algorithm
  *
  * Algorithm steps:
  * 1. Count mask pixels (area in pixels)
- * 2. Convert pixel area to real-world area (cm²) using calibration ratio
+ * 2. Convert pixel area to real-world area (cm²) using the per-image calibration
  * 3. Calculate volume (cm³) using food-specific thickness
  * 4. Calculate weight (g) using food-specific density
  * 5. Calculate calories and macros from weight
  *
- * Calibration: 640px = 30cm (pixel_ratio = 30/640 cm per pixel)
+ * Calibration: resolved per image by calibrateScale (reference object,
+ * user-drawn line, or the 30cm-frame default)
  *
- * @param mask - Binary mask (640x640 flat array)
+ * @param mask - Packed binary mask over the original image
  * @param foodInfo - Food metadata (density, thickness, nutrition per 100g)
+ * @param maskPixelAreaCm2 - Real-world area covered by one mask pixel (cm²)
  * @returns Calculated nutrition information
  */
-function calculateNutrition(mask: number[], foodInfo: FoodInfo): NutritionInfo {
+function calculateNutrition(
+  mask: PackedMask,
+  foodInfo: FoodInfo,
+  maskPixelAreaCm2: number
+): NutritionInfo {
   // Step 1: Count mask pixels (area in pixels)
-  const pixelCount = mask.reduce((sum, val) => sum + val, 0);
-
-  console.log('[Nutrition Calc]', {
-    food: foodInfo.name,
-    maskLength: mask.length,
-    pixelCount,
-    density: foodInfo.density,
-    thickness: foodInfo.defaultThicknessCm,
-  });
+  const pixelCount = mask.pixelCount;
+
+  if (INFERENCE_CONFIG.DEBUG_STATS) {
+    console.log('[Nutrition Calc]', {
+      food: foodInfo.name,
+      maskSize: `${mask.width}x${mask.height}`,
+      pixelCount,
+      density: foodInfo.density,
+      thickness: foodInfo.defaultThicknessCm,
+    });
+  }
 
-  // If no pixels, return zero nutrition
+  // If no pixels, return zero nutrition (unknown nutrients stay unknown)
   if (pixelCount === 0) {
     console.warn('[Nutrition Calc] WARNING: Pixel count is 0 for', foodInfo.name);
-    return {
-      weightGrams: 0,
-      calories: 0,
-      protein: 0,
-      carbs: 0,
-      fat: 0,
-      fiber: 0,
-    };
+    return calculateNutritionFromWeight(foodInfo, 0);
   }
 
   // Step 2: Pixel-to-real-world scaling
-  // Assumption: 640px = 30cm in real world
-  const pixelRatio = INFERENCE_CONFIG.PIXEL_RATIO; // 30 / 640 cm per pixel
-
   // Calculate real area in cm²
-  const areaRealCm2 = pixelCount * (pixelRatio ** 2);
+  const areaRealCm2 = pixelCount * maskPixelAreaCm2;
 
   // Step 3: Volume estimation (cm³)
   // Volume = Area × Thickness
@@ -209,7 +275,35 @@ function calculateNutrition(mask: number[], foodInfo: FoodInfo): NutritionInfo {
   const weightGrams = volumeCm3 * foodInfo.density;
 
   // Step 5: Nutrition calculation from weight
-  // Database values are per 100g, so scale by (weight / 100)
+  return calculateNutritionFromWeight(foodInfo, weightGrams);
+}
+
+/**
+ * Scale a per-100g value that may be unknown
+ */
+function scaleNutrient(per100g: number | null, scaleFactor: number): number | null {
+  return per100g === null ? null : per100g * scaleFactor;
+}
+
+/**
+ * Sum values that may be unknown: one unknown part makes the total unknown,
+ * since a partial sum would understate it
+ */
+export function sumNutrient(a: number | null, b: number | null): number | null {
+  return a === null || b === null ? null : a + b;
+}
+
+/**
+ * Nutrition for a given weight of food
+ * Database values are per 100g, so scale by (weight / 100)
+ * @param foodInfo - Food metadata from database
+ * @param weightGrams - Portion weight (g)
+ * @returns Unrounded nutrition for the portion; nutrients unknown for the food are null
+ */
+export function calculateNutritionFromWeight(
+  foodInfo: FoodInfo,
+  weightGrams: number
+): NutritionInfo {
   const scaleFactor = weightGrams / 100;
 
   return {
@@ -219,16 +313,53 @@ function calculateNutrition(mask: number[], foodInfo: FoodInfo): NutritionInfo {
     carbs: scaleFactor * foodInfo.carbsPer100g,
     fat: scaleFactor * foodInfo.fatPer100g,
     fiber: scaleFactor * foodInfo.fiberPer100g,
+    sugars: scaleNutrient(foodInfo.sugarsPer100g, scaleFactor),
+    saturatedFat: scaleNutrient(foodInfo.saturatedFatPer100g, scaleFactor),
+    salt: scaleNutrient(foodInfo.saltPer100g, scaleFactor),
+    iron: scaleNutrient(foodInfo.ironPer100g, scaleFactor),
+    calcium: scaleNutrient(foodInfo.calciumPer100g, scaleFactor),
+    vitaminC: scaleNutrient(foodInfo.vitaminCPer100g, scaleFactor),
+  };
+}
+
+/**
+ * Real-world area of one mask pixel
+ * Letterboxing scales both axes uniformly, so each mask pixel is a square
+ * of 1 / scale original pixels per side
+ * @param cmPerPixel - Calibrated size of one original-image pixel (cm)
+ * @param letterbox - Letterbox geometry applied during preprocessing
+ * @returns Area in cm²
+ */
+export function getMaskPixelAreaCm2(
+  cmPerPixel: number,
+  letterbox: LetterboxInfo
+): number {
+  return (cmPerPixel / letterbox.scale) ** 2;
+}
+
+/**
+ * Map a box from normalized model-input coordinates back to the original image
+ * @param box - Box normalized by the model input size (center format)
+ * @param letterbox - Letterbox geometry applied during preprocessing
+ * @returns Box normalized by the original image size
+ */
+export function unletterboxBox(box: BoundingBox, letterbox: LetterboxInfo): BoundingBox {
+  const inputSize = letterbox.inputSize;
+  return {
+    x: (box.x * inputSize - letterbox.padX) / letterbox.resizedWidth,
+    y: (box.y * inputSize - letterbox.padY) / letterbox.resizedHeight,
+    width: (box.width * inputSize) / letterbox.resizedWidth,
+    height: (box.height * inputSize) / letterbox.resizedHeight,
   };
 }
 
 /**
  * Calculate total nutrition from multiple detections
  * @param detections - Array of detection results
- * @returns Aggregated nutrition info
+ * @returns Aggregated nutrition info; a detailed nutrient is null if any detection lacks it
  */
 export function aggregateNutrition(detections: Detection[]): NutritionInfo {
-  return detections.reduce(
+  return detections.reduce<NutritionInfo>(
     (total, detection) => ({
       weightGrams: total.weightGrams + detection.nutrition.weightGrams,
       calories: total.calories + detection.nutrition.calories,
@@ -236,6 +367,12 @@ export function aggregateNutrition(detections: Detection[]): NutritionInfo {
       carbs: total.carbs + detection.nutrition.carbs,
       fat: total.fat + detection.nutrition.fat,
       fiber: total.fiber + detection.nutrition.fiber,
+      sugars: sumNutrient(total.sugars, detection.nutrition.sugars),
+      saturatedFat: sumNutrient(total.saturatedFat, detection.nutrition.saturatedFat),
+      salt: sumNutrient(total.salt, detection.nutrition.salt),
+      iron: sumNutrient(total.iron, detection.nutrition.iron),
+      calcium: sumNutrient(total.calcium, detection.nutrition.calcium),
+      vitaminC: sumNutrient(total.vitaminC, detection.nutrition.vitaminC),
     }),
     {
       weightGrams: 0,
@@ -244,33 +381,31 @@ export function aggregateNutrition(detections: Detection[]): NutritionInfo {
       carbs: 0,
       fat: 0,
       fiber: 0,
+      sugars: 0,
+      saturatedFat: 0,
+      salt: 0,
+      iron: 0,
+      calcium: 0,
+      vitaminC: 0,
     }
   );
 }
 
-/**
- * Utility: Count non-zero pixels in mask
- * @param mask - Binary mask array
- * @returns Number of non-zero pixels
- */
-export function countMaskPixels(mask: number[]): number {
-  return mask.reduce((sum, val) => sum + val, 0);
-}
-
 /**
  * Utility: Log nutrition calculation details (for debugging)
- * @param mask - Binary mask
+ * @param mask - Packed binary mask
  * @param foodInfo - Food metadata
  * @param nutrition - Calculated nutrition
+ * @param maskPixelAreaCm2 - Real-world area covered by one mask pixel (cm²)
  */
 export function logNutritionCalculation(
-  mask: number[],
+  mask: PackedMask,
   foodInfo: FoodInfo,
-  nutrition: NutritionInfo
+  nutrition: NutritionInfo,
+  maskPixelAreaCm2: number
 ): void {
-  const pixelCount = countMaskPixels(mask);
-  const pixelRatio = INFERENCE_CONFIG.PIXEL_RATIO;
-  const areaRealCm2 = pixelCount * (pixelRatio ** 2);
+  const pixelCount = mask.pixelCount;
+  const areaRealCm2 = pixelCount * maskPixelAreaCm2;
   const volumeCm3 = areaRealCm2 * foodInfo.defaultThicknessCm;
 
   console.log('[Nutrition Calculation]', {
@@ -1,43 +1,99 @@
 /**
  * Image Preprocessing for YOLOv8 Inference
- * Converts camera frames (base64 JPEG or ImageBitmap) to ONNX tensors
- * Output format: Float32Array in NCHW layout [1, 3, 640, 640]
+ * Converts camera frames (base64 JPEG, ImageBitmap or VideoFrame) to ONNX tensors
+ * Images are letterboxed (aspect-preserving resize + gray padding) like Ultralytics
+ * Output format: Float32Array in NCHW layout [1, 3, inputSize, inputSize] (640 by default)
  */
 
-import * as ort from 'onnxruntime-web';
+// Same build as the worker, so the session accepts this Tensor class
+import * as ort from 'onnxruntime-web/all';
+import type { ImageSource, LetterboxInfo } from './types';
 import { INFERENCE_CONFIG } from '@/lib/constants';
 
+/**
+ * Padding color used by YOLO letterboxing (114, 114, 114)
+ */
+const LETTERBOX_FILL = 'rgb(114, 114, 114)';
+
+/**
+ * Preprocessed model input with the geometry needed to undo the letterbox
+ */
+export interface PreprocessedImage {
+  tensor: ort.Tensor;
+  letterbox: LetterboxInfo;
+}
+
 /**
  * Convert base64 data URL or ImageBitmap to ONNX Tensor
  * @param imageData - Base64 JPEG string or ImageBitmap from camera
- * @returns ONNX Tensor in NCHW format [1, 3, 640, 640], normalized to [0, 1]
+ * @param inputSize - Square model input size (from the model metadata)
+ * @returns ONNX Tensor in NCHW format [1, 3, inputSize, inputSize], normalized to [0, 1],
+ *          and the letterbox scale/padding applied to the image
  */
 export async function preprocessImage(
-  imageData: string | ImageBitmap
-): Promise<ort.Tensor> {
+  imageData: string | ImageBitmap,
+  inputSize: number = INFERENCE_CONFIG.INPUT_SIZE
+): Promise<PreprocessedImage> {
   // Step 1: Decode base64 to ImageBitmap (if needed)
-  const bitmap =
-    typeof imageData === 'string'
-      ? await decodeBase64ToImageBitmap(imageData)
-      : imageData;
+  const bitmap = await decodeImage(imageData);
 
-  // Step 2: Resize to 640x640 (YOLO input size)
-  const resized = await resizeImageBitmap(
-    bitmap,
-    INFERENCE_CONFIG.INPUT_SIZE,
-    INFERENCE_CONFIG.INPUT_SIZE
-  );
+  // Step 2: Compute aspect-preserving resize into the square model input
+  const letterbox = computeLetterbox(bitmap.width, bitmap.height, inputSize);
 
-  // Step 3: Extract RGB pixels and convert to tensor
-  const tensorData = await bitmapToTensorData(resized);
+  // Step 3: Draw letterboxed image, extract RGB pixels and convert to tensor
+  const tensorData = letterboxToTensorData(bitmap, letterbox);
 
   // Step 4: Create ONNX tensor
-  return new ort.Tensor('float32', tensorData, [
-    1,
-    3,
-    INFERENCE_CONFIG.INPUT_SIZE,
-    INFERENCE_CONFIG.INPUT_SIZE,
-  ]);
+  const tensor = new ort.Tensor('float32', tensorData, [1, 3, inputSize, inputSize]);
+
+  return { tensor, letterbox };
+}
+
+/**
+ * Compute letterbox geometry for an image
+ * @param width - Original image width
+ * @param height - Original image height
+ * @param inputSize - Square model input size (640)
+ * @returns Scale and padding offsets, in model-input pixels
+ */
+export function computeLetterbox(
+  width: number,
+  height: number,
+  inputSize: number
+): LetterboxInfo {
+  const scale = Math.min(inputSize / width, inputSize / height);
+  const resizedWidth = Math.round(width * scale);
+  const resizedHeight = Math.round(height * scale);
+
+  return {
+    scale,
+    padX: Math.floor((inputSize - resizedWidth) / 2),
+    padY: Math.floor((inputSize - resizedHeight) / 2),
+    resizedWidth,
+    resizedHeight,
+    originalWidth: width,
+    originalHeight: height,
+    inputSize,
+  };
+}
+
+/**
+ * Decode image input to ImageBitmap (no-op for bitmaps)
+ * @param imageData - Base64 JPEG string, ImageBitmap or VideoFrame (closed once copied)
+ * @returns ImageBitmap at original resolution
+ */
+export async function decodeImage(imageData: ImageSource): Promise<ImageBitmap> {
+  if (typeof imageData === 'string') {
+    return decodeBase64ToImageBitmap(imageData);
+  }
+  if (imageData instanceof ImageBitmap) {
+    return imageData;
+  }
+  try {
+    return await createImageBitmap(imageData);
+  } finally {
+    imageData.close();
+  }
 }
 
 /**
@@ -52,32 +108,17 @@ async function decodeBase64ToImageBitmap(base64: string): Promise<ImageBitmap> {
 }
 
 /**
- * Resize ImageBitmap to target dimensions
- * @param source - Source ImageBitmap
- * @param width - Target width
- * @param height - Target height
- * @returns Resized ImageBitmap
- */
-async function resizeImageBitmap(
-  source: ImageBitmap,
-  width: number,
-  height: number
-): Promise<ImageBitmap> {
-  return createImageBitmap(source, {
-    resizeWidth: width,
-    resizeHeight: height,
-    resizeQuality: 'high',
-  });
-}
-
-/**
- * Convert ImageBitmap to Float32Array tensor in NCHW format
- * @param bitmap - Resized ImageBitmap (640x640)
+ * Draw ImageBitmap into a letterboxed square canvas and convert to NCHW tensor data
+ * @param bitmap - Original ImageBitmap
+ * @param letterbox - Letterbox geometry from computeLetterbox
  * @returns Float32Array in NCHW format, normalized to [0, 1]
  */
-async function bitmapToTensorData(bitmap: ImageBitmap): Promise<Float32Array> {
-  const width = bitmap.width;
-  const height = bitmap.height;
+function letterboxToTensorData(
+  bitmap: ImageBitmap,
+  letterbox: LetterboxInfo
+): Float32Array {
+  const width = letterbox.inputSize;
+  const height = letterbox.inputSize;
 
   // Use OffscreenCanvas if available (worker context), otherwise regular Canvas
   let canvas: OffscreenCanvas | HTMLCanvasElement;
@@ -98,8 +139,17 @@ async function bitmapToTensorData(bitmap: ImageBitmap): Promise<Float32Array> {
     throw new Error('Failed to get canvas context');
   }
 
-  // Draw bitmap to canvas
-  ctx.drawImage(bitmap, 0, 0);
+  // Fill padding, then draw the aspect-preserved image centered
+  ctx.fillStyle = LETTERBOX_FILL;
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    bitmap,
+    letterbox.padX,
+    letterbox.padY,
+    letterbox.resizedWidth,
+    letterbox.resizedHeight
+  );
 
   // Extract RGBA pixel data
   const imageData = ctx.getImageData(0, 0, width, height);
@@ -0,0 +1,130 @@
+/**
+ * ONNX Runtime Asset Resolution
+ * Resolves where the runtime's .wasm/.mjs files are loaded from (self-hosted by
+ * default, optional CDN override) and checks that they match the bundled runtime
+ */
+
+import { APP_BASE_URL, ORT_ASSETS_CONFIG } from '@/lib/constants';
+
+/**
+ * Manifest written by scripts/copy-ort-assets.mjs next to the copied files
+ */
+interface RuntimeAssetManifest {
+  /** onnxruntime-web version the files were copied from */
+  version: string;
+  /** File name → size in bytes */
+  files: Record<string, number>;
+  /** Files the app's runtime build loads (one wasm variant), absent in older manifests */
+  loaded?: string[];
+}
+
+/**
+ * Resolved location of the runtime assets
+ */
+export interface RuntimeAssetLocation {
+  /** Base URL handed to ort.env.wasm.wasmPaths (ends with "/") */
+  wasmPaths: string;
+  /** Whether the assets come from the CDN override */
+  isCdn: boolean;
+}
+
+/**
+ * Resolve the runtime asset base URL
+ * @param runtimeVersion - Version of the onnxruntime-web bundle in use (ort.env.versions.web)
+ * @param origin - Fallback origin when APP_BASE_URL is not set
+ * @returns Asset location
+ */
+export function resolveRuntimeAssets(
+  runtimeVersion: string,
+  origin: string
+): RuntimeAssetLocation {
+  if (ORT_ASSETS_CONFIG.CDN_URL) {
+    // CDN URLs are pinned to the runtime version, so they always match
+    return {
+      wasmPaths: withTrailingSlash(
+        ORT_ASSETS_CONFIG.CDN_URL.replace('{version}', runtimeVersion)
+      ),
+      isCdn: true,
+    };
+  }
+
+  const baseUrl = APP_BASE_URL || origin;
+  return {
+    wasmPaths: new URL(withTrailingSlash(ORT_ASSETS_CONFIG.WASM_PATH), baseUrl).href,
+    isCdn: false,
+  };
+}
+
+/**
+ * Check that self-hosted assets were copied from the same runtime version
+ * and are complete. Throws an Error with an actionable message otherwise.
+ * @param location - Resolved asset location
+ * @param runtimeVersion - Version of the onnxruntime-web bundle in use
+ */
+export async function verifyRuntimeAssets(
+  location: RuntimeAssetLocation,
+  runtimeVersion: string
+): Promise<void> {
+  if (location.isCdn) return;
+
+  const manifestUrl = new URL(ORT_ASSETS_CONFIG.MANIFEST_FILE, location.wasmPaths).href;
+  let manifest: RuntimeAssetManifest;
+
+  try {
+    const response = await fetch(manifestUrl, { cache: 'no-cache' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    manifest = (await response.json()) as RuntimeAssetManifest;
+  } catch (error) {
+    throw new Error(
+      `ONNX Runtime assets not found at ${location.wasmPaths} (${manifestUrl}: ${(error as Error).message}). ` +
+        'Run "pnpm ort:assets" to copy them into public/onnxruntime-wasm.'
+    );
+  }
+
+  if (manifest.version !== runtimeVersion) {
+    throw new Error(
+      `ONNX Runtime version mismatch: runtime is ${runtimeVersion} but assets in ` +
+        `${location.wasmPaths} are ${manifest.version}. Run "pnpm ort:assets" to refresh them.`
+    );
+  }
+
+  // Only the binaries are checked: a truncated or stale .wasm is the usual failure.
+  // Variants the runtime never loads are not precached, so offline they cannot be probed
+  const loaded = new Set(manifest.loaded ?? Object.keys(manifest.files));
+  const binaries = Object.entries(manifest.files).filter(
+    ([name]) => name.endsWith('.wasm') && loaded.has(name)
+  );
+  if (binaries.length === 0) {
+    throw new Error(
+      `ONNX Runtime assets in ${location.wasmPaths} contain no .wasm binaries. ` +
+        'Run "pnpm ort:assets" to copy them.'
+    );
+  }
+
+  await Promise.all(
+    binaries.map(async ([name, expectedSize]) => {
+      const response = await fetch(new URL(name, location.wasmPaths).href, { method: 'HEAD' });
+      if (!response.ok) {
+        throw new Error(
+          `ONNX Runtime asset ${name} is missing (HTTP ${response.status}). Run "pnpm ort:assets".`
+        );
+      }
+
+      // Compressed responses report the encoded size; only compare identity encodings
+      const length = response.headers.get('content-length');
+      const encoding = response.headers.get('content-encoding');
+      if (length && !encoding && Number(length) !== expectedSize) {
+        throw new Error(
+          `ONNX Runtime asset ${name} does not match manifest for ${manifest.version} ` +
+            `(${length} bytes, expected ${expectedSize}). Run "pnpm ort:assets".`
+        );
+      }
+    })
+  );
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { DetectionTracker } from './tracker';
+import { getFoodInfo } from './foodDatabase';
+import { calculateNutritionFromWeight } from './postprocessing';
+import type { BoundingBox, Detection } from './types';
+import { TRACKER_CONFIG } from '@/lib/constants';
+
+// Class IDs: 0 and 1 share no confusion group; chicken (3) and pork (4) do
+const CHICKEN = 3;
+const PORK = 4;
+
+const LEFT: BoundingBox = { x: 0.25, y: 0.5, width: 0.3, height: 0.3 };
+const RIGHT: BoundingBox = { x: 0.75, y: 0.5, width: 0.3, height: 0.3 };
+
+function detection(
+  classId: number,
+  box: BoundingBox,
+  { confidence = 0.8, weightGrams = 100 } = {}
+): Detection {
+  const food = getFoodInfo(classId);
+  return {
+    classId,
+    label: food.name,
+    confidence,
+    box,
+    mask: { width: 0, height: 0, bits: new Uint8Array(0), pixelCount: 0 },
+    nutrition: calculateNutritionFromWeight(food, weightGrams),
+    icon: food.icon,
+  };
+}
+
+function shifted(box: BoundingBox, dx: number): BoundingBox {
+  return { ...box, x: box.x + dx };
+}
+
+describe('DetectionTracker', () => {
+  it('keeps track IDs stable while detections move slightly', () => {
+    const tracker = new DetectionTracker();
+    const first = tracker.update([detection(0, LEFT), detection(1, RIGHT)]);
+    const ids = first.map((d) => d.trackId);
+    expect(new Set(ids).size).toBe(2);
+
+    for (const dx of [0.01, 0.02, 0.03]) {
+      // Order of detections within a frame does not matter
+      const next = tracker.update([detection(1, shifted(RIGHT, dx)), detection(0, shifted(LEFT, dx))]);
+      expect(next.find((d) => d.classId === 0)?.trackId).toBe(ids[0]);
+      expect(next.find((d) => d.classId === 1)?.trackId).toBe(ids[1]);
+    }
+  });
+
+  it('starts a new track for an incompatible class at the same place', () => {
+    const tracker = new DetectionTracker();
+    const [first] = tracker.update([detection(0, LEFT)]);
+    const [second] = tracker.update([detection(1, LEFT)]);
+    expect(second.trackId).not.toBe(first.trackId);
+    expect(second.classId).toBe(1);
+  });
+
+  it('smooths the class over the window within a confusion group', () => {
+    const tracker = new DetectionTracker();
+    tracker.update([detection(CHICKEN, LEFT, { confidence: 0.8 })]);
+    tracker.update([detection(CHICKEN, LEFT, { confidence: 0.8 })]);
+    const [flicker] = tracker.update([detection(PORK, LEFT, { confidence: 0.9 })]);
+
+    // Chicken averages 1.6 / 3, pork 0.9 / 3
+    expect(flicker.classId).toBe(CHICKEN);
+    expect(flicker.label).toBe(getFoodInfo(CHICKEN).name);
+    expect(flicker.confidence).toBeCloseTo(1.6 / 3, 5);
+
+    // Pork wins once it dominates the window
+    let result = flicker;
+    for (let i = 0; i < TRACKER_CONFIG.WINDOW_FRAMES; i++) {
+      [result] = tracker.update([detection(PORK, LEFT, { confidence: 0.9 })]);
+    }
+    expect(result.classId).toBe(PORK);
+    expect(result.trackId).toBe(flicker.trackId);
+    expect(result.confidence).toBeCloseTo(0.9, 5);
+  });
+
+  it('averages the weight over the window and recomputes nutrition', () => {
+    const tracker = new DetectionTracker();
+    tracker.update([detection(0, LEFT, { weightGrams: 100 })]);
+    tracker.update([detection(0, LEFT, { weightGrams: 200 })]);
+    const [smoothed] = tracker.update([detection(0, LEFT, { weightGrams: 300 })]);
+    expect(smoothed.nutrition.weightGrams).toBeCloseTo(200, 5);
+    expect(smoothed.nutrition.calories).toBe(
+      calculateNutritionFromWeight(getFoodInfo(0), 200).calories
+    );
+
+    // Older observations leave the window
+    let result = smoothed;
+    for (let i = 0; i < TRACKER_CONFIG.WINDOW_FRAMES; i++) {
+      [result] = tracker.update([detection(0, LEFT, { weightGrams: 400 })]);
+    }
+    expect(result.nutrition.weightGrams).toBeCloseTo(400, 5);
+  });
+
+  it('keeps briefly occluded tracks and expires stale ones', () => {
+    const tracker = new DetectionTracker();
+    const [first] = tracker.update([detection(0, LEFT)]);
+
+    for (let i = 0; i < TRACKER_CONFIG.MAX_MISSED_FRAMES; i++) {
+      expect(tracker.update([])).toEqual([]);
+    }
+    const [back] = tracker.update([detection(0, LEFT)]);
+    expect(back.trackId).toBe(first.trackId);
+
+    for (let i = 0; i <= TRACKER_CONFIG.MAX_MISSED_FRAMES; i++) {
+      tracker.update([]);
+    }
+    const [renewed] = tracker.update([detection(0, LEFT)]);
+    expect(renewed.trackId).not.toBe(first.trackId);
+  });
+
+  it('only returns the tracks seen in the current frame', () => {
+    const tracker = new DetectionTracker();
+    tracker.update([detection(0, LEFT), detection(1, RIGHT)]);
+    const frame = tracker.update([detection(1, RIGHT)]);
+    expect(frame.map((d) => d.classId)).toEqual([1]);
+  });
+
+  it('forgets every track on reset', () => {
+    const tracker = new DetectionTracker();
+    const [first] = tracker.update([detection(0, LEFT)]);
+    tracker.reset();
+    const [after] = tracker.update([detection(0, LEFT)]);
+    expect(after.trackId).not.toBe(first.trackId);
+  });
+});
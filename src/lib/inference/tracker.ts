@@ -0,0 +1,157 @@
+/**
+ * Detection Tracker
+ * Associates detections across frames by box overlap and smooths them over a
+ * sliding window, so labels stop flickering between confusion-group members
+ * and weights stop jumping from one frame to the next
+ */
+
+import type { Detection } from './types';
+import { calculateIoU, getConfusionGroup } from './nms';
+import { getFoodInfo } from './foodDatabase';
+import { calculateNutritionFromWeight } from './postprocessing';
+import { TRACKER_CONFIG } from '@/lib/constants';
+
+interface TrackObservation {
+  classId: number;
+  confidence: number;
+  weightGrams: number;
+}
+
+interface Track {
+  id: number;
+  /** Latest matched detection (box and mask are not smoothed) */
+  latest: Detection;
+  /** Most recent observations, oldest first, at most WINDOW_FRAMES */
+  observations: TrackObservation[];
+  /** Smoothed class, used for association */
+  classId: number;
+  /** Consecutive frames without a match */
+  missed: number;
+}
+
+/**
+ * Whether a detection may continue a track: same class, or a class the model
+ * often confuses with it (see CONFUSION_GROUPS)
+ */
+function isCompatible(trackClassId: number, classId: number): boolean {
+  if (trackClassId === classId) return true;
+  const group = getConfusionGroup(trackClassId);
+  return group !== undefined && group === getConfusionGroup(classId);
+}
+
+/**
+ * Tracks detections over consecutive frames of one scene
+ *
+ * Per track, class confidences are averaged over the window (a class absent
+ * from a frame counts as 0 for that frame) and the best mean wins; the weight
+ * is the window mean. Nutrition is recomputed for the smoothed class and weight.
+ */
+export class DetectionTracker {
+  private tracks: Track[] = [];
+  private nextId = 1;
+
+  /**
+   * Feed the detections of a new frame
+   * @param detections - Detections of the frame, as returned by the worker
+   * @returns Smoothed detections with stable trackIds, one per track seen in this frame
+   */
+  update(detections: Detection[]): Detection[] {
+    // Greedy association, best overlap first
+    const pairs: { track: Track; detection: number; iou: number }[] = [];
+    for (const track of this.tracks) {
+      detections.forEach((detection, index) => {
+        if (!isCompatible(track.classId, detection.classId)) return;
+        const iou = calculateIoU(track.latest.box, detection.box);
+        if (iou >= TRACKER_CONFIG.MATCH_IOU) pairs.push({ track, detection: index, iou });
+      });
+    }
+    pairs.sort((a, b) => b.iou - a.iou);
+
+    const matchedTracks = new Set<Track>();
+    const matchedDetections = new Set<number>();
+    for (const { track, detection } of pairs) {
+      if (matchedTracks.has(track) || matchedDetections.has(detection)) continue;
+      matchedTracks.add(track);
+      matchedDetections.add(detection);
+      this.observe(track, detections[detection]);
+    }
+
+    // Unmatched tracks age out; unmatched detections start new tracks
+    for (const track of this.tracks) {
+      if (!matchedTracks.has(track)) track.missed++;
+    }
+    this.tracks = this.tracks.filter((track) => track.missed <= TRACKER_CONFIG.MAX_MISSED_FRAMES);
+
+    detections.forEach((detection, index) => {
+      if (matchedDetections.has(index)) return;
+      const track: Track = {
+        id: this.nextId++,
+        latest: detection,
+        observations: [],
+        classId: detection.classId,
+        missed: 0,
+      };
+      this.observe(track, detection);
+      this.tracks.push(track);
+      matchedTracks.add(track);
+    });
+
+    return this.tracks
+      .filter((track) => matchedTracks.has(track))
+      .map((track) => this.toDetection(track));
+  }
+
+  /**
+   * Forget all tracks (new scene)
+   */
+  reset(): void {
+    this.tracks = [];
+  }
+
+  private observe(track: Track, detection: Detection): void {
+    track.latest = detection;
+    track.missed = 0;
+    track.observations.push({
+      classId: detection.classId,
+      confidence: detection.confidence,
+      weightGrams: detection.nutrition.weightGrams,
+    });
+    if (track.observations.length > TRACKER_CONFIG.WINDOW_FRAMES) {
+      track.observations.shift();
+    }
+    track.classId = this.smoothedClass(track).classId;
+  }
+
+  /**
+   * Class with the highest mean confidence over the window
+   */
+  private smoothedClass(track: Track): { classId: number; confidence: number } {
+    const sums = new Map<number, number>();
+    for (const { classId, confidence } of track.observations) {
+      sums.set(classId, (sums.get(classId) ?? 0) + confidence);
+    }
+    let best = { classId: track.latest.classId, confidence: 0 };
+    for (const [classId, sum] of sums) {
+      const mean = sum / track.observations.length;
+      if (mean > best.confidence) best = { classId, confidence: mean };
+    }
+    return best;
+  }
+
+  private toDetection(track: Track): Detection {
+    const { classId, confidence } = this.smoothedClass(track);
+    const weightGrams =
+      track.observations.reduce((sum, o) => sum + o.weightGrams, 0) / track.observations.length;
+    const foodInfo = getFoodInfo(classId);
+
+    return {
+      ...track.latest,
+      classId,
+      label: foodInfo.name,
+      icon: foodInfo.icon,
+      confidence,
+      nutrition: calculateNutritionFromWeight(foodInfo, weightGrams),
+      trackId: track.id,
+    };
+  }
+}
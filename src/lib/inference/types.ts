@@ -7,22 +7,112 @@
 // Worker Communication Types
 // ============================================================================
 
+/**
+ * Image handed to the worker
+ * Data URLs are decoded in the worker; ImageBitmap and VideoFrame are
+ * transferred (zero-copy) and closed by the worker once preprocessed
+ */
+export type ImageSource = string | ImageBitmap | VideoFrame;
+
 /**
  * Message types sent from main thread to worker
  */
 export type WorkerRequest =
-  | { id: string; type: "INIT" }
-  | { id: string; type: "INFER"; payload: { imageData: string | ImageBitmap } }
+  | {
+      id: string;
+      type: "INIT";
+      payload?: { executionProviders?: ExecutionProvider[]; maxThreads?: number };
+    }
+  | {
+      id: string;
+      type: "INFER";
+      payload: {
+        imageData: ImageSource;
+        calibration?: CalibrationRequest;
+      };
+    }
+  | {
+      id: string;
+      type: "CANCEL";
+      /** ID of the INFER request to abandon; no response is sent for CANCEL itself */
+      payload: { requestId: string };
+    }
   | { id: string; type: "TERMINATE" };
 
 /**
  * Response types sent from worker to main thread
  */
 export type WorkerResponse =
-  | { id: string; type: "INIT_SUCCESS" }
+  | { id: string; type: "INIT_PROGRESS"; payload: ModelDownloadProgress }
+  | { id: string; type: "INIT_SUCCESS"; payload: BackendInfo }
   | { id: string; type: "INFER_SUCCESS"; payload: InferenceResult }
   | { id: string; type: "TERMINATE_SUCCESS" }
-  | { id: string; type: "ERROR"; payload: { message: string } };
+  | {
+      id: string;
+      type: "ERROR";
+      payload: { code: InferenceErrorCode; message: string };
+    };
+
+/**
+ * Why a worker request failed
+ * - MODEL_LOAD_FAILED: runtime assets, model download or session creation failed
+ * - MODEL_INCOMPATIBLE: the model's inputs/outputs/classes do not match the food database
+ * - TIMEOUT: the worker did not answer in time
+ * - DECODE_FAILED: the image could not be decoded
+ * - WORKER_CRASHED: the worker died or was terminated mid-request
+ * - INFERENCE_FAILED: the model ran but inference or postprocessing threw
+ * - CANCELLED: the request was aborted, superseded by a newer live frame or preempted by a scan
+ */
+export type InferenceErrorCode =
+  | "MODEL_LOAD_FAILED"
+  | "MODEL_INCOMPATIBLE"
+  | "TIMEOUT"
+  | "DECODE_FAILED"
+  | "WORKER_CRASHED"
+  | "INFERENCE_FAILED"
+  | "CANCELLED";
+
+/**
+ * Inference worker health, as tracked by the client's supervisor
+ * - starting: first INIT in progress
+ * - ready: model loaded, requests are served
+ * - degraded: the worker crashed or hung and is being restarted; requests wait in the queue
+ * - failed: INIT failed or restarts are exhausted; reinitialize() is required
+ */
+export type WorkerHealthStatus = "starting" | "ready" | "degraded" | "failed";
+
+export interface WorkerHealth {
+  status: WorkerHealthStatus;
+  /** Automatic restarts since the client was created */
+  restartCount: number;
+  /** Reason of the last crash or failure, if any */
+  lastError: string | null;
+}
+
+/**
+ * Model download progress reported during INIT (first launch only)
+ */
+export interface ModelDownloadProgress {
+  /** Bytes received so far */
+  loaded: number;
+  /** Total size in bytes, if the server reported it */
+  total: number | null;
+}
+
+/**
+ * ONNX Runtime execution providers the worker can select from
+ */
+export type ExecutionProvider = "webgpu" | "webgl" | "wasm";
+
+/**
+ * Backend chosen by the worker during INIT
+ */
+export interface BackendInfo {
+  /** Execution provider the session runs on */
+  executionProvider: ExecutionProvider;
+  /** WASM thread count (also used by WebGPU for CPU-fallback ops) */
+  numThreads: number;
+}
 
 // ============================================================================
 // Inference Result Types
@@ -38,8 +128,31 @@ export interface InferenceResult {
   totalCalories: number;
   /** Total processing time in milliseconds */
   processingTime: number;
-  /** Optional message (e.g., "No detections found") */
-  message?: string;
+  /** Scale calibration used to convert mask areas to real-world sizes */
+  calibration: ScaleCalibration;
+  /** Hint for the UI, localised on the main thread */
+  messageCode?: InferenceMessageCode;
+}
+
+/**
+ * Result hints sent by the worker as codes; the UI picks the wording for its locale
+ * - NO_DETECTIONS: the model found no food in the image
+ */
+export type InferenceMessageCode = "NO_DETECTIONS";
+
+/**
+ * Binary mask packed 8 pixels per byte (row-major, MSB first)
+ * The buffer is transferred, not copied, from the worker
+ */
+export interface PackedMask {
+  /** Width in pixels (original image width × letterbox scale) */
+  width: number;
+  /** Height in pixels (original image height × letterbox scale) */
+  height: number;
+  /** ceil(width × height / 8) bytes */
+  bits: Uint8Array;
+  /** Number of set pixels */
+  pixelCount: number;
 }
 
 /**
@@ -54,16 +167,19 @@ export interface Detection {
   confidence: number;
   /** Bounding box in normalized coordinates */
   box: BoundingBox;
-  /** Segmentation mask (640x640 flat array of 0/1 values) */
-  mask: number[];
+  /** Segmentation mask over the original image, bit-packed (see maskEncoding.ts) */
+  mask: PackedMask;
   /** Calculated nutrition information */
   nutrition: NutritionInfo;
   /** Food emoji icon */
   icon: string;
+  /** Stable ID across frames, set by DetectionTracker (live scanning only) */
+  trackId?: number;
 }
 
 /**
  * Bounding box in normalized coordinates (0-1 range)
+ * Relative to the original image once un-letterboxed
  */
 export interface BoundingBox {
   /** Center X coordinate (normalized 0-1) */
@@ -76,10 +192,31 @@ export interface BoundingBox {
   height: number;
 }
 
+/**
+ * Nutrients tracked beyond energy, macronutrients and fiber
+ * null means the value is unknown for the food; it is never read as zero
+ */
+export interface DetailedNutrients {
+  /** Sugars in grams */
+  sugars: number | null;
+  /** Saturated fat in grams */
+  saturatedFat: number | null;
+  /** Salt in grams (sodium × 2.5) */
+  salt: number | null;
+  /** Iron in milligrams */
+  iron: number | null;
+  /** Calcium in milligrams */
+  calcium: number | null;
+  /** Vitamin C in milligrams */
+  vitaminC: number | null;
+}
+
+export type DetailedNutrient = keyof DetailedNutrients;
+
 /**
  * Calculated nutrition information for detected food item
  */
-export interface NutritionInfo {
+export interface NutritionInfo extends DetailedNutrients {
   /** Estimated weight in grams */
   weightGrams: number;
   /** Calculated calories (kcal) */
@@ -94,10 +231,86 @@ export interface NutritionInfo {
   fiber: number;
 }
 
+// ============================================================================
+// Scale Calibration Types
+// ============================================================================
+
+/**
+ * Known reference object placed next to the food
+ * Sizes are declared by the user for round objects, fixed for the card
+ */
+export type ReferenceObject =
+  | { kind: "credit_card" }
+  | { kind: "coin"; diameterCm: number }
+  | { kind: "plate"; diameterCm: number };
+
+/**
+ * Segment drawn by the user over the image, in normalized coordinates (0-1)
+ */
+export interface CalibrationLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Calibration requested by the main thread alongside an INFER message
+ */
+export type CalibrationRequest =
+  | { mode: "reference"; reference: ReferenceObject }
+  | { mode: "line"; line: CalibrationLine; lengthCm: number };
+
+/**
+ * Per-image scale resolved by the worker
+ */
+export interface ScaleCalibration {
+  /** Real-world size of one original-image pixel, in cm */
+  cmPerPixel: number;
+  /** How the scale was obtained */
+  source: "default" | "reference" | "line";
+  /** Reference kind, when source is "reference" */
+  reference?: ReferenceObject["kind"];
+  /** Location of the detected reference (normalized center format) */
+  referenceBox?: BoundingBox;
+  /** True when a reference was requested but not found in the frame */
+  referenceNotFound?: boolean;
+}
+
 // ============================================================================
 // Food Database Types
 // ============================================================================
 
+/**
+ * Ciqual food behind a FoodInfo's nutrient values
+ */
+export interface CiqualFood {
+  /** Ciqual food code (alim_code) */
+  code: string;
+  /** Ciqual food name (alim_nom_fr) */
+  name: string;
+  /** Weight of this food in the class average (0-1) */
+  share: number;
+}
+
+/**
+ * Where the per-100g values of a FoodInfo come from
+ * - manual: typed by hand, not traced to a source
+ * - ciqual: imported from the ANSES Ciqual table by `pnpm ciqual:import`
+ */
+export type NutrientSource =
+  | { kind: "manual" }
+  | {
+      kind: "ciqual";
+      /** Table release, e.g. "Ciqual 2020" */
+      version: string;
+      /** Release date of the table (ISO date) */
+      date: string;
+      /** Date of the import (ISO date) */
+      importedAt: string;
+      foods: CiqualFood[];
+    };
+
 /**
  * Food metadata from nutrition database
  * Used for calorie calculation algorithm
@@ -105,6 +318,8 @@ export interface NutritionInfo {
 export interface FoodInfo {
   /** Class ID (0-31) */
   id: number;
+  /** Class name in the model metadata (Ultralytics `names`), checked at INIT */
+  modelLabel: string;
   /** Food name in French */
   name: string;
   /** Density in g/cm³ (used for weight calculation) */
@@ -121,6 +336,24 @@ export interface FoodInfo {
   fatPer100g: number;
   /** Fiber per 100g */
   fiberPer100g: number;
+  /** Sugars per 100g (g), null if unknown */
+  sugarsPer100g: number | null;
+  /** Saturated fat per 100g (g), null if unknown */
+  saturatedFatPer100g: number | null;
+  /** Salt per 100g (g), null if unknown */
+  saltPer100g: number | null;
+  /** Iron per 100g (mg), null if unknown */
+  ironPer100g: number | null;
+  /** Calcium per 100g (mg), null if unknown */
+  calciumPer100g: number | null;
+  /** Vitamin C per 100g (mg), null if unknown */
+  vitaminCPer100g: number | null;
+  /** Share of fruits, vegetables and legumes by weight (0-1), for the Nutri-Score */
+  fruitVegetableShare: number;
+  /** Beef, pork, lamb and their products: the Nutri-Score caps their protein points */
+  isRedMeat: boolean;
+  /** Provenance of the per-100g values */
+  source: NutrientSource;
   /** Emoji icon for display */
   icon: string;
 }
@@ -140,6 +373,55 @@ export interface RawDetection {
   confidence: number;
   /** Bounding box */
   box: BoundingBox;
-  /** Mask coefficients from YOLO (32 values) */
+  /** Mask coefficients from YOLO (32 values, empty for detect-only models) */
   maskCoeffs: Float32Array;
 }
+
+/**
+ * Letterbox geometry applied during preprocessing
+ * Model-input coordinates map back to the original image as (v - pad) / scale
+ */
+export interface LetterboxInfo {
+  /** Resize factor from original image to model input */
+  scale: number;
+  /** Horizontal padding (left) in model-input pixels */
+  padX: number;
+  /** Vertical padding (top) in model-input pixels */
+  padY: number;
+  /** Width of the resized image inside the model input */
+  resizedWidth: number;
+  /** Height of the resized image inside the model input */
+  resizedHeight: number;
+  /** Original image width in pixels */
+  originalWidth: number;
+  /** Original image height in pixels */
+  originalHeight: number;
+  /** Square model input size the image was letterboxed into */
+  inputSize: number;
+}
+
+/**
+ * Supported model families, each mapped to an output decoder (see decoders.ts)
+ */
+export type ModelKind = "yolov8-seg" | "yolo11-seg" | "yolov5-seg" | "yolov8-detect";
+
+/**
+ * Input/output layout of the loaded model, read from its ONNX metadata at INIT
+ */
+export interface ModelSpec {
+  /** Model family, selects the output decoder */
+  kind: ModelKind;
+  /** Name of the image input */
+  inputName: string;
+  /** Square input size in pixels */
+  inputSize: number;
+  /** Detection output, layout depends on kind */
+  detectionOutputName: string;
+  /** Mask prototype output [1, numMaskCoeffs, protoH, protoW], null for detect-only models */
+  protoOutputName: string | null;
+  numClasses: number;
+  /** 0 for detect-only models */
+  numMaskCoeffs: number;
+  /** Class names from the model's custom metadata (Ultralytics `names`), if present */
+  classNames: string[] | null;
+}
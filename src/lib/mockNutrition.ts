@@ -1,4 +1,10 @@
-export interface NutritionData {
+import type { DetailedNutrients } from "./inference/types";
+
+/**
+ * Detailed nutrients (sugars, salt, ...) are null when the food has no known
+ * value and absent on rows saved before they were tracked; both mean unknown
+ */
+export interface NutritionData extends Partial<DetailedNutrients> {
   name: string;
   calories: number;
   protein: number;
@@ -7,6 +13,10 @@ export interface NutritionData {
   fiber: number;
   serving: string;
   icon: string;
+  /** Food class, set on rows that can be corrected against the food database */
+  classId?: number;
+  /** Portion weight (g) the values were computed from */
+  weightGrams?: number;
 }
 
 const MOCK_FOODS: NutritionData[] = [
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { computeNutriScore } from './nutriScore';
+import { createNutritionItem } from './nutritionItems';
+
+// Class IDs from the food database
+const CHICKEN = 3;
+const STEAK = 5;
+const SALAD = 24;
+
+function protein(classIds: number[]) {
+  const result = computeNutriScore(classIds.map((classId) => createNutritionItem(classId, 150)));
+  return result?.components.find((component) => component.component === 'protein');
+}
+
+describe('computeNutriScore', () => {
+  it('returns null without rows or portion weights', () => {
+    expect(computeNutriScore([])).toBeNull();
+    expect(computeNutriScore([{ ...createNutritionItem(CHICKEN, 100), weightGrams: undefined }])).toBeNull();
+  });
+
+  it('caps protein points for red meat', () => {
+    const steak = protein([STEAK]);
+    expect(steak).toMatchObject({ points: 2, maxPoints: 2, capped: true });
+  });
+
+  it('applies the cap to meals that include red meat', () => {
+    expect(protein([STEAK, SALAD])).toMatchObject({ maxPoints: 2 });
+  });
+
+  it('leaves other protein sources uncapped', () => {
+    const chicken = protein([CHICKEN]);
+    expect(chicken).toMatchObject({ maxPoints: 7, capped: false });
+    expect(chicken?.points).toBeGreaterThan(2);
+  });
+
+  it('grades a vegetable-only meal A', () => {
+    expect(computeNutriScore([createNutritionItem(SALAD, 200)])?.grade).toBe('A');
+  });
+});
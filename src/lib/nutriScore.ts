@@ -0,0 +1,211 @@
+/**
+ * Nutri-Score grading of meals and days
+ * Follows the 2023 update of the algorithm for general foods: the rows are
+ * pooled into one food, their nutrients brought back to 100 g, then negative
+ * points (energy, sugars, saturated fat, salt) minus positive points (protein,
+ * fiber, fruits/vegetables/legumes) give an A-E grade. Protein points are capped
+ * when the rows include red meat. Beverage, cheese and added-fat variants of the
+ * algorithm are not applied
+ */
+
+import type { NutritionData } from './mockNutrition';
+import { getFoodInfo } from './inference/foodDatabase';
+import { totalDetailedNutrient } from './nutritionItems';
+
+export type NutriScoreGrade = 'A' | 'B' | 'C' | 'D' | 'E';
+
+export type NutriScoreComponent =
+  | 'energy'
+  | 'sugars'
+  | 'saturatedFat'
+  | 'salt'
+  | 'protein'
+  | 'fiber'
+  | 'fruitVegetables';
+
+export interface NutriScoreComponentScore {
+  component: NutriScoreComponent;
+  /** Negative components raise the score (worse grade), positive ones lower it */
+  kind: 'negative' | 'positive';
+  /** Value per 100 g (kJ for energy, % for fruits/vegetables, g otherwise) */
+  value: number;
+  points: number;
+  maxPoints: number;
+  /** Protein is left out of the score of foods with many negative points */
+  counted: boolean;
+  /** Protein points held at the red meat cap (maxPoints) */
+  capped: boolean;
+  /** Some rows had no value: the points cover the known rows only */
+  incomplete: boolean;
+}
+
+export interface NutriScoreResult {
+  grade: NutriScoreGrade;
+  /** Negative minus counted positive points */
+  score: number;
+  components: NutriScoreComponentScore[];
+  /**
+   * Some values were unknown. Missing sugars, saturated fat or salt can only
+   * worsen the grade; missing fruit/vegetable shares (packaged foods) can only improve it
+   */
+  isEstimate: boolean;
+}
+
+const KJ_PER_KCAL = 4.184;
+
+// Lower bounds of each point, per 100 g: a value above thresholds[i] earns i + 1 points
+const ENERGY_KJ = [335, 670, 1005, 1340, 1675, 2010, 2345, 2680, 3015, 3350];
+const SUGARS_G = [3.4, 6.8, 10, 14, 17, 20, 24, 27, 31, 34, 37, 41, 44, 48, 51];
+const SATURATED_FAT_G = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+const SALT_G = Array.from({ length: 20 }, (_, i) => Number(((i + 1) * 0.2).toFixed(1)));
+const PROTEIN_G = [2.4, 4.8, 7.2, 9.6, 12, 14, 17];
+const FIBER_G = [3.0, 4.1, 5.2, 6.3, 7.4];
+// Fruits/vegetables/legumes (%): 1 point above 40, 2 above 60, 5 above 80
+const FRUIT_VEGETABLE_POINTS: [number, number][] = [
+  [80, 5],
+  [60, 2],
+  [40, 1],
+];
+
+// Protein only counts when negative points stay below this
+const PROTEIN_CAP_NEGATIVE_POINTS = 11;
+// Most protein points red meat and its products can earn
+const RED_MEAT_MAX_PROTEIN_POINTS = 2;
+
+// Highest score of each grade, A to D; anything above is E
+const GRADE_BOUNDS: [number, NutriScoreGrade][] = [
+  [0, 'A'],
+  [2, 'B'],
+  [10, 'C'],
+  [18, 'D'],
+];
+
+function pointsFor(value: number, thresholds: number[]): number {
+  return thresholds.filter((threshold) => value > threshold).length;
+}
+
+function fruitVegetablePoints(percent: number): number {
+  return FRUIT_VEGETABLE_POINTS.find(([threshold]) => percent > threshold)?.[1] ?? 0;
+}
+
+function gradeFor(score: number): NutriScoreGrade {
+  return GRADE_BOUNDS.find(([bound]) => score <= bound)?.[1] ?? 'E';
+}
+
+/**
+ * Grade a meal or a day from its rows
+ * @param items - Food rows, with their portion weight
+ * @returns The grade and its breakdown, or null when the rows carry no weight to
+ *   scale by (sample or legacy rows)
+ */
+export function computeNutriScore(items: NutritionData[]): NutriScoreResult | null {
+  if (items.length === 0 || items.some((item) => !item.weightGrams)) return null;
+  const totalGrams = items.reduce((sum, item) => sum + (item.weightGrams ?? 0), 0);
+  const per100g = (amount: number) => (amount / totalGrams) * 100;
+
+  // Fruit/vegetable shares and the red meat flag come from the food database;
+  // packaged rows have neither
+  let fruitVegetableGrams = 0;
+  let fruitVegetableMissing = 0;
+  let hasRedMeat = false;
+  for (const item of items) {
+    if (item.classId === undefined) {
+      fruitVegetableMissing++;
+    } else {
+      const food = getFoodInfo(item.classId);
+      fruitVegetableGrams += food.fruitVegetableShare * (item.weightGrams ?? 0);
+      hasRedMeat ||= food.isRedMeat;
+    }
+  }
+
+  const sugars = totalDetailedNutrient(items, 'sugars');
+  const saturatedFat = totalDetailedNutrient(items, 'saturatedFat');
+  const salt = totalDetailedNutrient(items, 'salt');
+
+  const energyKj = per100g(items.reduce((sum, item) => sum + item.calories, 0) * KJ_PER_KCAL);
+  const proteinG = per100g(items.reduce((sum, item) => sum + item.protein, 0));
+  const fiberG = per100g(items.reduce((sum, item) => sum + item.fiber, 0));
+  const fruitVegetablePercent = per100g(fruitVegetableGrams);
+
+  const negativeInputs: {
+    component: NutriScoreComponent;
+    value: number;
+    thresholds: number[];
+    missing: number;
+  }[] = [
+    { component: 'energy', value: energyKj, thresholds: ENERGY_KJ, missing: 0 },
+    {
+      component: 'sugars',
+      value: per100g(sugars.total),
+      thresholds: SUGARS_G,
+      missing: sugars.missing,
+    },
+    {
+      component: 'saturatedFat',
+      value: per100g(saturatedFat.total),
+      thresholds: SATURATED_FAT_G,
+      missing: saturatedFat.missing,
+    },
+    { component: 'salt', value: per100g(salt.total), thresholds: SALT_G, missing: salt.missing },
+  ];
+  const negative = negativeInputs.map(
+    ({ component, value, thresholds, missing }): NutriScoreComponentScore => ({
+      component,
+      kind: 'negative',
+      value,
+      points: pointsFor(value, thresholds),
+      maxPoints: thresholds.length,
+      counted: true,
+      capped: false,
+      incomplete: missing > 0,
+    })
+  );
+  const negativePoints = negative.reduce((sum, component) => sum + component.points, 0);
+
+  const proteinPoints = pointsFor(proteinG, PROTEIN_G);
+  const proteinMaxPoints = hasRedMeat ? RED_MEAT_MAX_PROTEIN_POINTS : PROTEIN_G.length;
+  const positive: NutriScoreComponentScore[] = [
+    {
+      component: 'protein',
+      kind: 'positive',
+      value: proteinG,
+      points: Math.min(proteinPoints, proteinMaxPoints),
+      maxPoints: proteinMaxPoints,
+      counted: negativePoints < PROTEIN_CAP_NEGATIVE_POINTS,
+      capped: proteinPoints > proteinMaxPoints,
+      incomplete: false,
+    },
+    {
+      component: 'fiber',
+      kind: 'positive',
+      value: fiberG,
+      points: pointsFor(fiberG, FIBER_G),
+      maxPoints: FIBER_G.length,
+      counted: true,
+      capped: false,
+      incomplete: false,
+    },
+    {
+      component: 'fruitVegetables',
+      kind: 'positive',
+      value: fruitVegetablePercent,
+      points: fruitVegetablePoints(fruitVegetablePercent),
+      maxPoints: FRUIT_VEGETABLE_POINTS[0][1],
+      counted: true,
+      capped: false,
+      incomplete: fruitVegetableMissing > 0,
+    },
+  ];
+  const positivePoints = positive
+    .filter((component) => component.counted)
+    .reduce((sum, component) => sum + component.points, 0);
+
+  const score = negativePoints - positivePoints;
+  const components = [...negative, ...positive];
+  return {
+    grade: gradeFor(score),
+    score,
+    components,
+    isEstimate: components.some((component) => component.incomplete),
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Nutrition Items
+ * Builds the per-food rows shown in the result card and saved to history,
+ * from model detections, scanned barcodes or manual corrections
+ */
+
+import type { NutritionData } from './mockNutrition';
+import type { DetailedNutrient, DetailedNutrients, Detection } from './inference/types';
+import { getFoodInfo } from './inference/foodDatabase';
+import { calculateNutritionFromWeight } from './inference/postprocessing';
+import type { PackagedProduct } from './barcode/products';
+
+/**
+ * Detailed nutrients in display order, with their unit and display precision
+ */
+export const DETAILED_NUTRIENTS: { key: DetailedNutrient; unit: 'g' | 'mg'; decimals: number }[] = [
+  { key: 'sugars', unit: 'g', decimals: 1 },
+  { key: 'saturatedFat', unit: 'g', decimals: 1 },
+  { key: 'salt', unit: 'g', decimals: 2 },
+  { key: 'iron', unit: 'mg', decimals: 1 },
+  { key: 'calcium', unit: 'mg', decimals: 0 },
+  { key: 'vitaminC', unit: 'mg', decimals: 0 },
+];
+
+/**
+ * Round detailed nutrients to their display precision, keeping unknown values null
+ */
+function roundDetailedNutrients(nutrients: DetailedNutrients): DetailedNutrients {
+  const round = (key: DetailedNutrient) => {
+    const value = nutrients[key];
+    const factor = 10 ** (DETAILED_NUTRIENTS.find((n) => n.key === key)?.decimals ?? 0);
+    return value === null ? null : Math.round(value * factor) / factor;
+  };
+  return {
+    sugars: round('sugars'),
+    saturatedFat: round('saturatedFat'),
+    salt: round('salt'),
+    iron: round('iron'),
+    calcium: round('calcium'),
+    vitaminC: round('vitaminC'),
+  };
+}
+
+/**
+ * Total of a detailed nutrient over rows, with the number of rows that lack it
+ * The total covers known values only, so it is a lower bound when missing > 0
+ */
+export function totalDetailedNutrient(
+  items: NutritionData[],
+  key: DetailedNutrient
+): { total: number; missing: number } {
+  let total = 0;
+  let missing = 0;
+  for (const item of items) {
+    const value = item[key];
+    if (value === null || value === undefined) {
+      missing++;
+    } else {
+      total += value;
+    }
+  }
+  return { total, missing };
+}
+
+/**
+ * Build a row for a portion of a database food
+ * Values are recomputed from the FoodInfo per-100g data and rounded for display
+ * @param classId - Food class ID
+ * @param weightGrams - Portion weight (g)
+ */
+export function createNutritionItem(classId: number, weightGrams: number): NutritionData {
+  const foodInfo = getFoodInfo(classId);
+  const nutrition = calculateNutritionFromWeight(foodInfo, weightGrams);
+
+  return {
+    name: foodInfo.name,
+    calories: Math.round(nutrition.calories),
+    protein: Math.round(nutrition.protein),
+    carbs: Math.round(nutrition.carbs),
+    fat: Math.round(nutrition.fat),
+    fiber: Math.round(nutrition.fiber),
+    ...roundDetailedNutrients(nutrition),
+    serving: `${Math.round(weightGrams)}g`,
+    icon: foodInfo.icon,
+    classId,
+    weightGrams: Math.round(weightGrams),
+  };
+}
+
+/**
+ * Merge detections of the same class into one row, summing their weights
+ * @param detections - Detections from the inference worker
+ * @returns One row per detected food, in detection order
+ */
+export function mergeDetections(detections: Detection[]): NutritionData[] {
+  const weights = new Map<number, number>();
+  for (const d of detections) {
+    weights.set(d.classId, (weights.get(d.classId) ?? 0) + d.nutrition.weightGrams);
+  }
+  return Array.from(weights, ([classId, weightGrams]) =>
+    createNutritionItem(classId, weightGrams)
+  );
+}
+
+/**
+ * Build a row for a packaged product, for one serving
+ * The serving is the one printed on the package, else the whole package, else 100 g
+ * @param product - Product resolved from its barcode
+ */
+export function createPackagedItem(product: PackagedProduct): NutritionData {
+  const weightGrams = product.servingGrams ?? product.quantityGrams ?? 100;
+  const scale = weightGrams / 100;
+  const { per100g } = product;
+
+  return {
+    name: product.brand ? `${product.name} (${product.brand})` : product.name,
+    calories: Math.round(per100g.calories * scale),
+    protein: Math.round(per100g.protein * scale),
+    carbs: Math.round(per100g.carbs * scale),
+    fat: Math.round(per100g.fat * scale),
+    fiber: Math.round(per100g.fiber * scale),
+    ...roundDetailedNutrients({
+      sugars: scaleKnown(per100g.sugars, scale),
+      saturatedFat: scaleKnown(per100g.saturatedFat, scale),
+      salt: scaleKnown(per100g.salt, scale),
+      iron: scaleKnown(per100g.iron, scale),
+      calcium: scaleKnown(per100g.calcium, scale),
+      vitaminC: scaleKnown(per100g.vitaminC, scale),
+    }),
+    serving: `${Math.round(weightGrams)}g`,
+    icon: '📦',
+    weightGrams: Math.round(weightGrams),
+  };
+}
+
+function scaleKnown(per100g: number | undefined, scale: number): number | null {
+  return per100g === undefined ? null : per100g * scale;
+}
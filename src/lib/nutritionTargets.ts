@@ -0,0 +1,127 @@
+/**
+ * Daily Nutrition Targets
+ * Per-user calorie and macro goals, either typed in manually or derived
+ * from age/weight/height/activity (Mifflin-St Jeor), stored in localStorage
+ */
+
+import { TARGETS_CONFIG } from './constants';
+
+export type Sex = 'female' | 'male';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+
+export interface NutritionTargets {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+export interface UserProfile {
+  age: number;
+  weightKg: number;
+  heightCm: number;
+  sex: Sex;
+  activity: ActivityLevel;
+}
+
+/**
+ * What the user configured: explicit targets, or a profile to derive them from
+ */
+export type TargetSettings =
+  | { mode: 'manual'; targets: NutritionTargets }
+  | { mode: 'profile'; profile: UserProfile };
+
+/**
+ * Physical activity level multipliers applied to the basal metabolic rate
+ */
+export const ACTIVITY_FACTORS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9,
+};
+
+export const DEFAULT_TARGET_SETTINGS: TargetSettings = {
+  mode: 'manual',
+  targets: TARGETS_CONFIG.DEFAULT_TARGETS,
+};
+
+/**
+ * Derive daily targets from a user profile
+ * Energy: Mifflin-St Jeor BMR × activity factor
+ * Macros: split of energy (protein/carbs 4 kcal/g, fat 9 kcal/g), fiber per 1000 kcal
+ * @param profile - User profile
+ * @returns Rounded daily targets
+ */
+export function computeTargetsFromProfile(profile: UserProfile): NutritionTargets {
+  const bmr =
+    10 * profile.weightKg +
+    6.25 * profile.heightCm -
+    5 * profile.age +
+    (profile.sex === 'male' ? 5 : -161);
+  const calories = bmr * ACTIVITY_FACTORS[profile.activity];
+  const split = TARGETS_CONFIG.MACRO_ENERGY_SPLIT;
+
+  return {
+    calories: Math.round(calories),
+    protein: Math.round((calories * split.protein) / 4),
+    carbs: Math.round((calories * split.carbs) / 4),
+    fat: Math.round((calories * split.fat) / 9),
+    fiber: Math.round((calories / 1000) * TARGETS_CONFIG.FIBER_PER_1000_KCAL),
+  };
+}
+
+/**
+ * Resolve the effective targets for the current settings
+ */
+export function resolveTargets(settings: TargetSettings): NutritionTargets {
+  return settings.mode === 'manual'
+    ? settings.targets
+    : computeTargetsFromProfile(settings.profile);
+}
+
+let cachedSettings: TargetSettings | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Load saved settings, falling back to defaults
+ * Cached so it can serve as a useSyncExternalStore snapshot
+ */
+export function loadTargetSettings(): TargetSettings {
+  if (cachedSettings) return cachedSettings;
+  if (typeof localStorage === 'undefined') return DEFAULT_TARGET_SETTINGS;
+  try {
+    const raw = localStorage.getItem(TARGETS_CONFIG.STORAGE_KEY);
+    cachedSettings = raw ? (JSON.parse(raw) as TargetSettings) : DEFAULT_TARGET_SETTINGS;
+  } catch (error) {
+    console.warn('[NutritionTargets] Failed to load settings:', error);
+    cachedSettings = DEFAULT_TARGET_SETTINGS;
+  }
+  return cachedSettings;
+}
+
+/**
+ * Persist settings and notify subscribers
+ */
+export function saveTargetSettings(settings: TargetSettings): void {
+  cachedSettings = settings;
+  try {
+    localStorage.setItem(TARGETS_CONFIG.STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('[NutritionTargets] Failed to save settings:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to settings changes (useSyncExternalStore contract)
+ * @returns Unsubscribe function
+ */
+export function subscribeTargetSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * Persistent Scan Store
+ * Keeps every scan (timestamp, thumbnail, detections, totals) in IndexedDB
+ * so history survives reloads and can be grouped into meals by day
+ */
+
+import type { Detection, ScaleCalibration } from './inference/types';
+import type { NutritionData } from './mockNutrition';
+import { HISTORY_CONFIG } from './constants';
+
+/**
+ * Detection as persisted: masks are dropped, they are only needed while displaying a result
+ */
+export type StoredDetection = Omit<Detection, 'mask'>;
+
+/**
+ * Nutrient totals of a scan
+ */
+export interface ScanTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+/**
+ * One scan = one meal: everything detected in a single photo
+ */
+export interface ScanRecord {
+  /** Unique identifier */
+  id: string;
+  /** Capture time (ms since epoch) */
+  timestamp: number;
+  /** Small JPEG data URL of the scanned image */
+  thumbnail: string | null;
+  /** Raw model detections */
+  detections: StoredDetection[];
+  /** Food rows shown to the user (merged per class) */
+  items: NutritionData[];
+  /** Sum of the item rows */
+  totals: ScanTotals;
+  /** Scale used for weight estimation */
+  calibration?: ScaleCalibration;
+  /** EAN-13 code, for a packaged product scanned by barcode */
+  barcode?: string;
+}
+
+const STORE_NAME = 'scans';
+const TIMESTAMP_INDEX = 'timestamp';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create/upgrade) the database, once per page
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(HISTORY_CONFIG.DB_NAME, HISTORY_CONFIG.DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex(TIMESTAMP_INDEX, 'timestamp');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry after a failed open
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a Promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Insert or replace a scan
+ * @param scan - Scan to store
+ */
+export async function saveScan(scan: ScanRecord): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  await promisify(tx.objectStore(STORE_NAME).put(scan));
+}
+
+/**
+ * Get one scan, whether or not a loaded page holds it
+ * @param id - Scan identifier
+ * @returns The scan, or null if it does not exist
+ */
+export async function getScan(id: string): Promise<ScanRecord | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const scan = (await promisify(tx.objectStore(STORE_NAME).get(id))) as ScanRecord | undefined;
+  return scan ?? null;
+}
+
+/**
+ * Delete a scan
+ * @param id - Scan identifier
+ */
+export async function deleteScan(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  await promisify(tx.objectStore(STORE_NAME).delete(id));
+}
+
+/**
+ * Position in the history: the last scan of a loaded page
+ * Pages are keyed on (timestamp, id) rather than an offset, so scans saved
+ * out of order (imported photos keep their capture time) cannot shift them
+ */
+export interface ScanCursor {
+  timestamp: number;
+  id: string;
+}
+
+/**
+ * History order: newest first, ties broken by descending id as in the timestamp index
+ */
+export function compareScans(a: ScanRecord, b: ScanRecord): number {
+  if (a.timestamp !== b.timestamp) return b.timestamp - a.timestamp;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Get a page of scans, newest first
+ * @param after - Last scan of the previous page, null for the first page
+ * @param limit - Maximum number of scans to return
+ * @returns Scans ordered by compareScans
+ */
+export async function listScans(after: ScanCursor | null, limit: number): Promise<ScanRecord[]> {
+  const db = await openDatabase();
+  const index = db
+    .transaction(STORE_NAME, 'readonly')
+    .objectStore(STORE_NAME)
+    .index(TIMESTAMP_INDEX);
+
+  return new Promise((resolve, reject) => {
+    const results: ScanRecord[] = [];
+    const range = after ? IDBKeyRange.upperBound(after.timestamp) : null;
+    // Index cursors order equal timestamps by primary key, so 'prev' walks ids downwards
+    const request = index.openCursor(range, 'prev');
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || results.length >= limit) {
+        resolve(results);
+        return;
+      }
+      const scan = cursor.value as ScanRecord;
+      // Scans sharing the cursor's timestamp were loaded up to its id
+      if (!after || scan.timestamp < after.timestamp || scan.id < after.id) {
+        results.push(scan);
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Get scans within a time range, oldest first
+ * @param from - Start (inclusive, ms since epoch)
+ * @param to - End (exclusive, ms since epoch)
+ * @returns Scans ordered by ascending timestamp
+ */
+export async function listScansBetween(from: number, to: number): Promise<ScanRecord[]> {
+  const db = await openDatabase();
+  const index = db
+    .transaction(STORE_NAME, 'readonly')
+    .objectStore(STORE_NAME)
+    .index(TIMESTAMP_INDEX);
+  return promisify(index.getAll(IDBKeyRange.bound(from, to, false, true))) as Promise<
+    ScanRecord[]
+  >;
+}
+
+/**
+ * Sum the nutrient values of item rows
+ * @param items - Food rows of a scan
+ */
+export function computeTotals(items: NutritionData[]): ScanTotals {
+  return items.reduce<ScanTotals>(
+    (total, item) => ({
+      calories: total.calories + item.calories,
+      protein: total.protein + item.protein,
+      carbs: total.carbs + item.carbs,
+      fat: total.fat + item.fat,
+      fiber: total.fiber + item.fiber,
+    }),
+    { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 }
+  );
+}
+
+/**
+ * Strip the masks from detections before persisting them
+ */
+export function toStoredDetections(detections: Detection[]): StoredDetection[] {
+  return detections.map((d) => ({
+    classId: d.classId,
+    label: d.label,
+    confidence: d.confidence,
+    box: d.box,
+    nutrition: d.nutrition,
+    icon: d.icon,
+  }));
+}
+
+/**
+ * Downscale an image to a small JPEG thumbnail
+ * @param imageData - Image data URL, or an image file
+ * @returns Thumbnail data URL, or null if the image can't be decoded
+ */
+export async function createThumbnail(imageData: string | Blob): Promise<string | null> {
+  try {
+    const blob = typeof imageData === 'string' ? await (await fetch(imageData)).blob() : imageData;
+    const bitmap = await createImageBitmap(blob);
+    const scale = HISTORY_CONFIG.THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * Math.min(scale, 1));
+    canvas.height = Math.round(bitmap.height * Math.min(scale, 1));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.warn('[ScanStore] Failed to create thumbnail:', error);
+    return null;
+  }
+}
@@ -3,28 +3,109 @@
  * Provides a clean Promise-based API for communicating with the inference worker
  */
 
-import type { InferenceResult } from './inference/types';
+import type {
+  BackendInfo,
+  CalibrationRequest,
+  ExecutionProvider,
+  ImageSource,
+  InferenceResult,
+  ModelDownloadProgress,
+  WorkerHealth,
+} from './inference/types';
+import { InferenceError, toInferenceError } from './inference/errors';
+import { isTransferableImage } from './imageSource';
+import { WORKER_SUPERVISOR_CONFIG } from './constants';
+
+/**
+ * Priority of an INFER request: user-initiated scans run before background (live) frames
+ */
+export type InferPriority = 'user' | 'background';
+
+export interface InferOptions {
+  /** Default 'user' */
+  priority?: InferPriority;
+  /** Aborting rejects with a CANCELLED InferenceError, queued or in flight */
+  signal?: AbortSignal;
+}
+
+interface QueuedInference {
+  imageData: ImageSource;
+  calibration?: CalibrationRequest;
+  priority: InferPriority;
+  /** Already re-sent once after a crash */
+  replayed: boolean;
+  resolve: (result: InferenceResult) => void;
+  reject: (error: InferenceError) => void;
+  /** Removes the abort listener once the request settles */
+  cleanup: () => void;
+}
+
+/**
+ * Free a frame that will never reach the worker
+ */
+function releaseImage(imageData: ImageSource): void {
+  if (isTransferableImage(imageData)) imageData.close();
+}
+
+function cancelledError(reason: string): InferenceError {
+  return new InferenceError('CANCELLED', reason);
+}
+
+/**
+ * Whether an INFER interrupted by a crash is re-sent after the restart:
+ * only user scans whose image still exists (data URLs; bitmaps and frames were
+ * transferred to the dead worker), and only once
+ */
+function canReplay(entry: QueuedInference): boolean {
+  return !entry.replayed && entry.priority === 'user' && !isTransferableImage(entry.imageData);
+}
 
 /**
  * Client for communicating with the inference Web Worker
  * Manages worker lifecycle, message routing, and promise-based responses
+ *
+ * INFER requests go through a queue and reach the worker one at a time:
+ * user scans jump ahead of background frames (and cancel the one in flight),
+ * and a new background frame replaces any queued one (latest frame wins).
+ *
+ * Once INIT has succeeded, the client supervises the worker: a crash (onerror)
+ * or a hung INFER (timeout) terminates it, and a new worker is started and
+ * re-initialized with exponential backoff. Queued requests wait for it; the
+ * interrupted INFER is replayed or failed (see canReplay).
  */
 export class InferenceWorkerClient {
   private worker: Worker | null = null;
   private messageId = 0;
+  private inferQueue: QueuedInference[] = [];
+  /** INFER request the worker is working on; the slot frees when the worker answers */
+  private activeInference: { id: string; entry: QueuedInference } | null = null;
+  private health: WorkerHealth = { status: 'starting', restartCount: 0, lastError: null };
+  private readonly onHealthChange?: (health: WorkerHealth) => void;
+  /** INIT payload, re-sent on every restart */
+  private initPayload: { executionProviders?: ExecutionProvider[]; maxThreads?: number } = {};
+  private consecutiveFailures = 0;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Runs while a cancelled INFER still holds the worker, see cancelActive */
+  private cancelWatchdog: ReturnType<typeof setTimeout> | null = null;
+  private terminated = false;
   private pendingRequests = new Map<
     string,
     {
       resolve: (value: any) => void;
-      reject: (error: Error) => void;
+      reject: (error: InferenceError) => void;
       timeout?: NodeJS.Timeout;
+      onProgress?: (progress: ModelDownloadProgress) => void;
+      /** Re-arms the timeout; progress messages count as activity */
+      armTimeout: () => void;
     }
   >();
 
   /**
    * Create a new worker client and initialize the worker
+   * @param onHealthChange - Called on every health change (status, restarts)
    */
-  constructor() {
+  constructor(onHealthChange?: (health: WorkerHealth) => void) {
+    this.onHealthChange = onHealthChange;
     this.initWorker();
   }
 
@@ -43,9 +124,27 @@ export class InferenceWorkerClient {
       this.worker.onmessage = (event: MessageEvent) => {
         const { id, type, payload } = event.data;
 
+        // Any answer to the active INFER (even one already cancelled here) frees the worker
+        const wasActive = id === this.activeInference?.id;
+        if (wasActive) {
+          this.activeInference = null;
+          this.clearCancelWatchdog();
+          this.pumpQueue();
+        }
+
         const pending = this.pendingRequests.get(id);
         if (!pending) {
-          console.warn('[WorkerClient] Received response for unknown request:', id);
+          // Late answers to cancelled or timed-out INFERs are expected
+          if (!wasActive) {
+            console.warn('[WorkerClient] Received response for unknown request:', id);
+          }
+          return;
+        }
+
+        // Progress updates keep the request alive without settling it
+        if (type === 'INIT_PROGRESS') {
+          pending.armTimeout();
+          pending.onProgress?.(payload);
           return;
         }
 
@@ -59,7 +158,7 @@ export class InferenceWorkerClient {
 
         // Handle response
         if (type === 'ERROR') {
-          pending.reject(new Error(payload.message));
+          pending.reject(new InferenceError(payload.code, payload.message));
         } else {
           pending.resolve(payload);
         }
@@ -68,13 +167,7 @@ export class InferenceWorkerClient {
       // Handle worker errors
       this.worker.onerror = (error) => {
         console.error('[WorkerClient] Worker error:', error);
-
-        // Reject all pending requests
-        this.pendingRequests.forEach((pending) => {
-          if (pending.timeout) clearTimeout(pending.timeout);
-          pending.reject(new Error('Worker crashed'));
-        });
-        this.pendingRequests.clear();
+        this.handleWorkerFailure(error.message || 'Worker crashed');
       };
 
       console.log('[WorkerClient] Worker initialized');
@@ -88,58 +181,381 @@ export class InferenceWorkerClient {
    * Send a message to the worker and wait for response
    * @param type - Message type
    * @param payload - Message payload (optional)
-   * @param timeoutMs - Timeout in milliseconds (default: 30000)
-   * @returns Promise that resolves with worker response
+   * @param timeoutMs - Inactivity timeout in milliseconds (default: 30000)
+   * @param onProgress - Called for progress messages, which also reset the timeout
+   * @param transfer - Objects moved to the worker instead of copied
+   * @returns Promise that resolves with worker response, or rejects with an InferenceError
    */
   private sendMessage<T>(
     type: string,
     payload?: any,
-    timeoutMs: number = 30000
+    timeoutMs: number = 30000,
+    onProgress?: (progress: ModelDownloadProgress) => void,
+    transfer: Transferable[] = []
+  ): Promise<T> {
+    // Generate unique message ID
+    return this.postRequest<T>(`${this.messageId++}`, type, payload, timeoutMs, onProgress, transfer);
+  }
+
+  /**
+   * Send a message with a caller-chosen ID (see sendMessage)
+   */
+  private postRequest<T>(
+    id: string,
+    type: string,
+    payload: unknown,
+    timeoutMs: number,
+    onProgress?: (progress: ModelDownloadProgress) => void,
+    transfer: Transferable[] = []
   ): Promise<T> {
     return new Promise((resolve, reject) => {
       if (!this.worker) {
-        reject(new Error('Worker not initialized'));
+        reject(new InferenceError('WORKER_CRASHED', 'Worker not initialized'));
         return;
       }
 
-      // Generate unique message ID
-      const id = `${this.messageId++}`;
-
-      // Set up timeout
-      const timeout = setTimeout(() => {
-        this.pendingRequests.delete(id);
-        reject(new Error(`Worker request timeout after ${timeoutMs}ms`));
-      }, timeoutMs);
-
       // Store pending request
-      this.pendingRequests.set(id, { resolve, reject, timeout });
+      const pending = {
+        resolve,
+        reject,
+        onProgress,
+        timeout: undefined as NodeJS.Timeout | undefined,
+        armTimeout: () => {
+          if (pending.timeout) clearTimeout(pending.timeout);
+          pending.timeout = setTimeout(() => {
+            this.pendingRequests.delete(id);
+            reject(
+              new InferenceError('TIMEOUT', `Worker request timeout after ${timeoutMs}ms`)
+            );
+            // A worker that stops answering an INFER is presumed hung: restart it
+            if (id === this.activeInference?.id) {
+              this.activeInference = null;
+              this.handleWorkerFailure(`No answer to an inference after ${timeoutMs}ms`);
+            }
+          }, timeoutMs);
+        },
+      };
+      pending.armTimeout();
+      this.pendingRequests.set(id, pending);
 
       // Send message to worker
-      this.worker.postMessage({ id, type, payload });
+      this.worker.postMessage({ id, type, payload }, transfer);
     });
   }
 
   /**
    * Initialize the ONNX model in the worker
-   * @returns Promise that resolves when model is loaded
+   * @param executionProviders - Restrict/override provider preference (e.g. ['wasm'])
+   * @param onProgress - Model download progress (first launch only)
+   * @param maxThreads - WASM thread cap, for pooled workers sharing the cores
+   * @returns Promise that resolves with the selected backend once the model is loaded
+   */
+  async initialize(
+    executionProviders?: ExecutionProvider[],
+    onProgress?: (progress: ModelDownloadProgress) => void,
+    maxThreads?: number
+  ): Promise<BackendInfo> {
+    this.initPayload = { executionProviders, maxThreads };
+    this.setHealth({ status: 'starting' });
+    try {
+      // 30s inactivity timeout: download progress resets it, so slow networks still finish
+      const info = await this.sendMessage<BackendInfo>('INIT', this.initPayload, 30000, onProgress);
+      this.setHealth({ status: 'ready', lastError: null });
+      this.pumpQueue();
+      return info;
+    } catch (error) {
+      const initError = toInferenceError(error, 'MODEL_LOAD_FAILED');
+      this.setHealth({ status: 'failed', lastError: initError.message });
+      // Scans queued while starting would otherwise wait forever
+      this.rejectQueue(initError);
+      throw error;
+    }
+  }
+
+  /**
+   * Current worker health
    */
-  async initialize(): Promise<void> {
-    return this.sendMessage<void>('INIT', undefined, 10000); // 10s timeout for model loading
+  getHealth(): WorkerHealth {
+    return this.health;
+  }
+
+  private setHealth(update: Partial<WorkerHealth>): void {
+    this.health = { ...this.health, ...update };
+    this.onHealthChange?.(this.health);
+  }
+
+  /**
+   * Tear down a crashed or hung worker, settle its requests and schedule a restart
+   * Before the first successful INIT there is nothing to recover: requests just fail
+   */
+  private handleWorkerFailure(reason: string): void {
+    if (this.terminated) return;
+    console.error(`[WorkerClient] Worker failure: ${reason}`);
+
+    this.worker?.terminate();
+    this.worker = null;
+    const crashError = new InferenceError('WORKER_CRASHED', reason);
+
+    // The interrupted INFER goes back to the head of the queue, or fails
+    const active = this.activeInference;
+    this.activeInference = null;
+    this.clearCancelWatchdog();
+    if (active) {
+      const pending = this.pendingRequests.get(active.id);
+      if (pending) {
+        if (pending.timeout) clearTimeout(pending.timeout);
+        this.pendingRequests.delete(active.id);
+        if (canReplay(active.entry)) {
+          console.log('[WorkerClient] Replaying interrupted scan after restart');
+          active.entry.replayed = true;
+          this.inferQueue.unshift(active.entry);
+        } else {
+          pending.reject(crashError);
+        }
+      }
+    }
+    this.pendingRequests.forEach((pending) => {
+      if (pending.timeout) clearTimeout(pending.timeout);
+      pending.reject(crashError);
+    });
+    this.pendingRequests.clear();
+
+    if (this.health.status === 'starting' || this.health.status === 'failed') {
+      this.rejectQueue(crashError);
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures > WORKER_SUPERVISOR_CONFIG.MAX_RESTART_ATTEMPTS) {
+      this.setHealth({ status: 'failed', lastError: reason });
+      this.rejectQueue(
+        new InferenceError(
+          'WORKER_CRASHED',
+          `${reason} (gave up after ${WORKER_SUPERVISOR_CONFIG.MAX_RESTART_ATTEMPTS} restarts)`
+        )
+      );
+      return;
+    }
+
+    const delay = Math.min(
+      WORKER_SUPERVISOR_CONFIG.MAX_BACKOFF_MS,
+      WORKER_SUPERVISOR_CONFIG.INITIAL_BACKOFF_MS * 2 ** (this.consecutiveFailures - 1)
+    );
+    console.warn(
+      `[WorkerClient] Restarting worker in ${delay}ms ` +
+        `(attempt ${this.consecutiveFailures}/${WORKER_SUPERVISOR_CONFIG.MAX_RESTART_ATTEMPTS})`
+    );
+    this.setHealth({ status: 'degraded', lastError: reason });
+    this.restartTimer = setTimeout(() => this.restart(), delay);
+  }
+
+  /**
+   * Start a new worker and re-run INIT with the original options
+   */
+  private async restart(): Promise<void> {
+    this.restartTimer = null;
+    this.setHealth({ restartCount: this.health.restartCount + 1 });
+
+    try {
+      this.initWorker();
+      await this.sendMessage<BackendInfo>('INIT', this.initPayload, 30000);
+    } catch (error) {
+      // Crashes during INIT are handled (and rescheduled) by onerror
+      if (this.terminated || this.health.status !== 'degraded' || this.restartTimer) return;
+
+      const inferenceError = toInferenceError(error, 'MODEL_LOAD_FAILED');
+      if (inferenceError.code === 'MODEL_INCOMPATIBLE') {
+        // Retrying cannot fix the model
+        this.worker?.terminate();
+        this.worker = null;
+        this.setHealth({ status: 'failed', lastError: inferenceError.message });
+        this.rejectQueue(inferenceError);
+        return;
+      }
+      this.handleWorkerFailure(inferenceError.message);
+      return;
+    }
+
+    console.log('[WorkerClient] Worker restarted');
+    this.consecutiveFailures = 0;
+    this.setHealth({ status: 'ready' });
+    this.pumpQueue();
   }
 
   /**
    * Run inference on an image
-   * @param imageData - Base64 JPEG string from camera
-   * @returns Promise that resolves with inference results
+   * @param imageData - Base64 JPEG string, or ImageBitmap/VideoFrame (transferred: unusable after the call)
+   * @param calibration - Optional scale reference for weight estimation
+   * @param options - Priority and abort signal
+   * @returns Promise that resolves with inference results, or rejects with CANCELLED
+   *          when aborted, superseded by a newer background frame or preempted by a scan
    */
-  async infer(imageData: string): Promise<InferenceResult> {
-    return this.sendMessage<InferenceResult>('INFER', { imageData }, 30000); // 30s timeout
+  async infer(
+    imageData: ImageSource,
+    calibration?: CalibrationRequest,
+    { priority = 'user', signal }: InferOptions = {}
+  ): Promise<InferenceResult> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        releaseImage(imageData);
+        reject(cancelledError('Aborted before start'));
+        return;
+      }
+      if (this.health.status === 'failed') {
+        releaseImage(imageData);
+        reject(new InferenceError('WORKER_CRASHED', this.health.lastError ?? 'Worker failed'));
+        return;
+      }
+
+      const entry: QueuedInference = {
+        imageData,
+        calibration,
+        priority,
+        replayed: false,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      };
+      const onAbort = () => this.abortInference(entry);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (priority === 'background') {
+        // Latest frame wins: older queued frames are stale
+        this.dropQueued(
+          (queued) => queued.priority === 'background',
+          'Superseded by a newer frame'
+        );
+        this.inferQueue.push(entry);
+      } else {
+        // After the other user scans, before any background frame
+        const firstBackground = this.inferQueue.findIndex((queued) => queued.priority === 'background');
+        this.inferQueue.splice(firstBackground === -1 ? this.inferQueue.length : firstBackground, 0, entry);
+        if (this.activeInference?.entry.priority === 'background') {
+          this.cancelActive('Preempted by a scan');
+        }
+      }
+
+      this.pumpQueue();
+    });
+  }
+
+  /**
+   * Send the next queued INFER if the worker is idle
+   */
+  private pumpQueue(): void {
+    // While starting or restarting, requests wait in the queue
+    if (this.health.status !== 'ready') return;
+    if (this.activeInference || this.inferQueue.length === 0) return;
+    if (!this.worker) {
+      this.rejectQueue(new InferenceError('WORKER_CRASHED', 'Worker not initialized'));
+      return;
+    }
+
+    const entry = this.inferQueue.shift()!;
+    const id = `${this.messageId++}`;
+    this.activeInference = { id, entry };
+
+    this.postRequest<InferenceResult>(
+      id,
+      'INFER',
+      { imageData: entry.imageData, calibration: entry.calibration },
+      30000, // 30s timeout
+      undefined,
+      isTransferableImage(entry.imageData) ? [entry.imageData] : []
+    )
+      .then(entry.resolve, entry.reject)
+      .finally(entry.cleanup);
+  }
+
+  /**
+   * Abort one request, whether still queued or already sent
+   */
+  private abortInference(entry: QueuedInference): void {
+    const index = this.inferQueue.indexOf(entry);
+    if (index !== -1) {
+      this.inferQueue.splice(index, 1);
+      entry.cleanup();
+      releaseImage(entry.imageData);
+      entry.reject(cancelledError('Aborted'));
+      return;
+    }
+    if (this.activeInference?.entry === entry) {
+      this.cancelActive('Aborted');
+    }
+  }
+
+  /**
+   * Reject the in-flight INFER now and ask the worker to stop it
+   * The worker stays busy until it answers, so the queue waits for that answer;
+   * a worker that does not answer in time is presumed hung and restarted
+   */
+  private cancelActive(reason: string): void {
+    if (!this.activeInference) return;
+    const { id } = this.activeInference;
+    this.postCancel(id);
+
+    if (!this.cancelWatchdog) {
+      const timeoutMs = WORKER_SUPERVISOR_CONFIG.CANCEL_TIMEOUT_MS;
+      this.cancelWatchdog = setTimeout(() => {
+        this.cancelWatchdog = null;
+        if (id !== this.activeInference?.id) return;
+        this.activeInference = null;
+        this.handleWorkerFailure(`No answer to a cancelled inference after ${timeoutMs}ms`);
+      }, timeoutMs);
+    }
+
+    const pending = this.pendingRequests.get(id);
+    if (pending) {
+      if (pending.timeout) clearTimeout(pending.timeout);
+      this.pendingRequests.delete(id);
+      pending.reject(cancelledError(reason));
+    }
+  }
+
+  private clearCancelWatchdog(): void {
+    if (this.cancelWatchdog) {
+      clearTimeout(this.cancelWatchdog);
+      this.cancelWatchdog = null;
+    }
+  }
+
+  private postCancel(requestId: string): void {
+    this.worker?.postMessage({ id: `cancel-${requestId}`, type: 'CANCEL', payload: { requestId } });
+  }
+
+  /**
+   * Remove matching queued requests, rejecting them with CANCELLED
+   */
+  private dropQueued(predicate: (entry: QueuedInference) => boolean, reason: string): void {
+    const dropped = this.inferQueue.filter(predicate);
+    this.inferQueue = this.inferQueue.filter((entry) => !predicate(entry));
+    for (const entry of dropped) {
+      entry.cleanup();
+      releaseImage(entry.imageData);
+      entry.reject(cancelledError(reason));
+    }
+  }
+
+  private rejectQueue(error: InferenceError): void {
+    const queued = this.inferQueue;
+    this.inferQueue = [];
+    for (const entry of queued) {
+      entry.cleanup();
+      releaseImage(entry.imageData);
+      entry.reject(error);
+    }
   }
 
   /**
    * Terminate the worker and clean up resources
    */
   terminate(): void {
+    this.terminated = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    this.clearCancelWatchdog();
     if (this.worker) {
       // Send terminate message (best effort, don't wait)
       try {
@@ -153,12 +569,14 @@ export class InferenceWorkerClient {
       this.worker = null;
     }
 
-    // Clear all pending requests
+    // Clear all pending and queued requests
     this.pendingRequests.forEach((pending) => {
       if (pending.timeout) clearTimeout(pending.timeout);
-      pending.reject(new Error('Worker terminated'));
+      pending.reject(new InferenceError('WORKER_CRASHED', 'Worker terminated'));
     });
     this.pendingRequests.clear();
+    this.activeInference = null;
+    this.rejectQueue(new InferenceError('WORKER_CRASHED', 'Worker terminated'));
 
     console.log('[WorkerClient] Worker terminated');
   }
@@ -171,9 +589,9 @@ export class InferenceWorkerClient {
   }
 
   /**
-   * Get number of pending requests
+   * Get number of pending requests (sent and queued)
    */
   getPendingCount(): number {
-    return this.pendingRequests.size;
+    return this.pendingRequests.size + this.inferQueue.length;
   }
 }
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getPoolSize } from './workerPool';
+
+function stubDevice(hardwareConcurrency: number, deviceMemory?: number) {
+  vi.stubGlobal('navigator', { hardwareConcurrency, deviceMemory });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('getPoolSize', () => {
+  it('leaves one core to the page and caps the pool size', () => {
+    stubDevice(8, 8);
+    expect(getPoolSize(10)).toEqual({ workers: 4, threadsPerWorker: 2 });
+
+    stubDevice(4, 8);
+    expect(getPoolSize(10)).toEqual({ workers: 3, threadsPerWorker: 1 });
+  });
+
+  it('never starts more workers than images', () => {
+    stubDevice(8, 8);
+    expect(getPoolSize(1)).toEqual({ workers: 1, threadsPerWorker: 8 });
+    expect(getPoolSize(2)).toEqual({ workers: 2, threadsPerWorker: 4 });
+  });
+
+  it('fits the workers in half of the reported memory', () => {
+    stubDevice(8, 2);
+    expect(getPoolSize(10)).toEqual({ workers: 2, threadsPerWorker: 4 });
+  });
+
+  it('stays small when the browser does not report memory', () => {
+    stubDevice(8);
+    expect(getPoolSize(10)).toEqual({ workers: 2, threadsPerWorker: 4 });
+  });
+
+  it('keeps one worker on a single core or a low-memory device', () => {
+    stubDevice(1, 8);
+    expect(getPoolSize(10)).toEqual({ workers: 1, threadsPerWorker: 1 });
+
+    stubDevice(8, 0.5);
+    expect(getPoolSize(10)).toEqual({ workers: 1, threadsPerWorker: 8 });
+
+    stubDevice(0);
+    expect(getPoolSize(0)).toEqual({ workers: 1, threadsPerWorker: 1 });
+  });
+});
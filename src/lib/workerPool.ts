@@ -0,0 +1,103 @@
+/**
+ * Worker Pool for batch inference
+ * Runs several InferenceWorkerClients side by side, sized to the device's
+ * cores and memory, and hands each image to the least busy worker
+ */
+
+import type { CalibrationRequest, ImageSource, InferenceResult } from './inference/types';
+import { InferenceError } from './inference/errors';
+import { InferenceWorkerClient } from './workerClient';
+import { BATCH_CONFIG } from './constants';
+
+export interface PoolSize {
+  workers: number;
+  /** WASM threads per worker, so the pool does not oversubscribe the cores */
+  threadsPerWorker: number;
+}
+
+/**
+ * Size a pool for a number of images
+ * One core is left to the page; memory comes from navigator.deviceMemory
+ * (Chromium only, in GB), otherwise the pool stays small
+ * @param jobCount - Number of images to process
+ */
+export function getPoolSize(jobCount: number): PoolSize {
+  const cores = navigator.hardwareConcurrency || 1;
+  const deviceMemoryGb = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  const byMemory = deviceMemoryGb
+    ? Math.floor((deviceMemoryGb * 1024 * BATCH_CONFIG.MEMORY_BUDGET_RATIO) / BATCH_CONFIG.WORKER_MEMORY_MB)
+    : BATCH_CONFIG.UNKNOWN_MEMORY_WORKERS;
+
+  const workers = Math.max(
+    1,
+    Math.min(Math.max(1, cores - 1), byMemory, BATCH_CONFIG.MAX_WORKERS, jobCount)
+  );
+  return { workers, threadsPerWorker: Math.max(1, Math.floor(cores / workers)) };
+}
+
+/**
+ * Pool of inference workers
+ * Each worker keeps its own queue and supervisor; the pool only dispatches
+ */
+export class InferenceWorkerPool {
+  private clients: InferenceWorkerClient[] = [];
+
+  /**
+   * Start the workers and load the model in each
+   * Workers that fail to initialize are dropped; at least one must succeed
+   * @param size - Workers and threads per worker (see getPoolSize)
+   * @returns Number of workers ready
+   * @throws InferenceError from the first worker when none could start
+   */
+  async initialize({ workers, threadsPerWorker }: PoolSize): Promise<number> {
+    const candidates = Array.from({ length: workers }, () => new InferenceWorkerClient());
+    const outcomes = await Promise.allSettled(
+      candidates.map((client) => client.initialize(undefined, undefined, threadsPerWorker))
+    );
+
+    this.clients = candidates.filter((client, i) => {
+      if (outcomes[i].status === 'fulfilled') return true;
+      client.terminate();
+      return false;
+    });
+    if (this.clients.length === 0) {
+      const first = outcomes[0];
+      throw first.status === 'rejected'
+        ? first.reason
+        : new InferenceError('MODEL_LOAD_FAILED', 'No worker could start');
+    }
+
+    console.log(
+      `[WorkerPool] ${this.clients.length}/${workers} workers ready, ${threadsPerWorker} thread(s) each`
+    );
+    return this.clients.length;
+  }
+
+  get size(): number {
+    return this.clients.length;
+  }
+
+  /**
+   * Run inference on the least busy healthy worker
+   * @param imageData - Image (bitmaps and video frames are transferred)
+   * @param calibration - Optional scale reference
+   */
+  infer(imageData: ImageSource, calibration?: CalibrationRequest): Promise<InferenceResult> {
+    const available = this.clients.filter((client) => client.getHealth().status !== 'failed');
+    if (available.length === 0) {
+      return Promise.reject(new InferenceError('WORKER_CRASHED', 'No worker available'));
+    }
+    const client = available.reduce((best, candidate) =>
+      candidate.getPendingCount() < best.getPendingCount() ? candidate : best
+    );
+    return client.infer(imageData, calibration);
+  }
+
+  /**
+   * Stop every worker; pending requests reject with WORKER_CRASHED
+   */
+  terminate(): void {
+    this.clients.forEach((client) => client.terminate());
+    this.clients = [];
+  }
+}
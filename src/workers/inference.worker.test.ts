@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ExecutionProvider, ModelSpec, WorkerRequest, WorkerResponse } from '../lib/inference/types';
+
+const SPEC: ModelSpec = {
+  kind: 'yolov8-seg',
+  inputName: 'images',
+  inputSize: 32,
+  detectionOutputName: 'output0',
+  protoOutputName: 'output1',
+  numClasses: 2,
+  numMaskCoeffs: 32,
+  classNames: null,
+};
+
+const ort = vi.hoisted(() => ({
+  env: { versions: { web: '1.24.1' }, wasm: {} as Record<string, unknown>, logLevel: 'warning' },
+  InferenceSession: { create: vi.fn() },
+  Tensor: class {
+    constructor(
+      public type: string,
+      public data: Float32Array,
+      public dims: number[]
+    ) {}
+  },
+}));
+const providers = vi.hoisted(() => ({ available: [] as ExecutionProvider[] }));
+const modelSpec = vi.hoisted(() => ({ validate: vi.fn() }));
+
+vi.mock('onnxruntime-web/all', () => ort);
+vi.mock('../lib/inference/runtimeAssets', () => ({
+  resolveRuntimeAssets: () => ({ wasmPaths: '/onnxruntime-wasm/', isCdn: false }),
+  verifyRuntimeAssets: async () => {},
+}));
+vi.mock('../lib/inference/modelLoader', () => ({
+  loadModel: async () => new Uint8Array(8),
+}));
+vi.mock('../lib/inference/executionProviders', () => ({
+  detectAvailableProviders: async () => providers.available,
+  getRecommendedThreadCount: () => 1,
+}));
+vi.mock('../lib/inference/modelMetadata', () => ({
+  readModelMetadataProps: () => ({}),
+  resolveModelSpec: () => SPEC,
+  validateModelSpec: modelSpec.validate,
+}));
+
+/**
+ * Fake session: `runError` makes the warm-up run fail like an unsupported op would
+ */
+function fakeSession(runError?: Error) {
+  return {
+    run: vi.fn(async () => {
+      if (runError) throw runError;
+      return {};
+    }),
+    release: vi.fn(async () => {}),
+  };
+}
+
+/**
+ * Load a fresh worker (module state is per import) and send it one request
+ * @param setup - Runs after the module reset, so classes it imports match the worker's
+ * @returns The worker's last response
+ */
+async function sendToWorker(request: WorkerRequest, setup?: () => Promise<void>): Promise<WorkerResponse> {
+  vi.resetModules();
+  await setup?.();
+  const postMessage = vi.fn();
+  const worker = { location: { origin: 'http://localhost' }, postMessage } as unknown as {
+    onmessage: (event: MessageEvent<WorkerRequest>) => Promise<void>;
+  };
+  vi.stubGlobal('self', worker);
+  await import('./inference.worker');
+  await worker.onmessage({ data: request } as MessageEvent<WorkerRequest>);
+  return postMessage.mock.calls.at(-1)?.[0];
+}
+
+function initWorker(setup?: () => Promise<void>): Promise<WorkerResponse> {
+  return sendToWorker({ id: 'init-1', type: 'INIT' }, setup);
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  ort.InferenceSession.create.mockReset();
+  modelSpec.validate.mockReset();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('inference worker INIT', () => {
+  it('falls through to wasm when the GPU sessions cannot be created', async () => {
+    providers.available = ['webgpu', 'webgl', 'wasm'];
+    const wasmSession = fakeSession();
+    ort.InferenceSession.create.mockImplementation(
+      async (_bytes: Uint8Array, options: { executionProviders: ExecutionProvider[] }) => {
+        const [provider] = options.executionProviders;
+        if (provider !== 'wasm') throw new Error(`no available backend found: ${provider}`);
+        return wasmSession;
+      }
+    );
+
+    const response = await initWorker();
+
+    expect(ort.InferenceSession.create.mock.calls.map(([, options]) => options.executionProviders)).toEqual([
+      ['webgpu'],
+      ['webgl'],
+      ['wasm'],
+    ]);
+    expect(wasmSession.run).toHaveBeenCalledTimes(1);
+    expect(response).toEqual({
+      id: 'init-1',
+      type: 'INIT_SUCCESS',
+      payload: { executionProvider: 'wasm', numThreads: 1 },
+    });
+  });
+
+  it('releases a session whose warm-up run fails and tries the next provider', async () => {
+    providers.available = ['webgl', 'wasm'];
+    const webglSession = fakeSession(new Error('unsupported op: Resize'));
+    const wasmSession = fakeSession();
+    ort.InferenceSession.create.mockResolvedValueOnce(webglSession).mockResolvedValueOnce(wasmSession);
+
+    const response = await initWorker();
+
+    expect(webglSession.release).toHaveBeenCalledTimes(1);
+    expect(wasmSession.release).not.toHaveBeenCalled();
+    expect(response).toMatchObject({ type: 'INIT_SUCCESS', payload: { executionProvider: 'wasm' } });
+  });
+
+  it('reports MODEL_LOAD_FAILED when no provider can create a session', async () => {
+    providers.available = ['webgpu', 'wasm'];
+    ort.InferenceSession.create.mockRejectedValue(new Error('out of memory'));
+
+    const response = await initWorker();
+
+    expect(ort.InferenceSession.create).toHaveBeenCalledTimes(2);
+    expect(response).toEqual({
+      id: 'init-1',
+      type: 'ERROR',
+      payload: { code: 'MODEL_LOAD_FAILED', message: 'out of memory' },
+    });
+  });
+
+  it('does not retry other providers for an incompatible model', async () => {
+    providers.available = ['webgpu', 'wasm'];
+    const session = fakeSession();
+    ort.InferenceSession.create.mockResolvedValue(session);
+
+    const response = await initWorker(async () => {
+      const { InferenceError } = await import('../lib/inference/errors');
+      modelSpec.validate.mockImplementation(() => {
+        throw new InferenceError('MODEL_INCOMPATIBLE', '3 classes, expected 2');
+      });
+    });
+
+    expect(ort.InferenceSession.create).toHaveBeenCalledTimes(1);
+    expect(session.release).toHaveBeenCalledTimes(1);
+    expect(response).toMatchObject({ type: 'ERROR', payload: { code: 'MODEL_INCOMPATIBLE' } });
+  });
+});
+
+describe('inference worker INFER', () => {
+  it('closes a transferred frame when the session cannot be initialized', async () => {
+    providers.available = ['wasm'];
+    ort.InferenceSession.create.mockRejectedValue(new Error('out of memory'));
+    const frame = { close: vi.fn() } as unknown as ImageBitmap;
+
+    const response = await sendToWorker({ id: 'infer-1', type: 'INFER', payload: { imageData: frame } });
+
+    expect(frame.close).toHaveBeenCalled();
+    expect(response).toMatchObject({ type: 'ERROR', payload: { code: 'MODEL_LOAD_FAILED' } });
+  });
+});
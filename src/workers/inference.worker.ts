@@ -1,19 +1,46 @@
 /**
  * NutriScan Inference Worker
- * Runs YOLOv8 segmentation model in Web Worker to prevent UI blocking
+ * Runs the YOLO segmentation (or detection) model in Web Worker to prevent UI blocking
  * Handles image preprocessing, ONNX inference, NMS, mask generation, and calorie calculation
  */
 
-import * as ort from "onnxruntime-web";
+// The "all" build registers the WebGL backend too; the default one only has cpu, wasm, webgpu and webnn
+import * as ort from "onnxruntime-web/all";
 import type {
   WorkerRequest,
   WorkerResponse,
   InferenceResult,
-  RawDetection,
+  CalibrationRequest,
+  BackendInfo,
+  ExecutionProvider,
+  ModelDownloadProgress,
+  ModelSpec,
+  ImageSource,
 } from "../lib/inference/types";
-import { preprocessImage } from "../lib/inference/preprocessing";
+import { decodeImage, preprocessImage } from "../lib/inference/preprocessing";
 import { applyNMS } from "../lib/inference/nms";
-import { processDetections } from "../lib/inference/postprocessing";
+import { getOutputDecoder } from "../lib/inference/decoders";
+import {
+  processDetections,
+  getMaskPixelAreaCm2,
+} from "../lib/inference/postprocessing";
+import { calibrateScale } from "../lib/inference/calibration";
+import {
+  detectAvailableProviders,
+  getRecommendedThreadCount,
+} from "../lib/inference/executionProviders";
+import {
+  resolveRuntimeAssets,
+  verifyRuntimeAssets,
+} from "../lib/inference/runtimeAssets";
+import { loadModel } from "../lib/inference/modelLoader";
+import { InferenceError, toInferenceError } from "../lib/inference/errors";
+import { getMaskTransferables } from "../lib/inference/maskEncoding";
+import {
+  readModelMetadataProps,
+  resolveModelSpec,
+  validateModelSpec,
+} from "../lib/inference/modelMetadata";
 import { INFERENCE_CONFIG, APP_BASE_URL } from "../lib/constants";
 
 // ============================================================================
@@ -21,6 +48,11 @@ import { INFERENCE_CONFIG, APP_BASE_URL } from "../lib/constants";
 // ============================================================================
 
 let session: ort.InferenceSession | null = null;
+let backendInfo: BackendInfo | null = null;
+let modelSpec: ModelSpec | null = null;
+// INFER requests in progress, and those the main thread has since cancelled
+const runningRequests = new Set<string>();
+const cancelledRequests = new Set<string>();
 let isInitializing = false;
 let initError: Error | null = null;
 
@@ -31,8 +63,15 @@ let initError: Error | null = null;
 /**
  * Initialize ONNX Runtime session (lazy loading, singleton pattern)
  * Only loads model on first inference request
+ * @param preferredProviders - Execution providers to try, fastest first
+ * @param onProgress - Model download progress callback (first launch only)
+ * @param maxThreads - WASM thread cap (pooled workers share the cores)
  */
-async function initializeSession(): Promise<void> {
+async function initializeSession(
+  preferredProviders?: ExecutionProvider[],
+  onProgress?: (progress: ModelDownloadProgress) => void,
+  maxThreads?: number,
+): Promise<void> {
   // Already initialized
   if (session) return;
 
@@ -48,14 +87,19 @@ async function initializeSession(): Promise<void> {
     console.log("[Worker] Initializing ONNX Runtime...");
 
     // Configure ONNX Runtime WebAssembly backend
-    // Use CDN for WASM files as fallback for better compatibility
-    ort.env.wasm.wasmPaths =
-      "https://cdn.jsdelivr.net/npm/onnxruntime-web@1.24.1/dist/";
-    ort.env.wasm.numThreads = 1; // Start with single thread for compatibility
-    ort.env.logLevel = "verbose"; // Enable verbose logging for debugging
+    // Self-hosted assets by default (works offline), CDN only when configured
+    const runtimeVersion = ort.env.versions.web ?? "unknown";
+    const assets = resolveRuntimeAssets(runtimeVersion, self.location.origin);
+    await verifyRuntimeAssets(assets, runtimeVersion);
+    ort.env.wasm.wasmPaths = assets.wasmPaths;
+    // Threads need cross-origin isolation; must be set before the first session
+    const numThreads = getRecommendedThreadCount(maxThreads);
+    ort.env.wasm.numThreads = numThreads;
+    ort.env.logLevel = INFERENCE_CONFIG.DEBUG_STATS ? "verbose" : "warning";
 
     console.log("[Worker] ONNX Runtime environment configured");
     console.log("[Worker] WASM paths:", ort.env.wasm.wasmPaths);
+    console.log("[Worker] WASM threads:", numThreads);
 
     // Create inference session with more compatible settings
     // Use absolute URL for model in worker context
@@ -64,27 +108,101 @@ async function initializeSession(): Promise<void> {
     const modelUrl = new URL(INFERENCE_CONFIG.MODEL_PATH, baseUrl).href;
     console.log("[Worker] Base URL:", baseUrl);
     console.log("[Worker] Loading model from:", modelUrl);
-    session = await ort.InferenceSession.create(modelUrl, {
-      executionProviders: ["wasm"], // WebAssembly backend
-      graphOptimizationLevel: "basic", // Start with basic optimization
-    });
 
-    console.log("[Worker] Session initialized successfully");
-    console.log("[Worker] Input names:", session.inputNames);
-    console.log("[Worker] Output names:", session.outputNames);
+    // Download once (cached in Cache Storage), then reuse the bytes for every provider tried
+    const modelBytes = await loadModel(modelUrl, onProgress);
+    const metadataProps = readModelMetadataProps(modelBytes);
+    console.log("[Worker] Model metadata:", metadataProps);
+
+    // Try each available provider, falling back on failure
+    const providers = await detectAvailableProviders(preferredProviders);
+    console.log("[Worker] Candidate execution providers:", providers);
+
+    let lastError: unknown = null;
+    for (const provider of providers) {
+      try {
+        const created = await createValidatedSession(
+          modelBytes,
+          provider,
+          metadataProps,
+        );
+        session = created.session;
+        modelSpec = created.spec;
+        backendInfo = { executionProvider: provider, numThreads };
+        break;
+      } catch (error) {
+        // A model that does not match the database fails the same way everywhere
+        if (
+          error instanceof InferenceError &&
+          error.code === "MODEL_INCOMPATIBLE"
+        ) {
+          throw error;
+        }
+        lastError = error;
+        console.warn(`[Worker] Execution provider ${provider} failed:`, error);
+      }
+    }
+
+    if (!session) {
+      throw lastError instanceof Error
+        ? lastError
+        : new Error("No execution provider could load the model");
+    }
+
+    console.log("[Worker] Session initialized successfully on", backendInfo);
+    console.log("[Worker] Model layout:", modelSpec);
   } catch (error) {
-    initError = error as Error;
+    initError = toInferenceError(error, "MODEL_LOAD_FAILED");
     console.error("[Worker] Session initialization failed:", error);
     console.error("[Worker] Error details:", {
       message: (error as Error).message,
       stack: (error as Error).stack,
     });
-    throw error;
+    throw initError;
   } finally {
     isInitializing = false;
   }
 }
 
+/**
+ * Create a session on one provider, check the model layout and run a warm-up inference
+ * Some providers load the graph but fail on the first run (unsupported ops),
+ * so a provider is only accepted once a run succeeds
+ * @param modelBytes - Model file contents
+ * @param provider - Execution provider to use
+ * @param metadataProps - Custom metadata read from the model file
+ * @returns Working inference session and the model layout
+ */
+async function createValidatedSession(
+  modelBytes: Uint8Array,
+  provider: ExecutionProvider,
+  metadataProps: Record<string, string>,
+): Promise<{ session: ort.InferenceSession; spec: ModelSpec }> {
+  console.log(`[Worker] Creating session on ${provider}...`);
+  const candidate = await ort.InferenceSession.create(modelBytes, {
+    executionProviders: [provider],
+    graphOptimizationLevel: provider === "wasm" ? "basic" : "all",
+  });
+
+  try {
+    // Reject models whose layout or classes do not match the food database
+    const spec = resolveModelSpec(candidate, metadataProps);
+    validateModelSpec(spec);
+
+    const size = spec.inputSize;
+    const warmup = new ort.Tensor(
+      "float32",
+      new Float32Array(3 * size * size),
+      [1, 3, size, size],
+    );
+    await candidate.run({ [spec.inputName]: warmup });
+    return { session: candidate, spec };
+  } catch (error) {
+    await candidate.release();
+    throw error;
+  }
+}
+
 /**
  * Wait for ongoing initialization to complete
  */
@@ -105,86 +223,96 @@ async function waitForInitialization(): Promise<void> {
 
 /**
  * Run complete inference pipeline
- * @param imageData - Base64 JPEG or ImageBitmap
+ * @param imageData - Base64 JPEG, ImageBitmap or VideoFrame
+ * @param calibrationRequest - Optional scale reference chosen by the user
+ * @param requestId - INFER request ID, checked for cancellation between steps
  * @returns Complete inference result with detections and nutrition
  */
 async function runInference(
-  imageData: string | ImageBitmap,
+  imageData: ImageSource,
+  calibrationRequest?: CalibrationRequest,
+  requestId?: string,
 ): Promise<InferenceResult> {
   const startTime = performance.now();
+  // Decoded or transferred image, closed in finally if a step below throws
+  let bitmap: ImageBitmap | null = null;
 
-  // Ensure session is initialized
-  if (!session) {
-    await initializeSession();
-  }
+  try {
+    // Ensure session is initialized
+    if (!session) {
+      await initializeSession();
+    }
 
-  if (!session) {
-    throw new Error("Failed to initialize ONNX session");
-  }
+    if (!session || !modelSpec) {
+      throw new InferenceError(
+        "MODEL_LOAD_FAILED",
+        "Failed to initialize ONNX session",
+      );
+    }
+    const spec = modelSpec;
 
-  try {
-    // Step 1: Preprocess image to tensor
-    const inputTensor = await preprocessImage(imageData);
+    // Step 1: Decode image, resolve its scale and preprocess to tensor
+    try {
+      bitmap = await decodeImage(imageData);
+    } catch (error) {
+      throw toInferenceError(error, "DECODE_FAILED");
+    }
+    const calibration = calibrateScale(bitmap, calibrationRequest);
+    console.log("[Worker] Scale calibration:", calibration);
+
+    const { tensor: inputTensor, letterbox } = await preprocessImage(
+      bitmap,
+      spec.inputSize,
+    );
+    // Pixels now live in the tensor; free the decoded or transferred bitmap
+    bitmap.close();
+
+    // Last chance to skip the expensive part
+    throwIfCancelled(requestId);
 
     // Step 2: Run ONNX inference
-    const outputs = await session.run({ images: inputTensor });
+    const outputs = await session.run({ [spec.inputName]: inputTensor });
+    throwIfCancelled(requestId);
 
-    // YOLOv8-seg outputs (custom 32-class model):
-    // output0: [1, 68, 8400] - Detection boxes (4) + class scores (32) + mask coefficients (32)
-    // output1: [1, 32, 160, 160] - Mask prototypes
+    // Outputs (layout and model family read from the model at INIT, see decoders.ts):
+    // detection: boxes, class scores and mask coefficients
+    // protos: [1, numMaskCoeffs, protoH, protoW] - Mask prototypes, absent for detect-only models
 
-    const output0 = outputs.output0; // Detection tensor
-    const output1 = outputs.output1; // Mask prototypes
+    const output0 = outputs[spec.detectionOutputName]; // Detection tensor
+    const output1 = spec.protoOutputName ? outputs[spec.protoOutputName] : null; // Mask prototypes
 
-    if (!output0 || !output1) {
+    if (!output0 || output1 === undefined) {
       throw new Error("Missing model outputs");
     }
 
-    // Debug: Check ONNX outputs
     const output0Data = output0.data as Float32Array;
-    const output1Data = output1.data as Float32Array;
-    console.log("[Worker] ONNX outputs:", {
-      output0Dims: [...output0.dims],
-      output1Dims: [...output1.dims],
-      output0Sample: Array.from(output0Data.slice(0, 5)),
-      output1Sample: Array.from(output1Data.slice(0, 5)),
-      output0HasNaN: Array.from(output0Data.slice(0, 1000)).some((v) =>
-        isNaN(v),
-      ),
-      output1HasNaN: Array.from(output1Data.slice(0, 1000)).some((v) =>
-        isNaN(v),
-      ),
-    });
+    const output1Data = output1 ? (output1.data as Float32Array) : null;
+    if (INFERENCE_CONFIG.DEBUG_STATS) {
+      logOutputStats(output0Data, output1Data, output0.dims, output1?.dims ?? []);
+    }
 
-    // Step 3: Parse YOLO outputs to raw detections
-    const rawDetections = parseYOLOOutput(
+    // Step 3: Decode model outputs to raw detections
+    const postStart = performance.now();
+    const rawDetections = getOutputDecoder(spec.kind).decode(
       output0Data,
-      [...output0.dims], // Convert readonly array to mutable
+      output0.dims,
+      spec,
     );
 
-    console.log(`[Worker] Parsed ${rawDetections.length} raw detections`);
-
-    // Debug: Check first detection's mask coefficients
-    if (rawDetections.length > 0) {
-      console.log("[Worker] First detection maskCoeffs:", {
-        length: rawDetections[0].maskCoeffs.length,
-        sample: Array.from(rawDetections[0].maskCoeffs.slice(0, 5)),
-        hasNaN: Array.from(rawDetections[0].maskCoeffs).some((v) => isNaN(v)),
-      });
-    }
-
     // Step 4: Apply Non-Maximum Suppression
     const filteredDetections = applyNMS(rawDetections);
 
     console.log(
-      `[Worker] After NMS: ${filteredDetections.length} detections remaining`,
+      `[Worker] ${rawDetections.length} raw detections, ${filteredDetections.length} after NMS`,
     );
 
     // Step 5: Generate masks and calculate nutrition
     const detections = await processDetections(
       filteredDetections,
-      output1.data as Float32Array,
-      [...output1.dims], // Convert readonly array to mutable
+      output1Data,
+      output1 ? [...output1.dims] : null, // Convert readonly array to mutable
+      letterbox,
+      getMaskPixelAreaCm2(calibration.cmPerPixel, letterbox),
     );
 
     // Step 6: Calculate total calories
@@ -196,7 +324,8 @@ async function runInference(
     const processingTime = performance.now() - startTime;
 
     console.log(
-      `[Worker] Inference complete in ${processingTime.toFixed(0)}ms`,
+      `[Worker] Inference complete in ${processingTime.toFixed(0)}ms ` +
+        `(post-processing ${(performance.now() - postStart).toFixed(1)}ms)`,
     );
 
     // Return result
@@ -204,98 +333,68 @@ async function runInference(
       detections,
       totalCalories,
       processingTime,
-      message:
-        detections.length === 0
-          ? "Aucun aliment détecté. Essayez de vous rapprocher."
-          : undefined,
+      calibration,
+      messageCode: detections.length === 0 ? "NO_DETECTIONS" : undefined,
     };
 
     return result;
   } catch (error) {
     console.error("[Worker] Inference failed:", error);
-    throw error;
+    throw toInferenceError(error, "INFERENCE_FAILED");
+  } finally {
+    // No-op when already closed after preprocessing
+    bitmap?.close();
+    // A transferred frame that was never decoded (session init failed) is ours to close too
+    if (typeof imageData !== "string") {
+      imageData.close();
+    }
   }
 }
 
 /**
- * Parse YOLOv8 segmentation output to raw detections
- * @param data - Output0 tensor data [1, 48, 8400]
- * @param dims - Tensor dimensions
- * @returns Array of raw detections
+ * Debug: shapes, ranges and NaN counts of the raw model outputs
  */
-function parseYOLOOutput(data: Float32Array, dims: number[]): RawDetection[] {
-  const [batch, channels, numAnchors] = dims; // [1, 116, 8400]
-
-  // YOLOv8-seg format for our custom model:
-  // First 4 channels: bbox (x_center, y_center, width, height)
-  // Next 32 channels: class probabilities (32 food classes)
-  // Last 32 channels: mask coefficients
-  // Total: 4 + 32 + 32 = 68 channels
-
-  const numClasses = 32; // Our food classes
-  const numMaskCoeffs = 32;
-
-  const detections: RawDetection[] = [];
-
-  // Iterate over all 8400 anchor points
-  for (let i = 0; i < numAnchors; i++) {
-    // Extract bounding box (normalized to image size)
-    const x = data[i]; // x_center
-    const y = data[numAnchors + i]; // y_center
-    const w = data[2 * numAnchors + i]; // width
-    const h = data[3 * numAnchors + i]; // height
-
-    // Extract class scores (channels 4 to 15)
-    const classScores = new Float32Array(numClasses);
-    for (let c = 0; c < numClasses; c++) {
-      classScores[c] = data[(4 + c) * numAnchors + i];
-    }
-
-    // Find best class and confidence
-    let maxScore = -Infinity;
-    let maxClassId = 0;
-    for (let c = 0; c < numClasses; c++) {
-      if (classScores[c] > maxScore) {
-        maxScore = classScores[c];
-        maxClassId = c;
+function logOutputStats(
+  output0: Float32Array,
+  output1: Float32Array | null,
+  dims0: readonly number[],
+  dims1: readonly number[],
+): void {
+  const stats = (data: Float32Array) => {
+    let min = Infinity;
+    let max = -Infinity;
+    let nanCount = 0;
+    for (let i = 0; i < data.length; i++) {
+      const v = data[i];
+      if (Number.isNaN(v)) {
+        nanCount++;
+        continue;
       }
+      if (v < min) min = v;
+      if (v > max) max = v;
     }
-
-    // Skip low confidence detections early
-    if (maxScore < INFERENCE_CONFIG.CONFIDENCE_THRESHOLD) {
-      continue;
-    }
-
-    // Extract mask coefficients (channels 16 to 47)
-    const maskCoeffs = new Float32Array(numMaskCoeffs);
-    for (let m = 0; m < numMaskCoeffs; m++) {
-      maskCoeffs[m] = data[(4 + numClasses + m) * numAnchors + i];
-    }
-
-    // Normalize bbox coordinates to [0, 1]
-    const box = {
-      x: x / INFERENCE_CONFIG.INPUT_SIZE,
-      y: y / INFERENCE_CONFIG.INPUT_SIZE,
-      width: w / INFERENCE_CONFIG.INPUT_SIZE,
-      height: h / INFERENCE_CONFIG.INPUT_SIZE,
-    };
-
-    // Add detection
-    detections.push({
-      classId: maxClassId,
-      confidence: maxScore,
-      box,
-      maskCoeffs,
-    });
-  }
-
-  return detections;
+    return { min, max, nanCount };
+  };
+  console.log("[Worker] ONNX outputs:", {
+    output0: { dims: [...dims0], ...stats(output0) },
+    output1: output1 ? { dims: [...dims1], ...stats(output1) } : null,
+  });
 }
 
 // ============================================================================
 // Message Handler
 // ============================================================================
 
+/**
+ * Abort the current INFER request if the main thread cancelled it
+ * Only checked between steps: a running session.run cannot be interrupted
+ */
+function throwIfCancelled(requestId: string | undefined): void {
+  if (requestId !== undefined && cancelledRequests.has(requestId)) {
+    throw new InferenceError("CANCELLED", `Request ${requestId} cancelled`);
+  }
+}
+
 /**
  * Handle messages from main thread
  */
@@ -307,23 +406,68 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
     switch (type) {
       case "INIT":
         // Initialize model
-        await initializeSession();
-        const response: WorkerResponse = { id, type: "INIT_SUCCESS" };
+        await initializeSession(
+          request.payload?.executionProviders,
+          (progress) => {
+            const progressResponse: WorkerResponse = {
+              id,
+              type: "INIT_PROGRESS",
+              payload: progress,
+            };
+            self.postMessage(progressResponse);
+          },
+          request.payload?.maxThreads,
+        );
+        if (!backendInfo) {
+          throw new InferenceError(
+            "MODEL_LOAD_FAILED",
+            "Failed to initialize ONNX session",
+          );
+        }
+        const response: WorkerResponse = {
+          id,
+          type: "INIT_SUCCESS",
+          payload: backendInfo,
+        };
         self.postMessage(response);
         break;
 
       case "INFER":
         // Run inference
         if (!request.payload || !request.payload.imageData) {
-          throw new Error("Missing imageData in INFER request");
+          throw new InferenceError(
+            "DECODE_FAILED",
+            "Missing imageData in INFER request",
+          );
+        }
+        let result: InferenceResult;
+        runningRequests.add(id);
+        try {
+          result = await runInference(
+            request.payload.imageData,
+            request.payload.calibration,
+            id,
+          );
+        } finally {
+          runningRequests.delete(id);
+          cancelledRequests.delete(id);
         }
-        const result = await runInference(request.payload.imageData);
         const inferResponse: WorkerResponse = {
           id,
           type: "INFER_SUCCESS",
           payload: result,
         };
-        self.postMessage(inferResponse);
+        // Hand the mask buffers over instead of cloning them
+        self.postMessage(inferResponse, {
+          transfer: getMaskTransferables(result.detections.map((d) => d.mask)),
+        });
+        break;
+
+      case "CANCEL":
+        // Picked up by the request's next throwIfCancelled(); late cancels are ignored
+        if (runningRequests.has(request.payload.requestId)) {
+          cancelledRequests.add(request.payload.requestId);
+        }
         break;
 
       case "TERMINATE":
@@ -331,6 +475,8 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
         if (session) {
           await session.release();
           session = null;
+          backendInfo = null;
+          modelSpec = null;
         }
         const terminateResponse: WorkerResponse = {
           id,
@@ -343,11 +489,12 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
         throw new Error(`Unknown message type: ${type}`);
     }
   } catch (error) {
-    // Send error response
+    // Send error response, classified so the UI can offer the right recovery
+    const inferenceError = toInferenceError(error, "INFERENCE_FAILED");
     const errorResponse: WorkerResponse = {
       id,
       type: "ERROR",
-      payload: { message: (error as Error).message },
+      payload: { code: inferenceError.code, message: inferenceError.message },
     };
     self.postMessage(errorResponse);
   }